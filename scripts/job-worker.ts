@@ -0,0 +1,48 @@
+#!/usr/bin/env bun
+
+import { processNextJob } from "../src/app/lib/job-handlers";
+import { JobQueue } from "../src/app/lib/job-queue";
+
+// Runs background jobs until stopped. Run a single worker: on startup it puts
+// jobs a previous worker left half-done back on the queue.
+// --once works through the jobs that are due and exits (e.g. from cron).
+
+const POLL_SECONDS = 5; // how long to block waiting for a job, and so how fast retries are promoted
+
+const args = process.argv.slice(2);
+const once = args.includes("--once");
+
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`\n🛑 ${signal} received, finishing the current job...`);
+    stopping = true;
+  });
+}
+
+const recovered = await JobQueue.recoverProcessing();
+if (recovered > 0) {
+  console.log(`♻️  Re-queued ${recovered} jobs left running by a previous worker`);
+}
+
+const stats = await JobQueue.getStats();
+console.log(`👷 Job worker started: ${stats.pending} pending, ${stats.delayed} waiting to retry, ${stats.dead} dead`);
+
+let processed = 0;
+while (!stopping) {
+  const result = await processNextJob(once ? 0 : POLL_SECONDS);
+  if (!result) {
+    if (once) {
+      break;
+    }
+    continue;
+  }
+
+  processed++;
+  const icon = result.outcome === "done" ? "✅" : result.outcome === "retry" ? "🔁" : "💀";
+  console.log(`${icon} ${result.job.type} ${result.job.mbid} (${result.outcome})`);
+}
+
+console.log("");
+console.log(`👋 Processed ${processed} jobs`);
+process.exit(0);
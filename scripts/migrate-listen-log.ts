@@ -0,0 +1,41 @@
+#!/usr/bin/env bun
+
+import { ListenLogMigration } from "../src/app/lib/listen-log-migration";
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const deleteLegacyKeys = args.includes("--delete-legacy");
+
+console.log(`🔀 Migrating legacy user albums into the listen log${dryRun ? " (dry run)" : ""}...`);
+
+const report = await ListenLogMigration.run({ dryRun, deleteLegacyKeys });
+
+console.log("");
+console.log(`📁 Scanned: ${report.scanned}`);
+console.log(`➕ Migrated: ${report.migrated}`);
+console.log(`🔗 Merged: ${report.merged}`);
+console.log(`🗑️  Legacy keys deleted: ${report.legacyKeysDeleted}`);
+
+if (report.orphaned.length > 0) {
+  console.log("");
+  console.log(`⚠️  ${report.orphaned.length} legacy keys belong to unknown users:`);
+  for (const key of report.orphaned) {
+    console.log(`   ${key}`);
+  }
+}
+
+if (report.conflicts.length > 0) {
+  console.log("");
+  console.log(`❌ ${report.conflicts.length} conflicts (ListenEvent entry kept; these users' legacy keys are left in place):`);
+  for (const conflict of report.conflicts) {
+    console.log(
+      `   ${conflict.username} ${conflict.date}: ListenEvent=${conflict.listenEventAlbumMbid} legacy=${conflict.legacyAlbumMbid}`
+    );
+  }
+  process.exit(1);
+}
+
+console.log("");
+console.log("✅ Migration complete!");
+process.exit(0);
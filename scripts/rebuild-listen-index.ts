@@ -0,0 +1,27 @@
+#!/usr/bin/env bun
+
+import { ListenEventEntries } from "../src/app/lib/listen-event-entries";
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const username = args.find(arg => arg.startsWith("--user="))?.split("=")[1];
+
+if (username) {
+  console.log(`🗂️  Rebuilding listen index for ${username}...`);
+  const count = await ListenEventEntries.rebuildUserIndex(username);
+  console.log(`   ${username}: ${count} entries`);
+} else {
+  console.log("🗂️  Rebuilding listen indexes for all users...");
+  const counts = await ListenEventEntries.rebuildAllIndexes();
+  for (const [user, count] of counts) {
+    console.log(`   ${user}: ${count} entries`);
+  }
+  console.log(`📁 Rebuilt ${counts.size} indexes`);
+
+  console.log("🎚️  Recounting site-wide release group listens and ratings...");
+  console.log(`   ${await ListenEventEntries.rebuildReleaseGroupCounters()} entries`);
+}
+
+console.log("");
+console.log("✅ Rebuild complete!");
+process.exit(0);
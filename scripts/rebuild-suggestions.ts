@@ -0,0 +1,11 @@
+#!/usr/bin/env bun
+
+import { MusicStorage } from "../src/app/lib/music-storage";
+
+console.log("🔤 Rebuilding search suggestions from cached albums and artists...");
+const count = await MusicStorage.rebuildSuggestions();
+console.log(`📁 Added suggestions for ${count} albums and artists`);
+
+console.log("");
+console.log("✅ Rebuild complete!");
+process.exit(0);
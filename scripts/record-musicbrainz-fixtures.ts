@@ -0,0 +1,84 @@
+#!/usr/bin/env bun
+
+// Record MusicBrainz and Cover Art Archive responses for the test stand-in in
+// tests/musicbrainz-stub, using the lookups the app makes. Always talks to the
+// live services, so re-run it sparingly: requests are spaced a little over a
+// second apart as MusicBrainz asks.
+
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import { getMusicBrainzLookupPath } from "../src/app/lib/musicbrainz-lookups";
+
+const MUSICBRAINZ_API = "https://musicbrainz.org/ws/2/";
+const COVER_ART_ARCHIVE = "https://coverartarchive.org";
+const USER_AGENT = "AlbumADay/0.0.1 ( https://github.com/pupperpowell/album-a-day )";
+const REQUEST_SPACING = 1100;
+const FIXTURES_DIR = path.join(import.meta.dir, "..", "tests", "fixtures", "musicbrainz");
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const releaseIds = args.filter(arg => arg.startsWith("--release=")).map(arg => arg.split("=")[1]);
+
+if (releaseIds.length === 0) {
+  console.log("Usage: bun scripts/record-musicbrainz-fixtures.ts --release=<mbid> [--release=<mbid> ...]");
+  process.exit(1);
+}
+
+async function get(url: string, accept = "application/json"): Promise<Response | null> {
+  await new Promise(resolve => setTimeout(resolve, REQUEST_SPACING));
+  const response = await fetch(url, { headers: { "User-Agent": USER_AGENT, Accept: accept } });
+  if (!response.ok) {
+    console.log(`   ${response.status} ${url}`);
+    return null;
+  }
+  return response;
+}
+
+async function save(kind: string, file: string, data: unknown): Promise<void> {
+  await mkdir(path.join(FIXTURES_DIR, kind), { recursive: true });
+  await Bun.write(
+    path.join(FIXTURES_DIR, kind, file),
+    data instanceof ArrayBuffer ? data : `${JSON.stringify(data, null, 2)}\n`
+  );
+}
+
+console.log(`🎙️  Recording ${releaseIds.length} release(s) into ${FIXTURES_DIR}`);
+
+for (const releaseId of releaseIds) {
+  const release = await (await get(`${MUSICBRAINZ_API}${getMusicBrainzLookupPath("release", releaseId)}`))?.json();
+  if (!release) {
+    continue;
+  }
+  await save("release", `${releaseId}.json`, release);
+  console.log(`   release ${release.title}`);
+
+  const releaseGroupId = release["release-group"]?.id;
+  if (releaseGroupId) {
+    const releaseGroup = await (await get(`${MUSICBRAINZ_API}${getMusicBrainzLookupPath("release-group", releaseGroupId)}`))?.json();
+    if (releaseGroup) {
+      await save("release-group", `${releaseGroupId}.json`, releaseGroup);
+    }
+  }
+
+  for (const credit of release["artist-credit"] ?? []) {
+    const artist = await (await get(`${MUSICBRAINZ_API}${getMusicBrainzLookupPath("artist", credit.artist.id)}`))?.json();
+    if (artist) {
+      await save("artist", `${credit.artist.id}.json`, artist);
+    }
+  }
+
+  const coverArt = await (await get(`${COVER_ART_ARCHIVE}/release/${releaseId}`))?.json();
+  if (coverArt) {
+    await save("cover-art", `${releaseId}.json`, coverArt);
+
+    // The stand-in serves one image per release for every size, so keep the smallest useful one
+    const image = await get(`${COVER_ART_ARCHIVE}/release/${releaseId}/front-500`, "image/*");
+    if (image) {
+      await save("images", `${releaseId}.jpg`, await image.arrayBuffer());
+    }
+  }
+}
+
+console.log("");
+console.log("✅ Recording complete!");
+process.exit(0);
@@ -0,0 +1,54 @@
+// Deep link to a single day of a user's calendar, e.g. /{username}/2025-03-10
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import DayPanel from '../../components/DayPanel';
+import ProfileView from '../../components/ProfileView';
+import { AuthUtils } from '../../lib/auth-utils';
+import { ListenEventEntries } from '../../lib/listen-event-entries';
+
+interface DayPageProps {
+	params: Promise<{ username: string; date: string }>;
+}
+
+export async function generateMetadata({ params }: DayPageProps): Promise<Metadata> {
+	const { username, date } = await params;
+	const entry = ListenEventEntries.validateDate(date)
+		? await ListenEventEntries.getListenEventEntryWithAlbum(username, date)
+		: null;
+
+	if (!entry) {
+		return { title: `${username} is listening to one album a day` };
+	}
+
+	return {
+		title: `${username} listened to ${entry.album.title}`,
+		description: entry.notes.slice(0, 150),
+	};
+}
+
+export default async function DayPage({ params }: DayPageProps) {
+	const { username, date } = await params;
+
+	if (!ListenEventEntries.validateDate(date)) {
+		notFound();
+	}
+
+	const user = await AuthUtils.getUserByUsername(username);
+	if (!user) {
+		notFound();
+	}
+
+	// Only the profile owner gets the edit button
+	const sessionId = (await cookies()).get('session_id')?.value;
+	const session = sessionId ? await AuthUtils.getSession(sessionId) : null;
+	const isOwner = session?.userId === user.id;
+
+	const entry = await ListenEventEntries.getListenEventEntryWithAlbum(username, date);
+
+	return (
+		<ProfileView username={username} timezone={user.timezone} month={date.slice(0, 7)} selectedDate={date}>
+			<DayPanel username={username} date={date} entry={entry} isOwner={isOwner} />
+		</ProfileView>
+	);
+}
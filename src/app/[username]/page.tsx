@@ -1,2 +1,28 @@
-// This is the user public profile page. It will show a user's top albums, calendar of albums, and more
-// Logged in users will see actions to edit their own data
\ No newline at end of file
+// This is the user public profile page. It shows a month of the user's calendar covered in album art,
+// server-rendered so the first paint doesn't wait on client fetches
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ProfileView from '../components/ProfileView';
+import { AuthUtils } from '../lib/auth-utils';
+
+interface ProfilePageProps {
+	params: Promise<{ username: string }>;
+	searchParams: Promise<{ month?: string }>;
+}
+
+export async function generateMetadata({ params }: ProfilePageProps): Promise<Metadata> {
+	const { username } = await params;
+	return { title: `${username} is listening to one album a day` };
+}
+
+export default async function ProfilePage({ params, searchParams }: ProfilePageProps) {
+	const { username } = await params;
+	const { month } = await searchParams;
+
+	const user = await AuthUtils.getUserByUsername(username);
+	if (!user) {
+		notFound();
+	}
+
+	return <ProfileView username={username} timezone={user.timezone} month={month} />;
+}
@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AuthUtils } from '@/app/lib/auth-utils';
+import type { CalendarListenEventEntry } from '@/app/lib/listen-event-entries';
+import { getYearReview } from '@/app/lib/year-review';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function formatEntry(entry: CalendarListenEventEntry | null): string {
+	if (!entry) {
+		return '—';
+	}
+	if (!entry.album) {
+		return entry.date;
+	}
+	return `${entry.album.title} by ${entry.album.artistName}`;
+}
+
+export default async function YearReviewPage({
+	params,
+}: {
+	params: Promise<{ username: string; year: string }>;
+}) {
+	const { username, year } = await params;
+	const yearNum = parseInt(year);
+
+	if (isNaN(yearNum) || yearNum < 1000 || yearNum > 9999) {
+		notFound();
+	}
+
+	const user = await AuthUtils.getUserByUsername(username);
+	if (!user) {
+		notFound();
+	}
+
+	const review = await getYearReview(username, yearNum);
+
+	return (
+		<div className="min-h-screen bg-white dark:bg-gray-900 px-4 py-12">
+			<div className="max-w-5xl mx-auto">
+				<div className="flex items-center justify-between mb-8">
+					<Link href={`/${username}/year/${yearNum - 1}`} className="text-sm text-gray-500 hover:text-gray-700">
+						← {yearNum - 1}
+					</Link>
+					<h1 className="text-4xl font-bold text-gray-900 dark:text-white">
+						@{username}&apos;s {yearNum}
+					</h1>
+					<Link href={`/${username}/year/${yearNum + 1}`} className="text-sm text-gray-500 hover:text-gray-700">
+						{yearNum + 1} →
+					</Link>
+				</div>
+
+				{review.totalAlbums === 0 ? (
+					<p className="text-center text-gray-600 dark:text-gray-300">
+						No albums logged in {yearNum}.
+					</p>
+				) : (
+					<>
+						<dl className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-12">
+							<div className="rounded-lg bg-gray-100 dark:bg-gray-800 p-4">
+								<dt className="text-sm text-gray-500">Albums</dt>
+								<dd className="text-2xl font-semibold text-gray-900 dark:text-white">{review.totalAlbums}</dd>
+							</div>
+							<div className="rounded-lg bg-gray-100 dark:bg-gray-800 p-4">
+								<dt className="text-sm text-gray-500">Best rated</dt>
+								<dd className="font-semibold text-gray-900 dark:text-white">
+									{formatEntry(review.bestRated)}
+									{review.bestRated?.rating !== undefined && ` (${review.bestRated.rating}/10)`}
+								</dd>
+							</div>
+							<div className="rounded-lg bg-gray-100 dark:bg-gray-800 p-4">
+								<dt className="text-sm text-gray-500">Longest streak</dt>
+								<dd className="font-semibold text-gray-900 dark:text-white">
+									{review.longestStreak
+										? `${review.longestStreak.length} days (${review.longestStreak.start} – ${review.longestStreak.end})`
+										: '—'}
+								</dd>
+							</div>
+							<div className="rounded-lg bg-gray-100 dark:bg-gray-800 p-4">
+								<dt className="text-sm text-gray-500">Favorite artist</dt>
+								<dd className="font-semibold text-gray-900 dark:text-white">
+									{review.favoriteArtist
+										? `${review.favoriteArtist.artistName} (${review.favoriteArtist.count} albums)`
+										: '—'}
+								</dd>
+							</div>
+							<div className="rounded-lg bg-gray-100 dark:bg-gray-800 p-4">
+								<dt className="text-sm text-gray-500">First listen</dt>
+								<dd className="font-semibold text-gray-900 dark:text-white">
+									{review.firstListen?.date}: {formatEntry(review.firstListen)}
+								</dd>
+							</div>
+							<div className="rounded-lg bg-gray-100 dark:bg-gray-800 p-4">
+								<dt className="text-sm text-gray-500">Last listen</dt>
+								<dd className="font-semibold text-gray-900 dark:text-white">
+									{review.lastListen?.date}: {formatEntry(review.lastListen)}
+								</dd>
+							</div>
+						</dl>
+
+						<h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-4">Month by month</h2>
+						<ol className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-12">
+							{review.months.map((month, index) => (
+								<li key={month.month} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+									<p className="text-sm text-gray-500">
+										{MONTH_NAMES[index]} · {month.listens} {month.listens === 1 ? 'album' : 'albums'}
+									</p>
+									<p className="font-medium text-gray-900 dark:text-white">{formatEntry(month.topAlbum)}</p>
+								</li>
+							))}
+						</ol>
+
+						<h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-4">Every day</h2>
+						<div className="grid grid-cols-[repeat(auto-fill,minmax(2.5rem,1fr))] gap-1">
+							{review.covers.map(cover => (
+								<div
+									key={cover.date}
+									className="aspect-square bg-gray-100 dark:bg-gray-800 rounded-sm overflow-hidden"
+									title={cover.title ? `${cover.date}: ${cover.title} by ${cover.artistName}` : cover.date}
+								>
+									{cover.coverUrl && (
+										<img
+											src={cover.coverUrl}
+											alt={cover.title ? `${cover.title} cover art` : cover.date}
+											className="w-full h-full object-cover"
+											loading="lazy"
+										/>
+									)}
+								</div>
+							))}
+						</div>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
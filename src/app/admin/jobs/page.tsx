@@ -0,0 +1,94 @@
+// Admin view of the background job queue: what's waiting, what's being retried
+// and what has been dead-lettered. Only for users listed in ADMIN_USERNAMES.
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import DeadJobActions from '../../components/DeadJobActions';
+import { AuthUtils } from '../../lib/auth-utils';
+import { type Job, JobQueue } from '../../lib/job-queue';
+
+export const metadata: Metadata = { title: 'Background jobs' };
+
+// Always read the queue as it is now
+export const dynamic = 'force-dynamic';
+
+function formatTime(epochMs: number | undefined): string {
+	return epochMs ? new Date(epochMs).toLocaleString() : '—';
+}
+
+function JobTable({ jobs, dead }: { jobs: Job[]; dead?: boolean }) {
+	if (jobs.length === 0) {
+		return <p className="text-gray-500">None.</p>;
+	}
+
+	return (
+		<table className="w-full text-sm text-left">
+			<thead className="text-gray-500">
+				<tr>
+					<th className="py-2 pr-4 font-medium">Job</th>
+					<th className="py-2 pr-4 font-medium">Release</th>
+					<th className="py-2 pr-4 font-medium">Attempts</th>
+					<th className="py-2 pr-4 font-medium">{dead ? 'Failed' : 'Queued'}</th>
+					<th className="py-2 pr-4 font-medium">Last error</th>
+					{dead && <th className="py-2 font-medium" />}
+				</tr>
+			</thead>
+			<tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+				{jobs.map(job => (
+					<tr key={job.id}>
+						<td className="py-2 pr-4 whitespace-nowrap">{job.type}</td>
+						<td className="py-2 pr-4 font-mono text-xs">{job.album ? `${job.album.title} · ${job.mbid}` : job.mbid}</td>
+						<td className="py-2 pr-4">{job.attempts}</td>
+						<td className="py-2 pr-4 whitespace-nowrap">
+							{dead ? formatTime(job.failedAt) : job.runAt ? `retry ${formatTime(job.runAt)}` : formatTime(job.enqueuedAt)}
+						</td>
+						<td className="py-2 pr-4 text-red-700 dark:text-red-400">{job.lastError ?? ''}</td>
+						{dead && (
+							<td className="py-2">
+								<DeadJobActions jobId={job.id} />
+							</td>
+						)}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
+
+export default async function JobsPage() {
+	const sessionId = (await cookies()).get('session_id')?.value;
+	const session = sessionId ? await AuthUtils.getSession(sessionId) : null;
+	if (!session || !AuthUtils.isAdmin(session.username)) {
+		notFound();
+	}
+
+	const [stats, pending, dead] = await Promise.all([
+		JobQueue.getStats(),
+		JobQueue.getPendingJobs(),
+		JobQueue.getDeadJobs(),
+	]);
+
+	return (
+		<div className="min-h-screen bg-white dark:bg-gray-900 px-4 py-12">
+			<div className="max-w-5xl mx-auto text-gray-900 dark:text-white">
+				<h1 className="text-3xl font-bold">Background jobs</h1>
+				<p className="mt-2 text-gray-500">
+					{stats.pending} pending · {stats.processing} running · {stats.delayed} waiting to retry · {stats.dead} dead
+				</p>
+
+				<section className="mt-10">
+					<h2 className="text-xl font-semibold mb-4">Pending</h2>
+					<JobTable jobs={pending} />
+				</section>
+
+				<section className="mt-10">
+					<div className="flex items-center justify-between mb-4">
+						<h2 className="text-xl font-semibold">Dead</h2>
+						{dead.length > 0 && <DeadJobActions />}
+					</div>
+					<JobTable jobs={dead} dead />
+				</section>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/app/lib/auth-middleware";
+import { AuthUtils } from "@/app/lib/auth-utils";
+import { JobQueue } from "@/app/lib/job-queue";
+
+async function authenticateAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const auth = await authenticateRequest(request);
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.statusCode }
+    );
+  }
+  if (!AuthUtils.isAdmin(auth.user!.username)) {
+    return NextResponse.json(
+      { error: "Admins only" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// Background job queue: sizes, the next pending jobs and the dead-letter list
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await authenticateAdmin(request);
+    if (denied) {
+      return denied;
+    }
+
+    const [stats, pending, dead] = await Promise.all([
+      JobQueue.getStats(),
+      JobQueue.getPendingJobs(),
+      JobQueue.getDeadJobs(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      stats,
+      pending,
+      dead,
+    });
+  } catch (error) {
+    console.error("Jobs GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Retry a dead job ({ action: "retry", id }) or empty the dead-letter list ({ action: "clear" })
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authenticateAdmin(request);
+    if (denied) {
+      return denied;
+    }
+
+    const { action, id } = await request.json();
+
+    if (action === "clear") {
+      await JobQueue.clearDead();
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== "retry" || typeof id !== "string" || !id) {
+      return NextResponse.json(
+        { error: "Expected { action: \"retry\", id } or { action: \"clear\" }" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await JobQueue.retryDead(id))) {
+      return NextResponse.json(
+        { error: "Dead job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Jobs POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
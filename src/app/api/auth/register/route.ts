@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AuthUtils } from "@/app/lib/auth-utils";
+import { DEFAULT_TIMEZONE, isValidTimezone, resolveTimezone } from "@/app/lib/timezone";
 
 export async function POST(request: NextRequest) {
   try {
-    const { username, password, name } = await request.json();
+    const { username, password, name, timezone } = await request.json();
 
     // Validate input
     if (!username || !password || !name) {
@@ -20,8 +21,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return NextResponse.json(
+        { error: "Timezone must be a valid IANA timezone" },
+        { status: 400 }
+      );
+    }
+
     // Create user
-    const user = await AuthUtils.createUser(username, password, name);
+    const user = await AuthUtils.createUser(username, password, name, timezone || DEFAULT_TIMEZONE);
 
     // Create session
     const session = await AuthUtils.createSession(user.id, user.username);
@@ -34,6 +42,7 @@ export async function POST(request: NextRequest) {
         username: user.username,
         name: user.name,
         createdAt: user.createdAt,
+        timezone: resolveTimezone(user.timezone),
       },
     });
 
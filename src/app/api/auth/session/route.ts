@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AuthUtils } from "@/app/lib/auth-utils";
+import { resolveTimezone } from "@/app/lib/timezone";
 
 export async function GET(request: NextRequest) {
   try {
@@ -40,6 +41,7 @@ export async function GET(request: NextRequest) {
         username: user.username,
         name: user.name,
         createdAt: user.createdAt,
+        timezone: resolveTimezone(user.timezone),
       },
       session: {
         sessionId: session.sessionId,
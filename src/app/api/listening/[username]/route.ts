@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ListenEventEntries } from "@/app/lib/ListenEvent-entries";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
 
 export async function GET(
 	request: NextRequest,
@@ -35,13 +35,61 @@ export async function GET(
 				entry,
 			});
 		} else {
-			// Get all entries for user
-			const entries = await ListenEventEntries.getAllUserEntries(username);
+			// Get a page of entries for user
+			const cursor = searchParams.get("cursor");
+			let before = searchParams.get("before") || undefined;
+			let after = searchParams.get("after") || undefined;
+
+			if (cursor) {
+				const parsedCursor = ListenEventEntries.parseCursor(cursor);
+				if (!parsedCursor) {
+					return NextResponse.json(
+						{ error: "Invalid cursor" },
+						{ status: 400 }
+					);
+				}
+				({ before, after } = parsedCursor);
+			}
+
+			if ((before && !ListenEventEntries.validateDate(before)) || (after && !ListenEventEntries.validateDate(after))) {
+				return NextResponse.json(
+					{ error: "before and after must be in YYYY-MM-DD format" },
+					{ status: 400 }
+				);
+			}
+
+			const direction = searchParams.get("direction") || "desc";
+			if (direction !== "asc" && direction !== "desc") {
+				return NextResponse.json(
+					{ error: "direction must be 'asc' or 'desc'" },
+					{ status: 400 }
+				);
+			}
+
+			const limitParam = searchParams.get("limit");
+			const limit = limitParam ? parseInt(limitParam) : ListenEventEntries.DEFAULT_PAGE_SIZE;
+			if (isNaN(limit) || limit < 1 || limit > ListenEventEntries.MAX_PAGE_SIZE) {
+				return NextResponse.json(
+					{ error: `limit must be between 1 and ${ListenEventEntries.MAX_PAGE_SIZE}` },
+					{ status: 400 }
+				);
+			}
+
+			const page = await ListenEventEntries.getUserEntriesPage(username, {
+				before,
+				after,
+				limit,
+				direction,
+			});
+			const total = await ListenEventEntries.countUserEntries(username);
 
 			return NextResponse.json({
 				success: true,
-				entries,
-				count: entries.length,
+				entries: page.entries,
+				count: page.entries.length,
+				total,
+				nextCursor: page.nextCursor,
+				prevCursor: page.prevCursor,
 			});
 		}
 	} catch (error) {
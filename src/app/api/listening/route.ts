@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest } from "@/app/lib/auth-middleware";
+import { resolveFavoriteTrackPick } from "@/app/lib/favorite-tracks";
 import { ListenEventEntries } from "@/app/lib/listen-event-entries";
+import { MusicBrainzApiError, MusicBrainzClient } from "@/app/lib/musicbrainz-client";
+import { MusicStorage } from "@/app/lib/music-storage";
+import { JobQueue } from "@/app/lib/job-queue";
 
 export async function POST(request: NextRequest) {
 	try {
@@ -13,12 +17,13 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		const { date, album_mbid, rating, favorite_track, notes } = await request.json();
+		const { date, release_group_mbid, rating, favorite_track, favorite_track_mbid, notes, ...body } = await request.json();
+		let album_mbid: string | undefined = body.album_mbid;
 
 		// Validate required fields
-		if (!date || !album_mbid) {
+		if (!date || (!album_mbid && !release_group_mbid)) {
 			return NextResponse.json(
-				{ error: "Date and album_mbid are required" },
+				{ error: "Date and album_mbid or release_group_mbid are required", field: date ? "album_mbid" : "date" },
 				{ status: 400 }
 			);
 		}
@@ -26,30 +31,54 @@ export async function POST(request: NextRequest) {
 		// Validate date format
 		if (!ListenEventEntries.validateDate(date)) {
 			return NextResponse.json(
-				{ error: "Date must be in YYYY-MM-DD format" },
+				{ error: "Date must be in YYYY-MM-DD format", field: "date" },
 				{ status: 400 }
 			);
 		}
 
 		// Check if date is in the future
-		if (ListenEventEntries.isDateInFuture(date)) {
+		if (ListenEventEntries.isDateInFuture(date, auth.user!.timezone)) {
 			return NextResponse.json(
-				{ error: "Cannot add ListenEvent entries for future dates" },
+				{ error: "Cannot add ListenEvent entries for future dates", field: "date" },
 				{ status: 400 }
 			);
 		}
 
-		// Validate rating
-		if (rating !== undefined && !ListenEventEntries.validateRating(rating)) {
+		// Validate rating; without one (or with null) the listen is unrated
+		if (rating !== undefined && rating !== null && !ListenEventEntries.validateRating(rating)) {
 			return NextResponse.json(
-				{ error: "Rating must be between 0 and 10" },
+				{ error: "Rating must be between 0 and 10", field: "rating" },
+				{ status: 400 }
+			);
+		}
+
+		// Only the album was given: log its preferred edition
+		if (!album_mbid) {
+			const edition = await MusicBrainzClient.getPreferredEdition(release_group_mbid);
+			if (!edition) {
+				return NextResponse.json(
+					{ error: "No editions found for this album", field: "album_mbid" },
+					{ status: 404 }
+				);
+			}
+			if (!(await MusicStorage.getCachedAlbum(edition.id))) {
+				await MusicStorage.cacheAlbum(edition);
+			}
+			album_mbid = edition.id;
+		}
+
+		// A favorite track picked from the tracklist is stored as a recording reference
+		const favoriteTrackPick = favorite_track_mbid ? await resolveFavoriteTrackPick(album_mbid, favorite_track_mbid) : undefined;
+		if (favoriteTrackPick === null) {
+			return NextResponse.json(
+				{ error: "Favorite track is not on this album's tracklist", field: "favorite_track" },
 				{ status: 400 }
 			);
 		}
 
 		// Set default values for optional fields
-		const finalRating = rating !== undefined ? rating : 0;
-		const finalFavoriteTrack = favorite_track || "";
+		const finalRating = rating ?? undefined;
+		const finalFavoriteTrack = favorite_track || favoriteTrackPick?.title || "";
 		const finalNotes = notes || "";
 
 		// Add or update ListenEvent entry
@@ -59,15 +88,36 @@ export async function POST(request: NextRequest) {
 			album_mbid,
 			finalRating,
 			finalFavoriteTrack,
-			finalNotes
+			finalNotes,
+			favoriteTrackPick?.reference,
+			release_group_mbid
 		);
 
+		// Have the worker fill in the tracklist and artwork the day view shows
+		try {
+			if (!(await MusicStorage.getCachedAlbum(album_mbid))?.tracks) {
+				await JobQueue.enqueue("fetch-tracklist", album_mbid);
+			}
+			await JobQueue.enqueue("download-artwork", album_mbid);
+		} catch (error) {
+			console.warn(`Failed to queue background jobs for album ${album_mbid}:`, error);
+		}
+
 		return NextResponse.json({
 			success: true,
 			entry,
 		});
 	} catch (error) {
 		console.error("ListenEvent POST error:", error);
+
+		// The tracklist for the favorite track couldn't be fetched
+		if (error instanceof MusicBrainzApiError) {
+			return NextResponse.json(
+				{ error: "Failed to fetch data from MusicBrainz. Please try again later.", field: "favorite_track" },
+				{ status: 503 }
+			);
+		}
+
 		return NextResponse.json(
 			{ error: "Internal server error" },
 			{ status: 500 }
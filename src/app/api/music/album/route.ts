@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { MusicBrainzClient } from "@/app/lib/musicbrainz-client";
 import { MusicStorage, Album } from "@/app/lib/music-storage";
+import { JobQueue } from "@/app/lib/job-queue";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
+import { isAlbumStale } from "@/app/lib/job-handlers";
 
 export async function GET(request: NextRequest) {
   try {
@@ -32,17 +35,22 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // If not in cache, fetch from MusicBrainz
-    if (!album && mbid) {
-      album = await MusicBrainzClient.getRelease(mbid);
-      if (album) {
+    // If not in cache, or cached from search results without a tracklist,
+    // fetch from MusicBrainz (album IDs are release MBIDs)
+    const releaseMbid = mbid || id;
+    if ((!album || !album.tracks) && releaseMbid) {
+      const release = await MusicBrainzClient.getRelease(releaseMbid);
+      if (release) {
+        album = { ...album, ...release };
+        cached = false;
+
         // Cache the album
         await MusicStorage.cacheAlbum(album);
-        await MusicStorage.cacheAlbumByMBID(mbid, album);
+        await MusicStorage.cacheAlbumByMBID(releaseMbid, album);
         
-        // If the album has a release group, cache the relationship
+        // Regroup the listens logged before it was cached
         if (album.releaseGroupId) {
-          await MusicStorage.cacheReleaseGroupReleases(album.releaseGroupId, [album]);
+          await ListenEventEntries.settleReleaseGroup(album.id, album.releaseGroupId);
         }
       }
     }
@@ -54,6 +62,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Serve what's cached and let the worker refresh it
+    if (cached && isAlbumStale(album)) {
+      await JobQueue.enqueue("refresh-stale-album", album.id).catch(error =>
+        console.warn(`Failed to queue refresh for album ${album.id}:`, error)
+      );
+    }
+
     return NextResponse.json({
       success: true,
       album,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { MusicBrainzClient } from "@/app/lib/musicbrainz-client";
 import { MusicStorage } from "@/app/lib/music-storage";
+import { getDiscography } from "@/app/lib/discography";
 
 export async function GET(request: NextRequest) {
   try {
@@ -8,6 +9,7 @@ export async function GET(request: NextRequest) {
     const id = searchParams.get("id");
     const mbid = searchParams.get("mbid");
     const includeAlbumsParam = searchParams.get("includeAlbums");
+    const studioOnly = searchParams.get("studioOnly") === "true";
 
     // Validate parameters
     if (!id && !mbid) {
@@ -22,7 +24,6 @@ export async function GET(request: NextRequest) {
     let artist = null;
     let cached = false;
     let albums = null;
-    let albumsCached = false;
 
     // Try to get artist from cache first
     if (id) {
@@ -54,28 +55,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get albums if requested
-    if (includeAlbums && artist.musicBrainzId) {
-      // Try to get cached albums first
-      albums = await MusicStorage.getCachedArtistAlbums(artist.id);
-      if (albums) {
-        albumsCached = true;
-      } else {
-        // Fetch from MusicBrainz
-        albums = await MusicBrainzClient.getArtistReleases(artist.musicBrainzId);
-        if (albums && albums.length > 0) {
-          // Cache the albums
-          await MusicStorage.cacheArtistAlbums(artist.id, albums);
-          
-          // Also cache individual albums
-          for (const album of albums) {
-            await MusicStorage.cacheAlbum(album);
-            if (album.musicBrainzId) {
-              await MusicStorage.cacheAlbumByMBID(album.musicBrainzId, album);
-            }
-          }
-        }
-      }
+    // Get the discography if requested: release groups, oldest first (cached by the client)
+    if (includeAlbums) {
+      albums = await getDiscography(artist, { studioOnly });
     }
 
     return NextResponse.json({
@@ -83,7 +65,6 @@ export async function GET(request: NextRequest) {
       artist,
       albums,
       cached,
-      albumsCached,
     });
   } catch (error) {
     console.error("Get artist error:", error);
@@ -1,10 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { downloadAndSaveArtwork, localArtworkExists } from '@/app/lib/artwork-storage';
-import { MusicBrainzClient } from '@/app/lib/musicbrainz-client';
+import { ARTWORK_SIZES, type ArtworkFormat, type ArtworkSize, type LocalArtwork } from '@/app/lib/artwork-storage';
+import { DEFAULT_ARTWORK_SIZE, MusicBrainzClient } from '@/app/lib/musicbrainz-client';
 import fs from 'fs/promises';
-import path from 'path';
 
-const ARTWORK_DIR = path.join(process.cwd(), 'public', 'album-art');
+const MBID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CACHE_CONTROL = 'public, max-age=604800'; // 7 days
+
+/**
+ * The best format the browser accepts: AVIF, then WebP, else JPEG.
+ * Only formats named outright count, not wildcards like image/*
+ */
+function negotiateFormat(accept: string | null): ArtworkFormat {
+  const accepted = new Set(
+    (accept ?? '')
+      .split(',')
+      .map(range => range.trim().split(';'))
+      .filter(([, ...params]) => !params.some(param => /^\s*q=0(\.0*)?\s*$/.test(param)))
+      .map(([type]) => type.trim().toLowerCase())
+  );
+
+  if (accepted.has('image/avif')) return 'avif';
+  if (accepted.has('image/webp')) return 'webp';
+  return 'jpeg';
+}
+
+/**
+ * Whether the browser's copy is still current: If-None-Match wins over If-Modified-Since
+ */
+function isNotModified(request: NextRequest, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').some(tag => {
+      const candidate = tag.trim();
+      return candidate === '*' || candidate.replace(/^W\//, '') === etag;
+    });
+  }
+
+  const ifModifiedSince = Date.parse(request.headers.get('if-modified-since') ?? '');
+  // HTTP dates have whole seconds
+  return !Number.isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+/**
+ * Serve saved artwork, or 304 when the browser already has it
+ */
+async function serveArtwork(request: NextRequest, artwork: LocalArtwork): Promise<NextResponse> {
+  const stats = await fs.stat(artwork.filePath);
+  const etag = `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+  // The format depends on the Accept header
+  const headers = {
+    'Cache-Control': CACHE_CONTROL,
+    'ETag': etag,
+    'Last-Modified': stats.mtime.toUTCString(),
+    'Vary': 'Accept',
+  };
+
+  if (isNotModified(request, etag, stats.mtime)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const buffer = await fs.readFile(artwork.filePath);
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      ...headers,
+      'Content-Type': artwork.contentType,
+      'Content-Length': buffer.length.toString(),
+    },
+  });
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,77 +77,37 @@ export async function GET(request: NextRequest) {
     if (!mbid) {
       return NextResponse.json({ error: 'MBID parameter is required' }, { status: 400 });
     }
+    if (!MBID_PATTERN.test(mbid)) {
+      return NextResponse.json({ error: 'MBID parameter must be a MusicBrainz ID' }, { status: 400 });
+    }
 
-    console.log(`[ARTWORK API] Fetching artwork for RELEASE MBID: ${mbid}`);
-
-    // Check if local file exists (try common extensions)
-    const extensions = ['.jpg', '.png', '.webp'];
-    let localPath: string | null = null;
-    let extension = '';
-
-    for (const ext of extensions) {
-      if (await localArtworkExists(mbid, ext)) {
-		console.log(`[/api/music/artwork]: found local artwork!`);
-        extension = ext;
-        localPath = `/album-art/${mbid}${extension}`;
-        break;
-      }
+    const sizeParam = searchParams.get('size');
+    const size = sizeParam ? Number(sizeParam) : DEFAULT_ARTWORK_SIZE;
+    if (!ARTWORK_SIZES.includes(size as ArtworkSize)) {
+      return NextResponse.json({ error: `Size must be one of ${ARTWORK_SIZES.join(', ')}` }, { status: 400 });
     }
+    const format = negotiateFormat(request.headers.get('accept'));
+
+    console.log(`[ARTWORK API] Fetching ${size}px ${format} artwork for RELEASE MBID: ${mbid}`);
 
-    if (localPath) {
-      // Serve the local file
-      const filePath = path.join(ARTWORK_DIR, `${mbid}${extension}`);
-      const buffer = await fs.readFile(filePath);
-      
-      // Determine content type
-      let contentType = 'image/jpeg';
-      if (extension === '.png') contentType = 'image/png';
-      if (extension === '.webp') contentType = 'image/webp';
-
-      return new NextResponse(new Uint8Array(buffer), {
-        headers: {
-          'Content-Type': contentType,
-          'Content-Length': buffer.length.toString(),
-          'Cache-Control': 'public, max-age=604800', // 7 days
-        },
-      });
+    // The default size also saves the original the first time, which the variant is then made from
+    if (size === DEFAULT_ARTWORK_SIZE) {
+      await MusicBrainzClient.saveArtwork(mbid).catch(error =>
+        console.warn(`[ARTWORK API] Failed to save artwork for release ${mbid}:`, error)
+      );
     }
 
-    // If not local, try to download and save
-    console.log(`[ARTWORK API] No local file found, attempting download for release ${mbid}`);
-    const externalUrl = await MusicBrainzClient.getCoverArtUrl(mbid);
-    
-    if (externalUrl && false) {
-      const savedPath = await downloadAndSaveArtwork(mbid, externalUrl);
-      if (savedPath) {
-        // Extract extension from savedPath
-        const filename = path.basename(savedPath);
-        const newExtension = path.extname(filename);
-        const filePath = path.join(ARTWORK_DIR, filename);
-        const buffer = await fs.readFile(filePath);
-        
-        let contentType = 'image/jpeg';
-        if (newExtension === '.png') contentType = 'image/png';
-        if (newExtension === '.webp') contentType = 'image/webp';
-
-        return new NextResponse(new Uint8Array(buffer), {
-          headers: {
-            'Content-Type': contentType,
-            'Content-Length': buffer.length.toString(),
-            'Cache-Control': 'public, max-age=604800',
-          },
-        });
-      }
+    // Every size and format is its own file, made from the saved original or the archive's thumbnails
+    const variant = await MusicBrainzClient.saveArtworkVariant(mbid, size as ArtworkSize, format);
+    if (variant) {
+      return serveArtwork(request, variant);
     }
 
-    // If still no local file, return external URL or error
-    return NextResponse.json({ 
-      error: 'Artwork not available', 
-      externalUrl: externalUrl || null 
-    }, { status: 404 });
+    // No art
+    return NextResponse.json({ error: 'Artwork not available', externalUrl: null }, { status: 404 });
 
   } catch (error) {
     console.error('[ARTWORK API] Error fetching artwork:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
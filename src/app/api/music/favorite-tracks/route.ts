@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get("limit");
+
+    let limit = 10; // Default limit
+    if (limitParam) {
+      const parsedLimit = parseInt(limitParam, 10);
+      if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 50) {
+        return NextResponse.json(
+          { error: "Limit parameter must be a number between 1 and 50" },
+          { status: 400 }
+        );
+      }
+      limit = parsedLimit;
+    }
+
+    const [tracks, positions] = await Promise.all([
+      ListenEventEntries.getGlobalFavoriteTracks(limit),
+      ListenEventEntries.getGlobalFavoriteTrackPositions(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      tracks,
+      positions,
+    });
+  } catch (error) {
+    console.error("Favorite tracks GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
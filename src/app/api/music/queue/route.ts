@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { MusicBrainzQueue, getRequestsPerSecond } from "@/app/lib/musicbrainz-queue";
+
+// Shared MusicBrainz rate limit: queue depth, wait times and retries across all processes
+export async function GET() {
+  try {
+    const metrics = await MusicBrainzQueue.getMetrics();
+
+    return NextResponse.json({
+      success: true,
+      requestsPerSecond: getRequestsPerSecond(),
+      metrics,
+    });
+  } catch (error) {
+    console.error("MusicBrainz queue metrics GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
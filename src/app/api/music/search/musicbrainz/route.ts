@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { MusicBrainzClient } from "@/app/lib/musicbrainz-client";
 import { MusicStorage } from "@/app/lib/music-storage";
+import { parseSearchQuery, SearchQueryError, toMusicBrainzQuery } from "@/app/lib/search-query";
 
 export async function GET(request: NextRequest) {
   try {
@@ -34,7 +35,7 @@ export async function GET(request: NextRequest) {
 
     // Perform full search with release groups
     console.log(`[MUSICBRAINZ SEARCH] Performing full MusicBrainz search`);
-    const searchResults = await MusicBrainzClient.search(query, limit);
+    const searchResults = await MusicBrainzClient.search(toMusicBrainzQuery(parseSearchQuery(query)), limit);
     console.log(`[MUSICBRAINZ SEARCH] MusicBrainz search returned ${searchResults.albums.length} albums, ${searchResults.artists.length} artists`);
 
     return NextResponse.json({
@@ -43,6 +44,10 @@ export async function GET(request: NextRequest) {
       cached: false,
     });
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("[MUSICBRAINZ SEARCH] Search error:", error);
     
     // Check if it's a MusicBrainz API error
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { MusicStorage, Album, SearchResult, Artist } from "@/app/lib/music-storage";
+import { parseSearchQuery, SearchQueryError } from "@/app/lib/search-query";
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,10 +34,12 @@ export async function GET(request: NextRequest) {
 
     // Perform Redisearch on albums
     console.log(`[REDIS SEARCH] Performing Redisearch on albums`);
-    const albums = await MusicStorage.searchAlbums(query, limit);
+    const parsedQuery = parseSearchQuery(query);
+    const albums = await MusicStorage.searchAlbums(parsedQuery, limit);
     
-    // For now, we're only searching albums, not artists
-    const artists: Artist[] = [];
+    // Artists match an artist: filter, or else the free text
+    const artistName = parsedQuery.artist ?? parsedQuery.text;
+    const artists: Artist[] = artistName ? await MusicStorage.searchArtists(artistName) : [];
     
     // Create search result
     const searchResult: SearchResult = {
@@ -56,6 +59,10 @@ export async function GET(request: NextRequest) {
       cached: false,
     });
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("[REDIS SEARCH] Search error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
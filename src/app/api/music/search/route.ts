@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { parseSearchQuery, SearchQueryError } from "@/app/lib/search-query";
+import { MusicBrainzApiError } from "@/app/lib/musicbrainz-client";
+import { UnifiedSearch } from "@/app/lib/unified-search";
 
 export async function GET(request: NextRequest) {
 	try {
@@ -30,86 +33,37 @@ export async function GET(request: NextRequest) {
 				);
 			}
 			limit = parsedLimit;
-			limit = 50;
-		}
-
-		// First, try Redis search
-		console.log(`[UNIFIED SEARCH] Trying Redis search first`);
-		try {
-			const redisUrl = new URL(`/api/music/search/redis`, request.url);
-			redisUrl.searchParams.set("q", query);
-			redisUrl.searchParams.set("limit", limit.toString());
-
-			const redisResponse = await fetch(redisUrl.toString());
-
-			if (redisResponse.ok) {
-				const redisData = await redisResponse.json();
-				console.log(
-					`[UNIFIED SEARCH] Redis search successful - found ${redisData.results.albums.length} albums, ${redisData.results.artists.length} artists`
-				);
-
-				// If Redis found results, return them
-				if (
-					redisData.results.albums.length > 0 ||
-					redisData.results.artists.length > 0
-				) {
-					return NextResponse.json(redisData);
-				} else {
-					console.log(
-						`[UNIFIED SEARCH] Redis search found no results, trying MusicBrainz`
-					);
-				}
-			} else {
-				console.log(
-					`[UNIFIED SEARCH] Redis search failed with status ${redisResponse.status}, trying MusicBrainz`
-				);
-			}
-		} catch (error) {
-			console.error(`[UNIFIED SEARCH] Redis search error:`, error);
-			console.log(`[UNIFIED SEARCH] Falling back to MusicBrainz search`);
 		}
 
+		const { results, cached } = await UnifiedSearch.search(parseSearchQuery(query), limit);
+		console.log(
+			`[UNIFIED SEARCH] Returning ${results.albums.length} albums (${results.sources.local} local, ${results.sources.musicbrainz} from MusicBrainz), cached: ${cached}`
+		);
 
-		// If Redis didn't find results or failed, try MusicBrainz search
-		console.log(`[UNIFIED SEARCH] Trying MusicBrainz search`);
-		if (false)
-		try {
-			const musicbrainzUrl = new URL(
-				`/api/music/search/musicbrainz`,
-				request.url
+		return NextResponse.json({
+			success: true,
+			results,
+			cached,
+		});
+	} catch (error) {
+		// Malformed field syntax, e.g. year:abc
+		if (error instanceof SearchQueryError) {
+			return NextResponse.json(
+				{ error: error.message },
+				{ status: 400 }
 			);
-			musicbrainzUrl.searchParams.set("q", query);
-			musicbrainzUrl.searchParams.set("limit", limit.toString());
-
-			const musicbrainzResponse = await fetch(musicbrainzUrl.toString());
+		}
 
-			if (musicbrainzResponse.ok) {
-				const musicbrainzData = await musicbrainzResponse.json();
-				console.log(
-					`[UNIFIED SEARCH] MusicBrainz search successful - found ${musicbrainzData.results.albums.length} albums, ${musicbrainzData.results.artists.length} artists`
-				);
+		console.error("[UNIFIED SEARCH] Search error:", error);
 
-				// rerturn the response
-				return NextResponse.json(musicbrainzData);
-			} else {
-				console.error(
-					`[UNIFIED SEARCH] MusicBrainz search failed with status ${musicbrainzResponse.status}`
-				);
-				const errorData = await musicbrainzResponse.json().catch(() => ({}));
-				return NextResponse.json(
-					{ error: errorData.error || "MusicBrainz search failed" },
-					{ status: musicbrainzResponse.status }
-				);
-			}
-		} catch (error) {
-			console.error(`[UNIFIED SEARCH] MusicBrainz search error:`, error);
+		// Nothing local and MusicBrainz unavailable
+		if (error instanceof MusicBrainzApiError) {
 			return NextResponse.json(
-				{ error: "Both Redis and MusicBrainz searches failed" },
-				{ status: 500 }
+				{ error: error.message },
+				{ status: 503 }
 			);
 		}
-	} catch (error) {
-		console.error("[UNIFIED SEARCH] Search error:", error);
+
 		return NextResponse.json(
 			{ error: "Internal server error" },
 			{ status: 500 }
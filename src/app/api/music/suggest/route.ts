@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MusicStorage } from "@/app/lib/music-storage";
+
+const MAX_SUGGESTIONS = 8;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get("q");
+
+    // Validate query parameter
+    if (!query || query.trim() === "") {
+      return NextResponse.json(
+        { error: "Query parameter 'q' is required and cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    // Completions only, straight from the suggestion dictionaries; no search or MusicBrainz calls
+    const suggestions = await MusicStorage.getSuggestions(query.trim(), MAX_SUGGESTIONS);
+
+    return NextResponse.json({
+      success: true,
+      suggestions,
+    });
+  } catch (error) {
+    console.error("[SUGGEST] Suggestion error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthUtils } from "@/app/lib/auth-utils";
+import { getYearReview } from "@/app/lib/year-review";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string; year: string }> }
+) {
+  try {
+    const { username, year } = await params;
+    const yearNum = parseInt(year);
+
+    if (isNaN(yearNum) || yearNum < 1000 || yearNum > 9999) {
+      return NextResponse.json(
+        { error: "Invalid year parameter" },
+        { status: 400 }
+      );
+    }
+
+    const user = await AuthUtils.getUserByUsername(username);
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const review = await getYearReview(username, yearNum);
+
+    return NextResponse.json({
+      success: true,
+      review,
+    });
+  } catch (error) {
+    console.error("Year review GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
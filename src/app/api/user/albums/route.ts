@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest } from "@/app/lib/auth-middleware";
-import { UserAlbums } from "@/app/lib/user-albums";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
 import { MusicStorage } from "@/app/lib/music-storage";
+import { resolveFavoriteTrackPick } from "@/app/lib/favorite-tracks";
+import { MusicBrainzApiError } from "@/app/lib/musicbrainz-client";
+import { addDays } from "@/app/lib/timezone";
+
+const MAX_CALENDAR_DAYS = 366; // a year, leap or not
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,6 +19,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const username = auth.user!.username;
     const { searchParams } = new URL(request.url);
     const date = searchParams.get("date");
     const startDate = searchParams.get("startDate");
@@ -21,9 +27,9 @@ export async function GET(request: NextRequest) {
 
     if (date) {
       // Get specific date
-      const userAlbum = await UserAlbums.getUserAlbum(auth.user!.id, date);
-      
-      if (!userAlbum) {
+      const entry = await ListenEventEntries.getListenEventEntry(username, date);
+
+      if (!entry) {
         return NextResponse.json({
           success: true,
           album: null,
@@ -31,51 +37,58 @@ export async function GET(request: NextRequest) {
       }
 
       // Get album details
-      const album = await MusicStorage.getCachedAlbum(userAlbum.albumId);
-      
+      const album = await MusicStorage.getCachedAlbum(entry.album_mbid);
+
       return NextResponse.json({
         success: true,
         album: {
-          ...userAlbum,
+          ...entry,
           albumDetails: album,
         },
       });
     } else if (startDate && endDate) {
-      // Get date range
-      const calendarEntries = await UserAlbums.getUserCalendar(
-        auth.user!.id,
+      // Get date range, one entry per day, so the span is bounded
+      if (!ListenEventEntries.validateDate(startDate) || !ListenEventEntries.validateDate(endDate)) {
+        return NextResponse.json(
+          { error: "startDate and endDate must be in YYYY-MM-DD format" },
+          { status: 400 }
+        );
+      }
+
+      if (startDate > endDate) {
+        return NextResponse.json(
+          { error: "startDate must not be after endDate" },
+          { status: 400 }
+        );
+      }
+
+      if (endDate > addDays(startDate, MAX_CALENDAR_DAYS - 1)) {
+        return NextResponse.json(
+          { error: `Date ranges can span at most ${MAX_CALENDAR_DAYS} days` },
+          { status: 400 }
+        );
+      }
+
+      const calendarEntries = await ListenEventEntries.getUserCalendar(
+        username,
         startDate,
         endDate
       );
 
-      // Get album details for each entry
-      const entriesWithAlbums = await Promise.all(
-        calendarEntries.map(async (entry) => {
-          if (entry.album) {
-            const albumDetails = await MusicStorage.getCachedAlbum(entry.album.id);
-            return {
-              ...entry,
-              album: albumDetails || entry.album,
-            };
-          }
-          return entry;
-        })
-      );
-
       return NextResponse.json({
         success: true,
-        calendar: entriesWithAlbums,
+        calendar: calendarEntries,
       });
     } else {
-      // Get all user albums
-      const userAlbums = await UserAlbums.getAllUserAlbums(auth.user!.id);
-      
+      // Get all user entries
+      const entries = await ListenEventEntries.getAllUserEntries(username);
+
       // Get album details for each entry
       const albums = await Promise.all(
-        userAlbums.map(async (userAlbum) => {
-          const albumDetails = await MusicStorage.getCachedAlbum(userAlbum.albumId);
+        entries.map(async (entry) => {
+          const albumDetails = await MusicStorage.getCachedAlbum(entry.album_mbid);
           return {
-            ...userAlbum,
+            ...entry,
             albumDetails,
           };
         })
@@ -106,35 +119,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { albumId, date, rating, notes } = await request.json();
+    const { album_mbid, date, rating, favorite_track, favorite_track_mbid, notes } = await request.json();
 
     // Validate input
-    if (!albumId || !date) {
+    if (!album_mbid || !date) {
       return NextResponse.json(
-        { error: "Album ID and date are required" },
+        { error: "Date and album_mbid are required" },
         { status: 400 }
       );
     }
 
     // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(date)) {
+    if (!ListenEventEntries.validateDate(date)) {
       return NextResponse.json(
         { error: "Date must be in YYYY-MM-DD format" },
         { status: 400 }
       );
     }
 
-    // Validate rating if provided
-    if (rating !== undefined && (rating < 1 || rating > 5)) {
+    // Check if date is in the future
+    if (ListenEventEntries.isDateInFuture(date, auth.user!.timezone)) {
+      return NextResponse.json(
+        { error: "Cannot add ListenEvent entries for future dates" },
+        { status: 400 }
+      );
+    }
+
+    // Validate rating if provided (null leaves the listen unrated)
+    if (rating !== undefined && rating !== null && !ListenEventEntries.validateRating(rating)) {
       return NextResponse.json(
-        { error: "Rating must be between 1 and 5" },
+        { error: "Rating must be between 0 and 10" },
         { status: 400 }
       );
     }
 
     // Check if album exists in cache
-    const album = await MusicStorage.getCachedAlbum(albumId);
+    const album = await MusicStorage.getCachedAlbum(album_mbid);
     if (!album) {
       return NextResponse.json(
         { error: "Album not found. Please search for the album first." },
@@ -142,24 +162,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Add user album
-    const userAlbum = await UserAlbums.addUserAlbum(
-      auth.user!.id,
-      albumId,
+    // A favorite track picked from the tracklist is stored as a recording reference
+    const favoriteTrackPick = favorite_track_mbid ? await resolveFavoriteTrackPick(album_mbid, favorite_track_mbid) : undefined;
+    if (favoriteTrackPick === null) {
+      return NextResponse.json(
+        { error: "Favorite track is not on this album's tracklist" },
+        { status: 400 }
+      );
+    }
+
+    // Add listen entry
+    const entry = await ListenEventEntries.addOrUpdateListenEventEntry(
+      auth.user!.username,
       date,
-      rating,
-      notes
+      album_mbid,
+      rating ?? undefined,
+      favorite_track || favoriteTrackPick?.title || "",
+      notes || "",
+      favoriteTrackPick?.reference
     );
 
     return NextResponse.json({
       success: true,
       userAlbum: {
-        ...userAlbum,
+        ...entry,
         albumDetails: album,
       },
     });
   } catch (error) {
     console.error("User albums POST error:", error);
+
+    // The tracklist for the favorite track couldn't be fetched
+    if (error instanceof MusicBrainzApiError) {
+      return NextResponse.json(
+        { error: "Failed to fetch data from MusicBrainz. Please try again later." },
+        { status: 503 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -178,7 +218,7 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const { date, rating, notes } = await request.json();
+    const { date, rating, favorite_track, favorite_track_mbid, notes } = await request.json();
 
     // Validate input
     if (!date) {
@@ -189,29 +229,41 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(date)) {
+    if (!ListenEventEntries.validateDate(date)) {
       return NextResponse.json(
         { error: "Date must be in YYYY-MM-DD format" },
         { status: 400 }
       );
     }
 
-    // Validate rating if provided
-    if (rating !== undefined && (rating < 1 || rating > 5)) {
+    // Validate rating if provided (null leaves the listen unrated)
+    if (rating !== undefined && rating !== null && !ListenEventEntries.validateRating(rating)) {
+      return NextResponse.json(
+        { error: "Rating must be between 0 and 10" },
+        { status: 400 }
+      );
+    }
+
+    // A favorite track picked from the tracklist is stored as a recording reference;
+    // without an entry there is no album to pick from, and the update finds nothing
+    const existingEntry = favorite_track_mbid ? await ListenEventEntries.getListenEventEntry(auth.user!.username, date) : null;
+    const favoriteTrackPick = existingEntry ? await resolveFavoriteTrackPick(existingEntry.album_mbid, favorite_track_mbid) : undefined;
+    if (favoriteTrackPick === null) {
       return NextResponse.json(
-        { error: "Rating must be between 1 and 5" },
+        { error: "Favorite track is not on this album's tracklist" },
         { status: 400 }
       );
     }
 
-    // Update user album
-    const updatedAlbum = await UserAlbums.updateUserAlbum(auth.user!.id, date, {
+    // Update listen entry
+    const updatedEntry = await ListenEventEntries.updateListenEventEntry(auth.user!.username, date, {
       rating,
+      favorite_track: favoriteTrackPick ? favorite_track || favoriteTrackPick.title : favorite_track,
+      favorite_track_ref: favoriteTrackPick?.reference,
       notes,
     });
 
-    if (!updatedAlbum) {
+    if (!updatedEntry) {
       return NextResponse.json(
         { error: "No album found for the specified date" },
         { status: 404 }
@@ -219,17 +271,26 @@ export async function PUT(request: NextRequest) {
     }
 
     // Get album details
-    const album = await MusicStorage.getCachedAlbum(updatedAlbum.albumId);
+    const album = await MusicStorage.getCachedAlbum(updatedEntry.album_mbid);
 
     return NextResponse.json({
       success: true,
       userAlbum: {
-        ...updatedAlbum,
+        ...updatedEntry,
         albumDetails: album,
       },
     });
   } catch (error) {
     console.error("User albums PUT error:", error);
+
+    // The tracklist for the favorite track couldn't be fetched
+    if (error instanceof MusicBrainzApiError) {
+      return NextResponse.json(
+        { error: "Failed to fetch data from MusicBrainz. Please try again later." },
+        { status: 503 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -260,16 +321,15 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(date)) {
+    if (!ListenEventEntries.validateDate(date)) {
       return NextResponse.json(
         { error: "Date must be in YYYY-MM-DD format" },
         { status: 400 }
       );
     }
 
-    // Delete user album
-    const deleted = await UserAlbums.deleteUserAlbum(auth.user!.id, date);
+    // Delete listen entry
+    const deleted = await ListenEventEntries.deleteListenEventEntry(auth.user!.username, date);
 
     if (!deleted) {
       return NextResponse.json(
@@ -289,4 +349,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
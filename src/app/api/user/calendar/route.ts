@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest } from "@/app/lib/auth-middleware";
-import { UserAlbums } from "@/app/lib/user-albums";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
+import { getMonthBounds, getTodayInTimezone } from "@/app/lib/timezone";
 
 export async function GET(request: NextRequest) {
   try {
@@ -34,11 +35,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      const firstDay = new Date(yearNum, monthNum - 1, 1);
-      const lastDay = new Date(yearNum, monthNum, 0); // Last day of the month
-      
-      start = firstDay.toISOString().split('T')[0];
-      end = lastDay.toISOString().split('T')[0];
+      ({ start, end } = getMonthBounds(yearNum, monthNum));
     } else if (year) {
       const yearNum = parseInt(year);
       
@@ -51,6 +48,10 @@ export async function GET(request: NextRequest) {
 
       start = `${yearNum}-01-01`;
       end = `${yearNum}-12-31`;
+    } else if (!startDate && !endDate) {
+      // Default to the current month in the user's timezone
+      const [currentYear, currentMonth] = getTodayInTimezone(auth.user!.timezone).split("-").map(Number);
+      ({ start, end } = getMonthBounds(currentYear, currentMonth));
     }
 
     // Validate date range
@@ -71,8 +72,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Get calendar entries
-    const calendarEntries = await UserAlbums.getUserCalendar(
-      auth.user!.id,
+    const calendarEntries = await ListenEventEntries.getUserCalendar(
+      auth.user!.username,
       start,
       end
     );
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/app/lib/auth-middleware";
+import { AuthUtils, UserSettings } from "@/app/lib/auth-utils";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
+import { MAX_GRACE_DAYS_PER_MONTH } from "@/app/lib/streaks";
+import { isValidTimezone, resolveTimezone } from "@/app/lib/timezone";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const auth = await authenticateRequest(request);
+    if (auth.error) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.statusCode }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: {
+        timezone: auth.user!.timezone,
+        graceDaysPerMonth: auth.user!.graceDaysPerMonth,
+      },
+    });
+  } catch (error) {
+    console.error("User settings GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate user
+    const auth = await authenticateRequest(request);
+    if (auth.error) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.statusCode }
+      );
+    }
+
+    const { timezone, graceDaysPerMonth } = await request.json();
+    const settings: UserSettings = {};
+
+    // Validate timezone
+    if (timezone !== undefined) {
+      if (!isValidTimezone(timezone)) {
+        return NextResponse.json(
+          { error: "Timezone must be a valid IANA timezone" },
+          { status: 400 }
+        );
+      }
+      settings.timezone = timezone;
+    }
+
+    // Validate grace days
+    if (graceDaysPerMonth !== undefined) {
+      if (
+        !Number.isInteger(graceDaysPerMonth) ||
+        graceDaysPerMonth < 0 ||
+        graceDaysPerMonth > MAX_GRACE_DAYS_PER_MONTH
+      ) {
+        return NextResponse.json(
+          { error: `graceDaysPerMonth must be a whole number between 0 and ${MAX_GRACE_DAYS_PER_MONTH}` },
+          { status: 400 }
+        );
+      }
+      settings.graceDaysPerMonth = graceDaysPerMonth;
+    }
+
+    if (Object.keys(settings).length === 0) {
+      return NextResponse.json(
+        { error: "timezone or graceDaysPerMonth is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await AuthUtils.updateUserSettings(auth.user!.id, settings);
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    // Streaks depend on the user's "today" and grace days
+    await ListenEventEntries.invalidateUserStats(user.username);
+
+    return NextResponse.json({
+      success: true,
+      settings: {
+        timezone: resolveTimezone(user.timezone),
+        graceDaysPerMonth: user.graceDaysPerMonth ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error("User settings PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest } from "@/app/lib/auth-middleware";
-import { UserAlbums } from "@/app/lib/user-albums";
+import { ListenEventEntries } from "@/app/lib/listen-event-entries";
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,8 +13,28 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const { searchParams } = new URL(request.url);
+    const year = searchParams.get("year");
+    let yearNum: number | undefined;
+
+    if (year) {
+      yearNum = parseInt(year);
+
+      if (isNaN(yearNum) || yearNum < 1000 || yearNum > 9999) {
+        return NextResponse.json(
+          { error: "Invalid year parameter" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Get user statistics
-    const stats = await UserAlbums.getUserStats(auth.user!.id);
+    const stats = await ListenEventEntries.getUserStats(
+      auth.user!.username,
+      auth.user!.timezone,
+      auth.user!.graceDaysPerMonth,
+      yearNum
+    );
 
     return NextResponse.json({
       success: true,
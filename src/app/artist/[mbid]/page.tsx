@@ -0,0 +1,107 @@
+// Artist page: the artist's discography by release group, with which albums the
+// viewer and the rest of the site have logged and how the site rates them
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getArtistPage, type DiscographyEntry } from '../../lib/artist-page';
+import { AuthUtils } from '../../lib/auth-utils';
+import { type DiscographyCategory, DISCOGRAPHY_CATEGORIES } from '../../lib/discography';
+import { MusicBrainzClient } from '../../lib/musicbrainz-client';
+
+interface ArtistPageProps {
+	params: Promise<{ mbid: string }>;
+	searchParams: Promise<{ filter?: string }>; // filter=studio lists studio albums only
+}
+
+export async function generateMetadata({ params }: ArtistPageProps): Promise<Metadata> {
+	const { mbid } = await params;
+	const artist = await MusicBrainzClient.getArtist(mbid);
+	return { title: artist ? `${artist.name} on one album a day` : 'Artist not found' };
+}
+
+export default async function ArtistPage({ params, searchParams }: ArtistPageProps) {
+	const { mbid } = await params;
+	const studioOnly = (await searchParams).filter === 'studio';
+
+	const sessionId = (await cookies()).get('session_id')?.value;
+	const session = sessionId ? await AuthUtils.getSession(sessionId) : null;
+
+	const page = await getArtistPage(mbid, session?.username, { studioOnly });
+	if (!page) {
+		notFound();
+	}
+
+	const sections: { category: DiscographyCategory; title: string; releaseGroups: DiscographyEntry[] }[] = DISCOGRAPHY_CATEGORIES
+		.map(({ category, title }) => ({
+			category,
+			title,
+			releaseGroups: page.releaseGroups.filter(releaseGroup => releaseGroup.category === category),
+		}))
+		.filter(section => section.releaseGroups.length > 0);
+
+	return (
+		<div className="min-h-screen bg-white dark:bg-gray-900 px-4 py-12">
+			<div className="max-w-4xl mx-auto">
+				<h1 className="text-4xl font-bold text-gray-900 dark:text-white">{page.artist.name}</h1>
+				{(page.artist.disambiguation || page.artist.country) && (
+					<p className="mt-1 text-gray-500">
+						{[page.artist.disambiguation, page.artist.country].filter(Boolean).join(' · ')}
+					</p>
+				)}
+
+				<div className="mt-6 flex gap-2 text-sm">
+					<Link
+						href={`/artist/${mbid}`}
+						className={`px-3 py-1 rounded-full ${studioOnly ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'}`}
+					>
+						Everything
+					</Link>
+					<Link
+						href={`/artist/${mbid}?filter=studio`}
+						className={`px-3 py-1 rounded-full ${studioOnly ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+					>
+						Studio albums only
+					</Link>
+				</div>
+
+				{page.releaseGroups.length === 0 && (
+					<p className="mt-8 text-gray-600 dark:text-gray-300">
+						{studioOnly ? 'No studio albums found for this artist.' : 'No releases found for this artist.'}
+					</p>
+				)}
+
+				{sections.map(({ category, title, releaseGroups }) => (
+					<section key={category} className="mt-10">
+						<h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">{title}</h2>
+						<ul className="divide-y divide-gray-200 dark:divide-gray-700">
+							{releaseGroups.map(releaseGroup => (
+								<li key={releaseGroup.id} className="py-3 flex items-center justify-between gap-4">
+									<div className="min-w-0">
+										<p className="font-medium text-gray-900 dark:text-white truncate">{releaseGroup.title}</p>
+										<p className="text-sm text-gray-500">{releaseGroup.firstReleaseDate?.slice(0, 4) ?? 'Unknown year'}</p>
+									</div>
+									<div className="flex items-center gap-2 shrink-0 text-xs">
+										{releaseGroup.viewerListens > 0 && (
+											<span className="px-2 py-0.5 rounded bg-green-100 text-green-800">
+												You logged this{releaseGroup.viewerListens > 1 ? ` ${releaseGroup.viewerListens}×` : ''}
+											</span>
+										)}
+										{releaseGroup.siteListens > 0 ? (
+											<span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+												{releaseGroup.siteListens} {releaseGroup.siteListens === 1 ? 'listen' : 'listens'}
+												{releaseGroup.averageRating !== null && ` · avg ${releaseGroup.averageRating.toFixed(1)}/10`}
+											</span>
+										) : (
+											<span className="text-gray-400">Not logged yet</span>
+										)}
+									</div>
+								</li>
+							))}
+						</ul>
+					</section>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -27,6 +27,7 @@ export interface SignupRequest {
   username: string;
   password: string;
   name: string;
+  timezone?: string;
 }
 
 export interface AuthResponse {
@@ -36,6 +37,7 @@ export interface AuthResponse {
     username: string;
     name: string;
     createdAt: string;
+    timezone?: string;
   };
   error?: string;
 }
@@ -47,6 +49,7 @@ export interface SessionResponse {
     username: string;
     name: string;
     createdAt: string;
+    timezone?: string;
   };
   session?: {
     sessionId: string;
@@ -102,10 +105,26 @@ export async function login(username: string, password: string): Promise<AuthRes
   }
 }
 
+/**
+ * Get the browser's IANA timezone, if it exposes one
+ */
+export function getBrowserTimezone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Register a new user
  */
-export async function signup(username: string, password: string, name: string): Promise<AuthResponse> {
+export async function signup(
+  username: string,
+  password: string,
+  name: string,
+  timezone: string | undefined = getBrowserTimezone()
+): Promise<AuthResponse> {
   // Validate username format
   const usernameValidation = validateUsername(username);
   if (!usernameValidation.isValid) {
@@ -122,7 +141,7 @@ export async function signup(username: string, password: string, name: string):
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ username, password, name }),
+      body: JSON.stringify({ username, password, name, timezone }),
     });
 
     const data = await response.json();
@@ -0,0 +1,115 @@
+import Link from 'next/link';
+import type { CalendarDay, CalendarMonth } from '../lib/calendar-grid';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = [
+	'January', 'February', 'March', 'April', 'May', 'June',
+	'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+interface CalendarProps {
+	username: string;
+	calendar: CalendarMonth;
+	canGoForward: boolean;
+	selectedDate?: string;
+}
+
+function CalendarCell({ username, day, isSelected }: { username: string; day: CalendarDay; isSelected: boolean }) {
+	const album = day.entry?.album;
+	const mbid = day.entry?.album_mbid;
+
+	if (day.isFuture) {
+		return (
+			<div className="aspect-square rounded-md bg-gray-200 dark:bg-gray-800 opacity-50 p-1">
+				<span className="text-xs text-gray-400">{day.day}</span>
+			</div>
+		);
+	}
+
+	const className = `relative aspect-square rounded-md overflow-hidden border ${
+		isSelected ? 'border-2 border-blue-600' : day.isToday ? 'border-blue-600' : 'border-gray-200 dark:border-gray-700'
+	}`;
+	const title = album ? `${album.title} by ${album.artistName}` : day.date;
+
+	const contents = (
+		<>
+			{mbid && (
+				<img
+					src={`/api/music/artwork?mbid=${mbid}&size=250`}
+					srcSet={`/api/music/artwork?mbid=${mbid}&size=64 64w, /api/music/artwork?mbid=${mbid}&size=250 250w`}
+					sizes="(min-width: 672px) 96px, 14vw"
+					alt={album ? `${album.title} cover art` : `Album for ${day.date}`}
+					className="w-full h-full object-cover"
+					loading="lazy"
+				/>
+			)}
+			<span
+				className={`absolute top-1 left-1 text-xs ${
+					mbid ? 'px-1 rounded bg-black/50 text-white' : 'text-gray-500'
+				}`}
+			>
+				{day.day}
+			</span>
+		</>
+	);
+
+	// Only days with a listen open the side panel
+	if (!day.entry) {
+		return <div className={className} title={title}>{contents}</div>;
+	}
+
+	return (
+		<Link href={`/${username}/${day.date}`} className={`block ${className} hover:opacity-80`} title={title}>
+			{contents}
+		</Link>
+	);
+}
+
+export default function Calendar({ username, calendar, canGoForward, selectedDate }: CalendarProps) {
+	const firstWeek = calendar.weeks[0];
+	const lastWeek = calendar.weeks[calendar.weeks.length - 1];
+
+	return (
+		<div className="w-full max-w-2xl">
+			<div className="flex items-center justify-between mb-4">
+				<Link
+					href={`/${username}?month=${calendar.previousMonth}`}
+					className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700"
+				>
+					←
+				</Link>
+				<h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+					{MONTH_NAMES[calendar.month - 1]} {calendar.year}
+				</h2>
+				{canGoForward ? (
+					<Link
+						href={`/${username}?month=${calendar.nextMonth}`}
+						className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700"
+					>
+						→
+					</Link>
+				) : (
+					<span className="px-3 py-1 text-sm text-gray-300 dark:text-gray-600">→</span>
+				)}
+			</div>
+
+			<div className="grid grid-cols-7 gap-1 sm:gap-2">
+				{WEEKDAY_LABELS.map(label => (
+					<div key={label} className="text-center text-xs text-gray-500 pb-1">
+						{label}
+					</div>
+				))}
+				{/* Blank cells only pad the first and last weeks, so their weekday keys them */}
+				{WEEKDAY_LABELS.filter((_, weekday) => !firstWeek[weekday]).map(label => (
+					<div key={`before-${label}`} />
+				))}
+				{calendar.weeks.flat().filter(day => day !== null).map(day => (
+					<CalendarCell key={day.date} username={username} day={day} isSelected={day.date === selectedDate} />
+				))}
+				{WEEKDAY_LABELS.filter((_, weekday) => !lastWeek[weekday]).map(label => (
+					<div key={`after-${label}`} />
+				))}
+			</div>
+		</div>
+	);
+}
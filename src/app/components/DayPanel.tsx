@@ -0,0 +1,229 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+import type { ListenEventEntryWithAlbum } from '../lib/listen-event-entries';
+
+interface DayPanelProps {
+	username: string;
+	date: string;
+	entry: ListenEventEntryWithAlbum | null;
+	isOwner: boolean;
+}
+
+interface StreamingLink {
+	name: string;
+	url: string;
+}
+
+function getStreamingLinks(artist: string, album: string): StreamingLink[] {
+	return [
+		{ name: 'Spotify', url: `https://open.spotify.com/search/${encodeURIComponent(`${artist} ${album}`)}` },
+		{ name: 'YouTube Music', url: `https://music.youtube.com/search?q=${encodeURIComponent(`${artist} ${album}`)}` },
+		{ name: 'Apple Music', url: `https://music.apple.com/search?term=${encodeURIComponent(`${artist} ${album}`)}` },
+	];
+}
+
+export default function DayPanel({ username, date, entry, isOwner }: DayPanelProps) {
+	const router = useRouter();
+	const [current, setCurrent] = useState(entry);
+	const [isEditing, setIsEditing] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [rating, setRating] = useState(entry?.rating?.toString() ?? '');
+	const [favoriteTrack, setFavoriteTrack] = useState(entry?.favorite_track ?? '');
+	const [notes, setNotes] = useState(entry?.notes ?? '');
+
+	const startEditing = () => {
+		if (!current) return;
+		setRating(current.rating?.toString() ?? '');
+		setFavoriteTrack(current.favorite_track);
+		setNotes(current.notes);
+		setError(null);
+		setIsEditing(true);
+	};
+
+	const handleSave = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!current) return;
+
+		// Left blank, the listen is unrated
+		const ratingValue = rating.trim() === '' ? null : parseFloat(rating);
+		if (ratingValue !== null && (isNaN(ratingValue) || ratingValue < 0 || ratingValue > 10)) {
+			setError('Rating must be between 0 and 10');
+			return;
+		}
+
+		setIsSaving(true);
+		setError(null);
+
+		try {
+			const response = await fetch('/api/listening', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				credentials: 'include',
+				body: JSON.stringify({
+					date,
+					album_mbid: current.album_mbid,
+					rating: ratingValue,
+					favorite_track: favoriteTrack,
+					// Keep the tracklist reference unless the favorite was retyped
+					favorite_track_mbid: favoriteTrack === current.favorite_track
+						? current.favorite_track_ref?.recording_mbid
+						: undefined,
+					notes,
+				}),
+			});
+			const data = await response.json();
+
+			if (!response.ok) {
+				setError(data.error || 'Failed to save');
+				return;
+			}
+
+			setCurrent({ ...data.entry, album: current.album });
+			setIsEditing(false);
+			router.refresh();
+		} catch (err) {
+			console.error('Failed to save listen:', err);
+			setError('Network error. Please try again.');
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<aside className="w-full lg:w-96 shrink-0 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+			<div className="flex items-center justify-between mb-4">
+				<p className="text-sm text-gray-500">{date}</p>
+				<Link href={`/${username}?month=${date.slice(0, 7)}`} className="text-sm text-gray-500 hover:text-gray-700">
+					Close
+				</Link>
+			</div>
+
+			{!current ? (
+				<p className="text-gray-500">Nothing logged for this day.</p>
+			) : (
+				<>
+					<img
+						src={`/api/music/artwork?mbid=${current.album_mbid}&size=500`}
+						srcSet={`/api/music/artwork?mbid=${current.album_mbid}&size=500 500w, /api/music/artwork?mbid=${current.album_mbid}&size=1200 1200w`}
+						alt={`${current.album.title} cover art`}
+						className="w-full aspect-square object-cover rounded-md mb-4 bg-gray-100"
+					/>
+					<h2 className="text-2xl font-bold text-gray-900 dark:text-white">{current.album.title}</h2>
+					<p className="text-gray-600 dark:text-gray-300 mb-4">{current.album.artistName}</p>
+
+					<div className="flex flex-wrap gap-2 mb-6">
+						{getStreamingLinks(current.album.artistName, current.album.title).map(link => (
+							<a
+								key={link.name}
+								href={link.url}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="text-sm px-3 py-1 rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800"
+							>
+								{link.name}
+							</a>
+						))}
+					</div>
+
+					{isEditing ? (
+						<form onSubmit={handleSave} className="space-y-4">
+							<div>
+								<label htmlFor="rating" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+									Rating
+								</label>
+								<input
+									id="rating"
+									type="number"
+									min={0}
+									max={10}
+									step={0.5}
+									value={rating}
+									placeholder="Unrated"
+									onChange={(e) => setRating(e.target.value)}
+									className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+								/>
+							</div>
+							<div>
+								<label htmlFor="favoriteTrack" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+									Favorite track
+								</label>
+								<input
+									id="favoriteTrack"
+									type="text"
+									value={favoriteTrack}
+									onChange={(e) => setFavoriteTrack(e.target.value)}
+									className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+								/>
+							</div>
+							<div>
+								<label htmlFor="notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+									Notes
+								</label>
+								<textarea
+									id="notes"
+									rows={5}
+									value={notes}
+									onChange={(e) => setNotes(e.target.value)}
+									className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+								/>
+							</div>
+
+							{error && <div className="text-red-600 text-sm">{error}</div>}
+
+							<div className="flex gap-2">
+								<button
+									type="submit"
+									disabled={isSaving}
+									className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+								>
+									{isSaving ? 'Saving...' : 'Save'}
+								</button>
+								<button
+									type="button"
+									onClick={() => setIsEditing(false)}
+									className="py-2 px-4 text-gray-600 hover:text-gray-800"
+								>
+									Cancel
+								</button>
+							</div>
+						</form>
+					) : (
+						<dl className="space-y-3">
+							<div>
+								<dt className="text-sm text-gray-500">Rating</dt>
+								<dd className="text-lg font-semibold text-gray-900 dark:text-white">{current.rating !== undefined ? `${current.rating.toFixed(1)}/10` : 'Unrated'}</dd>
+							</div>
+							{current.favorite_track && (
+								<div>
+									<dt className="text-sm text-gray-500">Favorite track</dt>
+									<dd className="text-gray-900 dark:text-white">&ldquo;{current.favorite_track}&rdquo;</dd>
+								</div>
+							)}
+							{current.notes && (
+								<div>
+									<dt className="text-sm text-gray-500">Notes</dt>
+									<dd className="text-gray-900 dark:text-white whitespace-pre-wrap">{current.notes}</dd>
+								</div>
+							)}
+						</dl>
+					)}
+
+					{isOwner && !isEditing && (
+						<button
+							type="button"
+							onClick={startEditing}
+							className="mt-6 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+						>
+							Edit
+						</button>
+					)}
+				</>
+			)}
+		</aside>
+	);
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface DeadJobActionsProps {
+	jobId?: string; // retry this dead job; without one, offer to clear them all
+}
+
+export default function DeadJobActions({ jobId }: DeadJobActionsProps) {
+	const router = useRouter();
+	const [isWorking, setIsWorking] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const run = async () => {
+		setIsWorking(true);
+		setError(null);
+		try {
+			const response = await fetch('/api/admin/jobs', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(jobId ? { action: 'retry', id: jobId } : { action: 'clear' }),
+			});
+			if (!response.ok) {
+				const data = await response.json();
+				setError(data.error || 'Request failed');
+				return;
+			}
+			router.refresh();
+		} catch (err) {
+			console.error('Failed to update dead jobs:', err);
+			setError('Request failed');
+		} finally {
+			setIsWorking(false);
+		}
+	};
+
+	return (
+		<span className="inline-flex items-center gap-2">
+			<button
+				type="button"
+				onClick={run}
+				disabled={isWorking}
+				className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+			>
+				{jobId ? 'Retry' : 'Clear all'}
+			</button>
+			{error && <span className="text-sm text-red-600">{error}</span>}
+		</span>
+	);
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import type { Album, Track } from '../lib/music-storage';
+import { validateDate, validateRating } from '../lib/listen-validation';
+import { getTodayInTimezone, resolveTimezone } from '../lib/timezone';
+import { getBrowserTimezone } from '../auth/lib/auth-client';
+
+interface LogListenFormProps {
+	album: Album;
+	onClose: () => void;
+}
+
+type FieldErrors = Partial<Record<'date' | 'rating' | 'favorite_track' | 'album_mbid' | 'form', string>>;
+
+export default function LogListenForm({ album, onClose }: LogListenFormProps) {
+	const [date, setDate] = useState(() => getTodayInTimezone(resolveTimezone(getBrowserTimezone())));
+	const [rating, setRating] = useState<number | null>(null); // null until the user rates it
+	const [favoriteTrack, setFavoriteTrack] = useState('');
+	const [favoriteTrackMbid, setFavoriteTrackMbid] = useState(''); // recording MBID when picked from the tracklist
+	const [notes, setNotes] = useState('');
+	const [tracks, setTracks] = useState<Track[]>([]);
+	const [isLoadingTracks, setIsLoadingTracks] = useState(true);
+	const [tracksFailed, setTracksFailed] = useState(false);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [errors, setErrors] = useState<FieldErrors>({});
+	const [loggedPath, setLoggedPath] = useState<string | null>(null);
+
+	// Load the tracklist for the favorite track picker
+	useEffect(() => {
+		let cancelled = false;
+
+		const loadTracks = async () => {
+			try {
+				const response = await fetch(`/api/music/album?mbid=${album.id}`);
+				if (!response.ok) {
+					throw new Error(`Album lookup failed: ${response.status}`);
+				}
+				const data = await response.json();
+				if (!cancelled) {
+					setTracks(data.album?.tracks ?? []);
+				}
+			} catch (error) {
+				console.error(`[FRONTEND] Failed to load tracklist for album: ${album.id}`, error);
+				if (!cancelled) {
+					setTracksFailed(true);
+				}
+			} finally {
+				if (!cancelled) {
+					setIsLoadingTracks(false);
+				}
+			}
+		};
+
+		loadTracks();
+
+		return () => {
+			cancelled = true;
+		};
+	}, [album.id]);
+
+	const isMultiDisc = tracks.some(track => track.discNumber > 1);
+
+	const validate = (): FieldErrors => {
+		const newErrors: FieldErrors = {};
+
+		if (!validateDate(date)) {
+			newErrors.date = 'Date must be in YYYY-MM-DD format';
+		}
+		if (rating !== null && !validateRating(rating)) {
+			newErrors.rating = 'Rating must be between 0 and 10';
+		}
+
+		return newErrors;
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const validationErrors = validate();
+		setErrors(validationErrors);
+		if (Object.keys(validationErrors).length > 0) {
+			return;
+		}
+
+		setIsSubmitting(true);
+
+		try {
+			const response = await fetch('/api/listening', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				credentials: 'include',
+				body: JSON.stringify({
+					date,
+					album_mbid: album.id,
+					release_group_mbid: album.releaseGroupId,
+					rating: rating ?? undefined,
+					favorite_track: favoriteTrack,
+					favorite_track_mbid: favoriteTrackMbid || undefined,
+					notes,
+				}),
+			});
+			const data = await response.json();
+
+			if (response.status === 401) {
+				setErrors({ form: 'Log in to save your listens' });
+				return;
+			}
+
+			if (!response.ok) {
+				setErrors({ [data.field ?? 'form']: data.error || 'Failed to log album' });
+				return;
+			}
+
+			setLoggedPath(`/${data.entry.username}/${data.entry.date}`);
+		} catch (error) {
+			console.error('[FRONTEND] Failed to log album:', error);
+			setErrors({ form: 'Network error. Please try again.' });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	if (loggedPath) {
+		return (
+			<div className="space-y-4">
+				<p className="text-gray-900">
+					Logged <span className="font-semibold">{album.title}</span> for {date}.
+				</p>
+				<div className="flex gap-2">
+					<Link
+						href={loggedPath}
+						className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+					>
+						View on calendar
+					</Link>
+					<button type="button" onClick={onClose} className="py-2 px-4 text-gray-600 hover:text-gray-800">
+						Close
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<form onSubmit={handleSubmit} className="space-y-4">
+			<div>
+				<h2 className="text-xl font-semibold text-gray-900">{album.title}</h2>
+				<p className="text-gray-600">{album.artistName}</p>
+			</div>
+
+			<div>
+				<label htmlFor="date" className="block text-sm font-medium text-gray-700">
+					Date
+				</label>
+				<input
+					id="date"
+					type="date"
+					value={date}
+					onChange={(e) => setDate(e.target.value)}
+					className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+				/>
+				{errors.date && <p className="mt-1 text-sm text-red-600">{errors.date}</p>}
+			</div>
+
+			<div>
+				<div className="flex items-center justify-between">
+					<label htmlFor="rating" className="block text-sm font-medium text-gray-700">
+						Rating:{' '}
+						{rating === null ? (
+							<span className="font-semibold">Unrated</span>
+						) : (
+							<>
+								<span className="font-semibold">{rating.toFixed(1)}</span>/10
+							</>
+						)}
+					</label>
+					{rating !== null && (
+						<button type="button" onClick={() => setRating(null)} className="text-sm text-gray-600 hover:text-gray-800">
+							Clear
+						</button>
+					)}
+				</div>
+				<input
+					id="rating"
+					type="range"
+					min={0}
+					max={10}
+					step={0.5}
+					value={rating ?? 5}
+					onChange={(e) => setRating(parseFloat(e.target.value))}
+					onClick={(e) => setRating(parseFloat(e.currentTarget.value))} // picking the middle doesn't change the value
+					className={`mt-1 block w-full ${rating === null ? 'opacity-50' : ''}`}
+				/>
+				{errors.rating && <p className="mt-1 text-sm text-red-600">{errors.rating}</p>}
+			</div>
+
+			<div>
+				<label htmlFor="favoriteTrack" className="block text-sm font-medium text-gray-700">
+					Favorite track
+				</label>
+				{tracks.length > 0 ? (
+					<select
+						id="favoriteTrack"
+						value={favoriteTrackMbid}
+						onChange={(e) => {
+							const track = tracks.find(t => t.recordingId === e.target.value);
+							setFavoriteTrackMbid(track?.recordingId ?? '');
+							setFavoriteTrack(track?.title ?? '');
+						}}
+						className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+					>
+						<option value="">No favorite</option>
+						{tracks.map(track => (
+							<option key={track.id} value={track.recordingId}>
+								{isMultiDisc ? `${track.discNumber}-` : ''}{track.position}. {track.title}
+							</option>
+						))}
+					</select>
+				) : (
+					<input
+						id="favoriteTrack"
+						type="text"
+						value={favoriteTrack}
+						onChange={(e) => setFavoriteTrack(e.target.value)}
+						placeholder={isLoadingTracks ? 'Loading tracklist...' : 'Track name'}
+						className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+					/>
+				)}
+				{tracksFailed && (
+					<p className="mt-1 text-sm text-gray-500">Couldn&apos;t load the tracklist, so type the track name instead.</p>
+				)}
+				{errors.favorite_track && <p className="mt-1 text-sm text-red-600">{errors.favorite_track}</p>}
+			</div>
+
+			<div>
+				<label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+					Notes
+				</label>
+				<textarea
+					id="notes"
+					rows={4}
+					value={notes}
+					onChange={(e) => setNotes(e.target.value)}
+					className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+				/>
+			</div>
+
+			{errors.album_mbid && <div className="text-red-600 text-sm">{errors.album_mbid}</div>}
+			{errors.form && <div className="text-red-600 text-sm">{errors.form}</div>}
+
+			<div className="flex gap-2">
+				<button
+					type="submit"
+					disabled={isSubmitting}
+					className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+				>
+					{isSubmitting ? 'Saving...' : 'Log album'}
+				</button>
+				<button type="button" onClick={onClose} className="py-2 px-4 text-gray-600 hover:text-gray-800">
+					Cancel
+				</button>
+			</div>
+		</form>
+	);
+}
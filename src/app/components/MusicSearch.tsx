@@ -2,11 +2,14 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 
-import type { Album } from '../lib/music-storage';
+import type { Album, Suggestion } from '../lib/music-storage';
+import Link from 'next/link';
+import type { SourcedAlbum, SourcedArtist } from '../lib/unified-search';
+import LogListenForm from './LogListenForm';
 
 interface SearchResult {
-	albums: Album[];
-	artists: any[];
+	albums: SourcedAlbum[];
+	artists: SourcedArtist[];
 	total: number;
 }
 
@@ -25,12 +28,17 @@ interface ArtworkState {
 
 export default function MusicSearch() {
 	const [query, setQuery] = useState('');
-	const [results, setResults] = useState<Album[]>([]);
+	const [results, setResults] = useState<SourcedAlbum[]>([]);
+	const [artists, setArtists] = useState<SourcedArtist[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
 	const [isCached, setIsCached] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [debouncedQuery, setDebouncedQuery] = useState('');
 	const [artworkStates, setArtworkStates] = useState<Map<string, ArtworkState>>(new Map());
+	const [selectedAlbum, setSelectedAlbum] = useState<Album | null>(null);
+	const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+	const [showSuggestions, setShowSuggestions] = useState(false);
+	const [highlightedIndex, setHighlightedIndex] = useState(-1);
 
 	// Debounce the search query
 	useEffect(() => {
@@ -43,6 +51,36 @@ export default function MusicSearch() {
 		};
 	}, [query]);
 
+	// Fetch completions while typing, well ahead of the debounced full search
+	useEffect(() => {
+		const prefix = query.trim();
+		if (!prefix) {
+			setSuggestions([]);
+			return;
+		}
+
+		const controller = new AbortController();
+		const timer = setTimeout(async () => {
+			try {
+				const response = await fetch(`/api/music/suggest?q=${encodeURIComponent(prefix)}`, { signal: controller.signal });
+				if (response.ok) {
+					const data = await response.json();
+					setSuggestions(data.suggestions ?? []);
+					setHighlightedIndex(-1);
+				}
+			} catch (err) {
+				if (!(err instanceof DOMException && err.name === 'AbortError')) {
+					console.error(`[FRONTEND] Suggestion error:`, err);
+				}
+			}
+		}, 100);
+
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+		};
+	}, [query]);
+
 	// Update artwork state for an album
 	const updateArtworkState = useCallback((albumId: string, updates: Partial<ArtworkState>) => {
 		setArtworkStates(prev => {
@@ -60,11 +98,11 @@ export default function MusicSearch() {
 
 		try {
 			// Use the album's ID as MBID for the artwork API
-			const response = await fetch(`/api/music/artwork?mbid=${album.id}`);
+			const response = await fetch(`/api/music/artwork?mbid=${album.id}&size=64`);
 
 			if (response.ok) {
 				// If the response is ok, we have an image
-				const imageUrl = `/api/music/artwork?mbid=${album.id}`;
+				const imageUrl = `/api/music/artwork?mbid=${album.id}&size=64`;
 				updateArtworkState(album.id, { loading: false, error: false, url: imageUrl });
 				console.log(`[FRONTEND] Artwork loaded successfully for album: ${album.id}`);
 			} else {
@@ -86,6 +124,7 @@ export default function MusicSearch() {
 		if (!debouncedQuery.trim()) {
 			console.log(`[FRONTEND] Empty query, clearing results`);
 			setResults([]);
+			setArtists([]);
 			setIsCached(false);
 			setError(null);
 			setArtworkStates(new Map());
@@ -104,8 +143,10 @@ export default function MusicSearch() {
 
 			console.log(`[FRONTEND] Response status: ${response.status} ${response.statusText}`);
 
+			// Errors come back as { error }, e.g. the query was invalid or MusicBrainz was down
 			if (!response.ok) {
-				throw new Error(`Search failed: ${response.statusText}`);
+				const data = await response.json().catch(() => null);
+				throw new Error(data?.error || `Search failed: ${response.statusText}`);
 			}
 
 			const data: SearchResponse = await response.json();
@@ -114,6 +155,7 @@ export default function MusicSearch() {
 			if (data.success) {
 				console.log(`[FRONTEND] Search successful - found ${data.results.albums.length} albums`);
 				setResults(data.results.albums);
+				setArtists(data.results.artists);
 				setIsCached(data.cached);
 
 				// Load artwork for each album that doesn't already have a loaded state
@@ -132,6 +174,7 @@ export default function MusicSearch() {
 			console.error(`[FRONTEND] Search error:`, err);
 			setError(err instanceof Error ? err.message : 'An unknown error occurred');
 			setResults([]);
+			setArtists([]);
 		} finally {
 			console.log(`[FRONTEND] Search completed, setting isLoading to false`);
 			setIsLoading(false);
@@ -142,6 +185,8 @@ export default function MusicSearch() {
 		searchAlbums();
 	}, [searchAlbums]);
 
+	const localCount = results.filter(album => album.source === 'local').length;
+
 	// Clean up artwork states for albums that are no longer in the results
 	useEffect(() => {
 		if (results.length > 0) {
@@ -160,10 +205,47 @@ export default function MusicSearch() {
 
 	const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		setQuery(e.target.value);
+		setShowSuggestions(true);
+	};
+
+	// Artists become an artist: filter, titles are searched as typed
+	const selectSuggestion = (suggestion: Suggestion) => {
+		const text = suggestion.kind === 'artist' ? `artist:"${suggestion.text}"` : suggestion.text;
+		setQuery(text);
+		setDebouncedQuery(text);
+		setShowSuggestions(false);
+		setHighlightedIndex(-1);
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (!showSuggestions || suggestions.length === 0) {
+			return;
+		}
+
+		switch (e.key) {
+			case 'ArrowDown':
+				e.preventDefault();
+				setHighlightedIndex(index => (index + 1) % suggestions.length);
+				break;
+			case 'ArrowUp':
+				e.preventDefault();
+				setHighlightedIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+				break;
+			case 'Enter':
+				if (highlightedIndex >= 0) {
+					e.preventDefault();
+					selectSuggestion(suggestions[highlightedIndex]);
+				}
+				break;
+			case 'Escape':
+				setShowSuggestions(false);
+				setHighlightedIndex(-1);
+				break;
+		}
 	};
 
 	// Enhanced album item component with artwork states
-	const AlbumItem = ({ album, isResultCached }: { album: Album; isResultCached: boolean }) => {
+	const AlbumItem = ({ album, isResultCached }: { album: SourcedAlbum; isResultCached: boolean }) => {
 		const [imageError, setImageError] = useState(false);
 		const artworkState = artworkStates.get(album.id) || { loading: false, error: false, url: null, retryCount: 0 };
 
@@ -178,9 +260,9 @@ export default function MusicSearch() {
 					updateArtworkState(album.id, { loading: true, error: false, url: null });
 
 					try {
-						const response = await fetch(`/api/music/artwork?mbid=${album.id}`);
+						const response = await fetch(`/api/music/artwork?mbid=${album.id}&size=64`);
 						if (response.ok) {
-							const imageUrl = `/api/music/artwork?mbid=${album.id}`;
+							const imageUrl = `/api/music/artwork?mbid=${album.id}&size=64`;
 							updateArtworkState(album.id, { loading: false, error: false, url: imageUrl });
 							console.log(`[FRONTEND] Artwork retry successful for album: ${album.id}`);
 						} else {
@@ -204,7 +286,12 @@ export default function MusicSearch() {
 		const displayUrl = getDisplayUrl();
 
 		return (
-			<div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-all duration-200">
+			<button
+				type="button"
+				className="block w-full text-left bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-all duration-200 cursor-pointer"
+				onClick={() => setSelectedAlbum(album)}
+				title={`Log ${album.title}`}
+			>
 				<div className="aspect-square bg-gray-200 relative">
 					{artworkState.loading ? (
 						<div className="w-full h-full flex flex-col items-center justify-center bg-gray-100 p-4">
@@ -245,6 +332,11 @@ export default function MusicSearch() {
 					<p className="text-sm text-gray-600 truncate mb-2" title={album.artistName}>
 						{album.artistName}
 					</p>
+					{album.otherEditions > 0 && (
+						<p className="text-xs text-gray-500 mb-2">
+							+{album.otherEditions} other {album.otherEditions === 1 ? 'edition' : 'editions'}
+						</p>
+					)}
 					<div className="flex items-center justify-between">
 						<div className="flex items-center space-x-2">
 							{isResultCached ? (
@@ -270,7 +362,7 @@ export default function MusicSearch() {
 						)}
 					</div>
 				</div>
-			</div >
+			</button>
 		);
 	};
 
@@ -282,6 +374,14 @@ export default function MusicSearch() {
 						type="text"
 						value={query}
 						onChange={handleInputChange}
+						onKeyDown={handleKeyDown}
+						onFocus={() => setShowSuggestions(true)}
+						onBlur={() => setShowSuggestions(false)}
+						role="combobox"
+						aria-autocomplete="list"
+						aria-expanded={showSuggestions && suggestions.length > 0}
+						aria-controls="search-suggestions"
+						aria-activedescendant={highlightedIndex >= 0 ? `search-suggestion-${highlightedIndex}` : undefined}
 						placeholder="Search for albums..."
 						className="w-full px-4 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
 					/>
@@ -290,6 +390,34 @@ export default function MusicSearch() {
 							<div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
 						</div>
 					)}
+					{showSuggestions && suggestions.length > 0 && (
+						<div
+							id="search-suggestions"
+							role="listbox"
+							className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg overflow-hidden"
+						>
+							{suggestions.map((suggestion, index) => (
+								// Focus stays in the input, which points at the highlighted option
+								<div
+									key={`${suggestion.kind}:${suggestion.text}`}
+									id={`search-suggestion-${index}`}
+									role="option"
+									tabIndex={-1}
+									aria-selected={index === highlightedIndex}
+									onMouseDown={(e) => {
+										// Keep focus in the input so blur doesn't close the list first
+										e.preventDefault();
+										selectSuggestion(suggestion);
+									}}
+									onMouseEnter={() => setHighlightedIndex(index)}
+									className={`px-4 py-2 cursor-pointer flex items-center justify-between ${index === highlightedIndex ? 'bg-blue-50' : ''}`}
+								>
+									<span className="truncate text-gray-900">{suggestion.text}</span>
+									<span className="ml-2 text-xs text-gray-500">{suggestion.kind === 'artist' ? 'Artist' : 'Album'}</span>
+								</div>
+							))}
+						</div>
+					)}
 				</div>
 			</div>
 
@@ -301,19 +429,20 @@ export default function MusicSearch() {
 
 			{results.length > 0 && (
 				<div className="mb-4 flex flex-wrap gap-2 text-sm">
-					{isCached ? (
+					{localCount > 0 && (
 						<span className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
 							<svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
 								<path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
 							</svg>
-							Cached Results
+							{localCount} Cached {isCached && '(saved search)'}
 						</span>
-					) : (
+					)}
+					{localCount < results.length && (
 						<span className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 border border-blue-200">
 							<svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
 								<path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" />
 							</svg>
-							Live from MusicBrainz
+							{results.length - localCount} Live from MusicBrainz
 						</span>
 					)}
 
@@ -328,21 +457,61 @@ export default function MusicSearch() {
 				</div>
 			)}
 
+			{artists.length > 0 && (
+				<div className="mb-6">
+					<h2 className="text-sm font-medium text-gray-500 mb-2">Artists</h2>
+					<div className="flex flex-wrap gap-2">
+						{artists.map((artist) => (
+							<Link
+								key={artist.id}
+								href={`/artist/${artist.id}`}
+								className="inline-flex items-center px-3 py-1.5 rounded-full text-sm bg-gray-100 text-gray-900 hover:bg-gray-200"
+							>
+								{artist.name}
+								{artist.disambiguation && (
+									<span className="ml-1 text-gray-500">({artist.disambiguation})</span>
+								)}
+							</Link>
+						))}
+					</div>
+				</div>
+			)}
+
 			<div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
 				{results.map((album) => (
 					<AlbumItem
 						key={album.id}
 						album={album}
-						isResultCached={isCached}
+						isResultCached={album.source === 'local'}
 					/>
 				))}
 			</div>
 
-			{!isLoading && query && results.length === 0 && !error && (
+			{!isLoading && query && results.length === 0 && artists.length === 0 && !error && (
 				<div className="text-center py-8 text-gray-500">
 					No albums found for "{query}"
 				</div>
 			)}
+
+			{selectedAlbum && (
+				<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+					{/* Clicking outside the form closes it */}
+					<button
+						type="button"
+						aria-label="Close"
+						onClick={() => setSelectedAlbum(null)}
+						className="absolute inset-0 cursor-default"
+					/>
+					<div
+						role="dialog"
+						aria-modal="true"
+						aria-label={`Log ${selectedAlbum.title}`}
+						className="relative w-full max-w-md bg-white rounded-lg shadow-xl p-6"
+					>
+						<LogListenForm album={selectedAlbum} onClose={() => setSelectedAlbum(null)} />
+					</div>
+				</div>
+			)}
 		</div>
 	);
 }
\ No newline at end of file
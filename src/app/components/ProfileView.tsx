@@ -0,0 +1,44 @@
+import Calendar from './Calendar';
+import { buildCalendarMonth, formatMonth, parseMonth } from '../lib/calendar-grid';
+import { ListenEventEntries } from '../lib/listen-event-entries';
+import { getMonthBounds, getTodayInTimezone, resolveTimezone } from '../lib/timezone';
+
+interface ProfileViewProps {
+	username: string;
+	timezone?: string;
+	month?: string; // YYYY-MM, defaults to the owner's current month
+	selectedDate?: string;
+	children?: React.ReactNode; // side panel
+}
+
+// Server-rendered profile layout: a month of the calendar with an optional side panel
+export default async function ProfileView({ username, timezone, month, selectedDate, children }: ProfileViewProps) {
+	// Days are greyed out relative to the profile owner's today
+	const today = getTodayInTimezone(resolveTimezone(timezone));
+	const currentMonth = parseMonth(today.slice(0, 7))!;
+	const shown = parseMonth(month) ?? currentMonth;
+
+	const { start, end } = getMonthBounds(shown.year, shown.month);
+	const entries = await ListenEventEntries.getUserEntriesInRange(username, start, end);
+	const calendar = buildCalendarMonth(shown.year, shown.month, entries, today);
+
+	return (
+		<div className="min-h-screen bg-white dark:bg-gray-900 px-4 py-12">
+			<div className="max-w-6xl mx-auto flex flex-col lg:flex-row lg:items-start justify-center gap-8">
+				<div className="flex flex-col items-center gap-8 flex-1 max-w-2xl">
+					<h1 className="text-3xl font-bold text-gray-900 dark:text-white">@{username}</h1>
+					<Calendar
+						username={username}
+						calendar={calendar}
+						canGoForward={formatMonth(shown.year, shown.month) < formatMonth(currentMonth.year, currentMonth.month)}
+						selectedDate={selectedDate}
+					/>
+					{entries.length === 0 && (
+						<p className="text-gray-500">No albums logged this month.</p>
+					)}
+				</div>
+				{children}
+			</div>
+		</div>
+	);
+}
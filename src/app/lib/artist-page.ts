@@ -0,0 +1,50 @@
+import { Artist, MusicStorage } from "./music-storage";
+import { MusicBrainzClient } from "./musicbrainz-client";
+import { ListenEventEntries } from "./listen-event-entries";
+import { type DiscographyFilter, type DiscographyReleaseGroup, getDiscography } from "./discography";
+
+// One release group in an artist's discography, with how it has been logged
+export interface DiscographyEntry extends DiscographyReleaseGroup {
+  siteListens: number;
+  averageRating: number | null; // site-wide, null until someone has rated it
+  viewerListens: number; // 0 without a signed-in viewer
+}
+
+export interface ArtistPage {
+  artist: Artist;
+  releaseGroups: DiscographyEntry[]; // oldest first
+}
+
+/**
+ * Get an artist with their discography by release group, marked with the
+ * viewer's and the site's listens and the site-wide average rating of each
+ */
+export async function getArtistPage(
+  mbid: string,
+  viewer?: string,
+  filter: DiscographyFilter = {}
+): Promise<ArtistPage | null> {
+  const artist = await MusicBrainzClient.getArtist(mbid);
+  if (!artist) {
+    return null;
+  }
+
+  // Visited artists become searchable locally
+  await MusicStorage.cacheArtist(artist);
+
+  const releaseGroups = await getDiscography(artist, filter);
+  const [siteStats, viewerListens] = await Promise.all([
+    ListenEventEntries.getReleaseGroupStats(releaseGroups.map(releaseGroup => releaseGroup.id)),
+    viewer ? ListenEventEntries.getUserReleaseGroupListens(viewer) : new Map<string, number>(),
+  ]);
+
+  return {
+    artist,
+    releaseGroups: releaseGroups.map(releaseGroup => ({
+      ...releaseGroup,
+      siteListens: siteStats.get(releaseGroup.id)?.listens ?? 0,
+      averageRating: siteStats.get(releaseGroup.id)?.averageRating ?? null,
+      viewerListens: viewerListens.get(releaseGroup.id) ?? 0,
+    })),
+  };
+}
@@ -1,7 +1,80 @@
 import fs from 'fs/promises';
 import path from 'path';
+import sharp from 'sharp';
 
 const ARTWORK_DIR = path.join(process.cwd(), 'public', 'album-art');
+const ARTWORK_EXTENSIONS = ['.jpg', '.png', '.webp'];
+const USER_AGENT = 'AlbumADay/0.0.1 (https://github.com/pupperpowell/album-a-day)';
+
+// Widths artwork can be asked for: calendar cells up to the day panel
+export const ARTWORK_SIZES = [64, 250, 500, 1200] as const;
+export type ArtworkSize = (typeof ARTWORK_SIZES)[number];
+
+export type ArtworkFormat = 'jpeg' | 'webp' | 'avif';
+
+const FORMAT_EXTENSIONS: Record<ArtworkFormat, string> = { jpeg: '.jpg', webp: '.webp', avif: '.avif' };
+
+export interface LocalArtwork {
+  filePath: string;
+  publicPath: string; // under /public, e.g. "/album-art/{mbid}.jpg"
+  contentType: string;
+}
+
+// Downloads in progress, so concurrent requests for the same release share one
+const inFlightDownloads = new Map<string, Promise<string | null>>();
+// Likewise for resized copies, by filename
+const inFlightVariants = new Map<string, Promise<LocalArtwork | null>>();
+
+function contentTypeFor(extension: string): string {
+  if (extension === '.png') return 'image/png';
+  if (extension === '.webp') return 'image/webp';
+  if (extension === '.avif') return 'image/avif';
+  return 'image/jpeg';
+}
+
+function variantFilename(mbid: string, size: ArtworkSize, format: ArtworkFormat): string {
+  return `${path.basename(mbid)}-${size}${FORMAT_EXTENSIONS[format]}`;
+}
+
+function toLocalArtwork(filename: string): LocalArtwork {
+  return {
+    filePath: path.join(ARTWORK_DIR, filename),
+    publicPath: `/album-art/${filename}`,
+    contentType: contentTypeFor(path.extname(filename)),
+  };
+}
+
+// Written under a temporary name first, so a half-written file is never served
+async function writeArtworkFile(filePath: string, data: Buffer): Promise<void> {
+  const partialPath = `${filePath}.${process.pid}.part`;
+  await fs.writeFile(partialPath, data);
+  await fs.rename(partialPath, filePath);
+}
+
+async function fetchImage(url: string): Promise<Response | null> {
+  const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT } });
+  if (!response.ok) {
+    console.warn(`[ARTWORK STORAGE] HTTP error ${response.status} for ${url}`);
+    return null;
+  }
+  return response;
+}
+
+/**
+ * Find a release's saved artwork, whatever format it was downloaded in
+ */
+export async function findLocalArtwork(mbid: string): Promise<LocalArtwork | null> {
+  for (const extension of ARTWORK_EXTENSIONS) {
+    const artwork = toLocalArtwork(`${path.basename(mbid)}${extension}`);
+    try {
+      await fs.access(artwork.filePath);
+      return artwork;
+    } catch {
+      // Not in this format
+    }
+  }
+  return null;
+}
 
 export async function ensureArtworkDir(): Promise<void> {
   try {
@@ -12,20 +85,33 @@ export async function ensureArtworkDir(): Promise<void> {
   }
 }
 
+/**
+ * Download a release's artwork into public/album-art, once: artwork that is
+ * already saved isn't downloaded again. Resolves to its public path, or null
+ * when the download failed.
+ */
 export async function downloadAndSaveArtwork(mbid: string, url: string): Promise<string | null> {
+  const existing = await findLocalArtwork(mbid);
+  if (existing) {
+    return existing.publicPath;
+  }
+
+  let download = inFlightDownloads.get(mbid);
+  if (!download) {
+    download = fetchAndSaveArtwork(mbid, url).finally(() => inFlightDownloads.delete(mbid));
+    inFlightDownloads.set(mbid, download);
+  }
+  return download;
+}
+
+async function fetchAndSaveArtwork(mbid: string, url: string): Promise<string | null> {
   try {
     await ensureArtworkDir();
 
     console.log(`[ARTWORK STORAGE] Downloading artwork for RELEASE MBID: ${mbid} from URL: ${url}`);
 
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'AlbumADay/0.0.1 (https://github.com/pupperpowell/album-a-day)'
-      }
-    });
-
-    if (!response.ok) {
-      console.warn(`[ARTWORK STORAGE] HTTP error ${response.status} for ${mbid}`);
+    const response = await fetchImage(url);
+    if (!response) {
       return null;
     }
 
@@ -50,10 +136,14 @@ export async function downloadAndSaveArtwork(mbid: string, url: string): Promise
       }
     }
 
-    const filename = `${mbid}${extension}`;
+    if (!ARTWORK_EXTENSIONS.includes(extension)) {
+      extension = '.jpg';
+    }
+
+    const filename = `${path.basename(mbid)}${extension}`;
     const filePath = path.join(ARTWORK_DIR, filename);
 
-    await fs.writeFile(filePath, Buffer.from(buffer));
+    await writeArtworkFile(filePath, Buffer.from(buffer));
 
     const publicPath = `/album-art/${filename}`;
     console.log(`[ARTWORK STORAGE] Successfully saved artwork for release ${mbid} at ${publicPath}`);
@@ -64,6 +154,76 @@ export async function downloadAndSaveArtwork(mbid: string, url: string): Promise
   }
 }
 
+/**
+ * Find a saved copy of a release's artwork at one size and format
+ */
+export async function findArtworkVariant(mbid: string, size: ArtworkSize, format: ArtworkFormat): Promise<LocalArtwork | null> {
+  const artwork = toLocalArtwork(variantFilename(mbid, size, format));
+  try {
+    await fs.access(artwork.filePath);
+    return artwork;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a copy of a release's artwork at one size and format, made from a
+ * Cover Art Archive URL or a saved file. The source is kept as it is when it
+ * already has that size and format, and otherwise resized to fit within
+ * `size` pixels (never enlarged). Resolves to null when it couldn't be made.
+ */
+export async function saveArtworkVariant(
+  mbid: string,
+  size: ArtworkSize,
+  format: ArtworkFormat,
+  source: { url: string } | { filePath: string }
+): Promise<LocalArtwork | null> {
+  const filename = variantFilename(mbid, size, format);
+  let variant = inFlightVariants.get(filename);
+  if (!variant) {
+    variant = createArtworkVariant(filename, size, format, source).finally(() => inFlightVariants.delete(filename));
+    inFlightVariants.set(filename, variant);
+  }
+  return variant;
+}
+
+async function createArtworkVariant(
+  filename: string,
+  size: ArtworkSize,
+  format: ArtworkFormat,
+  source: { url: string } | { filePath: string }
+): Promise<LocalArtwork | null> {
+  try {
+    await ensureArtworkDir();
+
+    let input: Buffer;
+    if ('filePath' in source) {
+      input = await fs.readFile(source.filePath);
+    } else {
+      console.log(`[ARTWORK STORAGE] Downloading ${filename} source from URL: ${source.url}`);
+      const response = await fetchImage(source.url);
+      if (!response) {
+        return null;
+      }
+      input = Buffer.from(await response.arrayBuffer());
+    }
+
+    const { width, height, format: sourceFormat } = await sharp(input).metadata();
+    const output = Math.max(width ?? 0, height ?? 0) === size && sourceFormat === format
+      ? input
+      : await sharp(input).resize(size, size, { fit: 'inside', withoutEnlargement: true }).toFormat(format).toBuffer();
+
+    const artwork = toLocalArtwork(filename);
+    await writeArtworkFile(artwork.filePath, output);
+    console.log(`[ARTWORK STORAGE] Saved ${artwork.publicPath}`);
+    return artwork;
+  } catch (error) {
+    console.error(`[ARTWORK STORAGE] Failed to make artwork ${filename}:`, error);
+    return null;
+  }
+}
+
 export async function localArtworkExists(mbid: string, extension: string = '.jpg'): Promise<boolean> {
   try {
     const filePath = path.join(ARTWORK_DIR, `${mbid}${extension}`);
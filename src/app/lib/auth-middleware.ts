@@ -1,11 +1,14 @@
 import { NextRequest } from "next/server";
 import { AuthUtils } from "./auth-utils";
+import { resolveTimezone } from "./timezone";
 
 export interface AuthenticatedRequest extends NextRequest {
   user: {
     id: string;
     username: string;
     createdAt: string;
+    timezone: string;
+    graceDaysPerMonth: number;
   };
   session: {
     sessionId: string;
@@ -18,6 +21,8 @@ export async function authenticateRequest(request: NextRequest): Promise<{
     id: string;
     username: string;
     createdAt: string;
+    timezone: string;
+    graceDaysPerMonth: number;
   };
   session?: {
     sessionId: string;
@@ -62,6 +67,8 @@ export async function authenticateRequest(request: NextRequest): Promise<{
         id: user.id,
         username: user.username,
         createdAt: user.createdAt,
+        timezone: resolveTimezone(user.timezone),
+        graceDaysPerMonth: user.graceDaysPerMonth ?? 0,
       },
       session: {
         sessionId: session.sessionId,
@@ -1,4 +1,5 @@
 import { getRedisClient } from "./redis-client";
+import { DEFAULT_TIMEZONE } from "./timezone";
 
 const client = getRedisClient();
 
@@ -9,8 +10,12 @@ export interface User {
   name: string;
   passwordHash: string;
   createdAt: string;
+  timezone?: string; // IANA timezone, e.g. "America/New_York"
+  graceDaysPerMonth?: number; // missed days per month that don't break a streak
 }
 
+export type UserSettings = Pick<User, "timezone" | "graceDaysPerMonth">;
+
 export interface Session {
   sessionId: string;
   userId: string;
@@ -40,6 +45,16 @@ export class AuthUtils {
     return await Bun.password.verify(password, hash);
   }
 
+  /**
+   * Whether a user may see admin views, configured as a comma-separated ADMIN_USERNAMES
+   */
+  static isAdmin(username: string): boolean {
+    return (process.env.ADMIN_USERNAMES || "")
+      .split(",")
+      .map(admin => admin.trim())
+      .includes(username);
+  }
+
   /**
    * Generate a random session ID
    */
@@ -50,7 +65,12 @@ export class AuthUtils {
   /**
    * Create a new user
    */
-  static async createUser(username: string, password: string, name: string): Promise<User> {
+  static async createUser(
+    username: string,
+    password: string,
+    name: string,
+    timezone: string = DEFAULT_TIMEZONE
+  ): Promise<User> {
     // Check if username already exists
     const existingUser = await this.getUserByUsername(username);
     if (existingUser) {
@@ -68,6 +88,7 @@ export class AuthUtils {
       name,
       passwordHash,
       createdAt,
+      timezone,
     };
 
     // Store user data
@@ -103,6 +124,25 @@ export class AuthUtils {
     return JSON.parse(userData) as User;
   }
 
+  /**
+   * Update a user's settings
+   */
+  static async updateUserSettings(userId: string, settings: UserSettings): Promise<User | null> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      return null;
+    }
+
+    const updatedUser: User = {
+      ...user,
+      ...settings,
+    };
+
+    await client.set(`${this.USER_PREFIX}${userId}`, JSON.stringify(updatedUser));
+
+    return updatedUser;
+  }
+
   /**
    * Authenticate user with username and password
    */
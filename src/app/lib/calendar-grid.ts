@@ -0,0 +1,89 @@
+import type { CalendarListenEventEntry } from "./listen-event-entries";
+import { addDays, getMonthBounds } from "./timezone";
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  day: number; // day of the month
+  entry: CalendarListenEventEntry | null;
+  isToday: boolean;
+  isFuture: boolean;
+}
+
+export interface CalendarMonth {
+  year: number;
+  month: number; // 1-12
+  start: string;
+  end: string;
+  weeks: (CalendarDay | null)[][]; // Sunday-first rows of 7, null outside the month
+  previousMonth: string; // YYYY-MM
+  nextMonth: string; // YYYY-MM
+}
+
+/**
+ * Parse a YYYY-MM month, or null if it isn't one
+ */
+export function parseMonth(value: string | null | undefined): { year: number; month: number } | null {
+  const match = value?.match(/^(\d{4})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const year = parseInt(match[1]);
+  const month = parseInt(match[2]);
+
+  return month >= 1 && month <= 12 ? { year, month } : null;
+}
+
+/**
+ * Format a year and month (1-12) as YYYY-MM
+ */
+export function formatMonth(year: number, month: number): string {
+  return `${year}-${month.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Lay out a month as a 7-column grid with the month's listens, relative to the
+ * viewer's `today` (YYYY-MM-DD) so later days can be greyed out
+ */
+export function buildCalendarMonth(
+  year: number,
+  month: number,
+  entries: CalendarListenEventEntry[],
+  today: string
+): CalendarMonth {
+  const { start, end } = getMonthBounds(year, month);
+  const entriesByDate = new Map(entries.map(entry => [entry.date, entry]));
+
+  const weeks: (CalendarDay | null)[][] = [];
+  const firstWeekday = new Date(`${start}T00:00:00Z`).getUTCDay();
+  let week: (CalendarDay | null)[] = Array(firstWeekday).fill(null);
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    week.push({
+      date,
+      day: parseInt(date.slice(8, 10)),
+      entry: entriesByDate.get(date) ?? null,
+      isToday: date === today,
+      isFuture: date > today,
+    });
+
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+
+  if (week.length > 0) {
+    weeks.push([...week, ...Array(7 - week.length).fill(null)]);
+  }
+
+  return {
+    year,
+    month,
+    start,
+    end,
+    weeks,
+    previousMonth: month === 1 ? formatMonth(year - 1, 12) : formatMonth(year, month - 1),
+    nextMonth: month === 12 ? formatMonth(year + 1, 1) : formatMonth(year, month + 1),
+  };
+}
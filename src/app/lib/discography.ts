@@ -0,0 +1,90 @@
+import type { Artist, ReleaseGroup } from "./music-storage";
+import { MusicBrainzClient } from "./musicbrainz-client";
+
+// An artist's discography: their release groups sorted into the kinds of record
+// people browse by. MusicBrainz gives each group one primary type (Album, EP,
+// Single, ...) and any number of secondary types (Live, Compilation, ...); a
+// secondary type says more about the record, so a live album is filed as live.
+
+export type DiscographyCategory = "album" | "ep" | "single" | "live" | "compilation" | "soundtrack" | "other";
+
+// Display order, which is also the order categories are listed on artist pages
+export const DISCOGRAPHY_CATEGORIES: { category: DiscographyCategory; title: string }[] = [
+  { category: "album", title: "Studio albums" },
+  { category: "ep", title: "EPs" },
+  { category: "single", title: "Singles" },
+  { category: "live", title: "Live" },
+  { category: "compilation", title: "Compilations" },
+  { category: "soundtrack", title: "Soundtracks" },
+  { category: "other", title: "Other" },
+];
+
+const SECONDARY_CATEGORIES: Record<string, DiscographyCategory> = {
+  Live: "live",
+  Compilation: "compilation",
+  Soundtrack: "soundtrack",
+};
+
+const PRIMARY_CATEGORIES: Record<string, DiscographyCategory> = {
+  Album: "album",
+  EP: "ep",
+  Single: "single",
+};
+
+export interface DiscographyReleaseGroup extends ReleaseGroup {
+  category: DiscographyCategory;
+}
+
+export interface DiscographyFilter {
+  studioOnly?: boolean; // only "album" release groups
+}
+
+/**
+ * File a release group by its types. Live, compilation and soundtrack win over
+ * the primary type; other secondary types (remixes, demos, interviews, ...) are
+ * "other" so they don't pass as studio albums
+ */
+export function classifyReleaseGroup(releaseGroup: Pick<ReleaseGroup, "type" | "secondaryTypes">): DiscographyCategory {
+  const secondaryTypes = releaseGroup.secondaryTypes ?? [];
+  for (const secondaryType of secondaryTypes) {
+    if (SECONDARY_CATEGORIES[secondaryType]) {
+      return SECONDARY_CATEGORIES[secondaryType];
+    }
+  }
+  if (secondaryTypes.length > 0) {
+    return "other";
+  }
+
+  return (releaseGroup.type && PRIMARY_CATEGORIES[releaseGroup.type]) || "other";
+}
+
+/**
+ * Order release groups oldest first, undated ones last, ties by title
+ */
+export function compareFirstReleaseDates(a: ReleaseGroup, b: ReleaseGroup): number {
+  if (a.firstReleaseDate !== b.firstReleaseDate) {
+    if (!a.firstReleaseDate || !b.firstReleaseDate) {
+      return a.firstReleaseDate ? -1 : 1;
+    }
+    return a.firstReleaseDate.localeCompare(b.firstReleaseDate);
+  }
+  return a.title.localeCompare(b.title);
+}
+
+/**
+ * Classify, sort and filter release groups
+ */
+export function buildDiscography(releaseGroups: ReleaseGroup[], filter: DiscographyFilter = {}): DiscographyReleaseGroup[] {
+  return releaseGroups
+    .map(releaseGroup => ({ ...releaseGroup, category: classifyReleaseGroup(releaseGroup) }))
+    .filter(releaseGroup => !filter.studioOnly || releaseGroup.category === "album")
+    .sort(compareFirstReleaseDates);
+}
+
+/**
+ * Get an artist's discography, oldest first. The release groups are cached by
+ * MusicBrainzClient, so filtering again doesn't ask MusicBrainz
+ */
+export async function getDiscography(artist: Artist, filter: DiscographyFilter = {}): Promise<DiscographyReleaseGroup[]> {
+  return buildDiscography(await MusicBrainzClient.getArtistReleaseGroups(artist), filter);
+}
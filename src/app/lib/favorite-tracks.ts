@@ -0,0 +1,17 @@
+import { ListenEventEntries, type ResolvedFavoriteTrack } from "./listen-event-entries";
+import { MusicBrainzClient } from "./musicbrainz-client";
+
+/**
+ * Resolve a favorite track picked from an album's tracklist, as the listen
+ * routes store it. An album logged straight from search results may not have
+ * its tracklist cached yet, so it is fetched first; that throws
+ * MusicBrainzApiError when MusicBrainz can't be reached. Resolves to null when
+ * the recording isn't on the album.
+ */
+export async function resolveFavoriteTrackPick(
+  album_mbid: string,
+  recording_mbid: string
+): Promise<ResolvedFavoriteTrack | null> {
+  await MusicBrainzClient.ensureTracklist(album_mbid);
+  return ListenEventEntries.resolveFavoriteTrack(album_mbid, recording_mbid);
+}
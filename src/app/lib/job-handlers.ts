@@ -0,0 +1,95 @@
+import { type Job, JobQueue, type JobType } from "./job-queue";
+import { ListenEventEntries } from "./listen-event-entries";
+import { type Album, MusicStorage } from "./music-storage";
+import { MusicBrainzClient } from "./musicbrainz-client";
+
+const ALBUM_STALE_AFTER = 30 * 24 * 60 * 60 * 1000; // ms, as long as release lookups stay fresh
+
+/**
+ * Whether a cached album is due for a refresh-stale-album job. Albums cached
+ * before the worker existed have never been refreshed, so they are stale too.
+ */
+export function isAlbumStale(album: Album, now: number = Date.now()): boolean {
+  return !album.enrichedAt || now - album.enrichedAt > ALBUM_STALE_AFTER;
+}
+
+/**
+ * Cache a release on top of what is already cached about it, so fields only
+ * some sources have (tracks, type, cover art) aren't lost, and regroup the
+ * listens logged before it was cached
+ */
+async function mergeIntoCache(mbid: string, update: Partial<Album>): Promise<Album | null> {
+  const cached = await MusicStorage.getCachedAlbum(mbid);
+  const album = { ...cached, ...update } as Album;
+  if (!album.id || !album.title) {
+    return null;
+  }
+
+  await MusicStorage.cacheAlbum(album);
+  if (album.releaseGroupId) {
+    await ListenEventEntries.settleReleaseGroup(album.id, album.releaseGroupId);
+  }
+  return album;
+}
+
+// What each job type does. Handlers throw to have the job retried; a release
+// MusicBrainz doesn't know isn't worth retrying, so it just finishes the job.
+export const JOB_HANDLERS: Record<JobType, (job: Job) => Promise<void>> = {
+  // A search result: cache it with its cover art URL so later searches find it locally.
+  // The image itself is saved when the artwork route first serves it or the album is logged.
+  "enrich-album": async job => {
+    const album = job.album ?? (await MusicStorage.getCachedAlbum(job.mbid)) ?? (await MusicBrainzClient.getReleaseOrThrow(job.mbid));
+    if (!album) {
+      return;
+    }
+
+    const coverArtUrl = await MusicBrainzClient.getFrontImageUrl(job.mbid);
+    await mergeIntoCache(job.mbid, { ...album, ...(coverArtUrl ? { coverArtUrl } : {}), enrichedAt: Date.now() });
+  },
+
+  // A logged album: its tracks are needed for favorite tracks and the day view
+  "fetch-tracklist": async job => {
+    const release = await MusicBrainzClient.getReleaseOrThrow(job.mbid);
+    if (release) {
+      await mergeIntoCache(job.mbid, { ...release, enrichedAt: Date.now() });
+    }
+  },
+
+  "download-artwork": async job => {
+    await MusicBrainzClient.saveArtwork(job.mbid);
+  },
+
+  // Skip the lookup caches and ask MusicBrainz and the Cover Art Archive again
+  "refresh-stale-album": async job => {
+    await MusicStorage.invalidateLookup("release", job.mbid);
+    await MusicStorage.invalidateLookup("front-image", job.mbid);
+
+    const release = await MusicBrainzClient.getReleaseOrThrow(job.mbid);
+    if (!release) {
+      return;
+    }
+
+    const coverArtUrl = await MusicBrainzClient.getFrontImageUrl(job.mbid);
+    await mergeIntoCache(job.mbid, { ...release, ...(coverArtUrl ? { coverArtUrl } : {}), enrichedAt: Date.now() });
+  },
+};
+
+/**
+ * Run the next job, waiting up to `timeoutSeconds` for one. Resolves to the job
+ * and how it went, or null when there was nothing to do.
+ */
+export async function processNextJob(timeoutSeconds: number = 0): Promise<{ job: Job; outcome: "done" | "retry" | "dead" } | null> {
+  const job = await JobQueue.reserve(timeoutSeconds);
+  if (!job) {
+    return null;
+  }
+
+  try {
+    await JOB_HANDLERS[job.type](job);
+    await JobQueue.complete(job);
+    return { job, outcome: "done" };
+  } catch (error) {
+    console.error(`[JOBS] ${job.type} ${job.mbid} failed (attempt ${job.attempts + 1}):`, error);
+    return { job, outcome: await JobQueue.fail(job, error) };
+  }
+}
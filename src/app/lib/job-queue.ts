@@ -0,0 +1,200 @@
+import type { Album } from "./music-storage";
+import { getRedisClient } from "./redis-client";
+
+const client = getRedisClient();
+
+export type JobType = "enrich-album" | "fetch-tracklist" | "download-artwork" | "refresh-stale-album";
+
+export const JOB_TYPES: JobType[] = ["enrich-album", "fetch-tracklist", "download-artwork", "refresh-stale-album"];
+
+export interface Job {
+  id: string;
+  type: JobType;
+  mbid: string; // release the job is about
+  album?: Album; // what the enqueuer already knew about the release, so the worker needn't look it up
+  attempts: number; // failed runs so far
+  enqueuedAt: number; // epoch ms
+  runAt?: number; // epoch ms, while waiting to be retried
+  lastError?: string;
+  failedAt?: number; // epoch ms of the last failure
+}
+
+export interface JobQueueStats {
+  pending: number;
+  processing: number;
+  delayed: number; // failed, waiting to be retried
+  dead: number;
+}
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 30 * 1000; // ms, doubled after each failure
+const DEAD_LETTER_LIMIT = 1000; // newest dead jobs kept for inspection
+
+/**
+ * Delay before retrying a job that has failed `attempts` times
+ */
+export function getJobRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY * 2 ** (attempts - 1);
+}
+
+// Background work shared through Redis lists, so request handlers can hand off
+// slow MusicBrainz and Cover Art Archive calls to the worker (scripts/job-worker.ts).
+// Jobs are LPUSHed onto the pending list and moved atomically to the processing
+// list while a worker runs them. A failed job waits in a sorted set scored by when
+// to try again, and after MAX_ATTEMPTS goes to the dead-letter list.
+export class JobQueue {
+  private static readonly PENDING_KEY = "Jobs:pending";
+  private static readonly PROCESSING_KEY = "Jobs:processing";
+  private static readonly DELAYED_KEY = "Jobs:delayed";
+  private static readonly DEAD_KEY = "Jobs:dead";
+  private static readonly QUEUED_KEY = "Jobs:queued"; // "{type}:{mbid}" of every live job, to skip duplicates
+
+  /**
+   * Queue a job, unless the same job is already waiting or running.
+   * Returns whether it was queued.
+   */
+  static async enqueue(type: JobType, mbid: string, album?: Album): Promise<boolean> {
+    if (!(await client.sadd(this.QUEUED_KEY, `${type}:${mbid}`))) {
+      return false;
+    }
+
+    const job: Job = { id: crypto.randomUUID(), type, mbid, ...(album ? { album } : {}), attempts: 0, enqueuedAt: Date.now() };
+    await client.lpush(this.PENDING_KEY, JSON.stringify(job));
+    return true;
+  }
+
+  /**
+   * Take the next job, waiting up to `timeoutSeconds` for one (0 doesn't wait).
+   * The job stays on the processing list until it is completed or failed.
+   */
+  static async reserve(timeoutSeconds: number = 0): Promise<Job | null> {
+    await this.promoteDelayed();
+
+    const raw = timeoutSeconds > 0
+      ? await client.brpoplpush(this.PENDING_KEY, this.PROCESSING_KEY, timeoutSeconds)
+      : await client.rpoplpush(this.PENDING_KEY, this.PROCESSING_KEY);
+
+    return raw ? (JSON.parse(raw) as Job) : null;
+  }
+
+  /**
+   * Finish a reserved job
+   */
+  static async complete(job: Job): Promise<void> {
+    await client.lrem(this.PROCESSING_KEY, 1, JSON.stringify(job));
+    await client.srem(this.QUEUED_KEY, `${job.type}:${job.mbid}`);
+  }
+
+  /**
+   * Give a reserved job back after it threw: retried later with backoff, or
+   * dead-lettered once it has used up its attempts
+   */
+  static async fail(job: Job, error: unknown): Promise<"retry" | "dead"> {
+    await client.lrem(this.PROCESSING_KEY, 1, JSON.stringify(job));
+
+    const failedAt = Date.now();
+    const attempts = job.attempts + 1;
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= MAX_ATTEMPTS) {
+      const { runAt, ...dead } = job;
+      await client.lpush(this.DEAD_KEY, JSON.stringify({ ...dead, attempts, lastError, failedAt }));
+      await client.ltrim(this.DEAD_KEY, 0, DEAD_LETTER_LIMIT - 1);
+      await client.srem(this.QUEUED_KEY, `${job.type}:${job.mbid}`);
+      return "dead";
+    }
+
+    const runAt = failedAt + getJobRetryDelay(attempts);
+    await client.zadd(this.DELAYED_KEY, runAt, JSON.stringify({ ...job, attempts, lastError, failedAt, runAt }));
+    return "retry";
+  }
+
+  /**
+   * Move retries that are due back onto the pending list
+   */
+  static async promoteDelayed(now: number = Date.now()): Promise<number> {
+    const due = await client.zrangebyscore(this.DELAYED_KEY, "-inf", now);
+
+    let promoted = 0;
+    for (const raw of due) {
+      // Only whoever removes it re-queues it, so concurrent workers don't double it
+      if (await client.zrem(this.DELAYED_KEY, raw)) {
+        const { runAt, ...job } = JSON.parse(raw) as Job;
+        await client.rpush(this.PENDING_KEY, JSON.stringify(job));
+        promoted++;
+      }
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Put jobs left on the processing list by a worker that stopped mid-job back
+   * on the queue, behind the jobs already waiting (reserve takes from the other
+   * end). Only safe while no other worker is running.
+   */
+  static async recoverProcessing(): Promise<number> {
+    let recovered = 0;
+    while (await client.rpoplpush(this.PROCESSING_KEY, this.PENDING_KEY)) {
+      recovered++;
+    }
+    return recovered;
+  }
+
+  /**
+   * Queue sizes for the admin view
+   */
+  static async getStats(): Promise<JobQueueStats> {
+    const [pending, processing, delayed, dead] = await Promise.all([
+      client.llen(this.PENDING_KEY),
+      client.llen(this.PROCESSING_KEY),
+      client.zcard(this.DELAYED_KEY),
+      client.llen(this.DEAD_KEY),
+    ]);
+    return { pending, processing, delayed, dead };
+  }
+
+  /**
+   * Jobs waiting to run, next first, including retries in the order they're due
+   */
+  static async getPendingJobs(limit: number = 50): Promise<Job[]> {
+    const [pending, delayed] = await Promise.all([
+      client.lrange(this.PENDING_KEY, -limit, -1),
+      client.zrange(this.DELAYED_KEY, 0, limit - 1),
+    ]);
+    return [...pending.reverse(), ...delayed].slice(0, limit).map(raw => JSON.parse(raw) as Job);
+  }
+
+  /**
+   * Dead-lettered jobs, most recently failed first
+   */
+  static async getDeadJobs(limit: number = 50): Promise<Job[]> {
+    const dead = await client.lrange(this.DEAD_KEY, 0, limit - 1);
+    return dead.map(raw => JSON.parse(raw) as Job);
+  }
+
+  /**
+   * Give a dead job a fresh set of attempts. Returns false when there's no such dead job.
+   */
+  static async retryDead(id: string): Promise<boolean> {
+    const raw = (await client.lrange(this.DEAD_KEY, 0, -1)).find(entry => (JSON.parse(entry) as Job).id === id);
+    if (!raw || !(await client.lrem(this.DEAD_KEY, 1, raw))) {
+      return false;
+    }
+
+    const job = JSON.parse(raw) as Job;
+    // Already queued again some other way
+    if (!(await client.sadd(this.QUEUED_KEY, `${job.type}:${job.mbid}`))) {
+      return true;
+    }
+    await client.lpush(this.PENDING_KEY, JSON.stringify({ ...job, attempts: 0 }));
+    return true;
+  }
+
+  /**
+   * Forget every dead job
+   */
+  static async clearDead(): Promise<void> {
+    await client.del(this.DEAD_KEY);
+  }
+}
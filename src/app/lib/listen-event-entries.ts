@@ -1,15 +1,39 @@
 import { getRedisClient } from "./redis-client";
-import { Album } from "./music-storage";
+import { Album, MusicStorage } from "./music-storage";
+import { DEFAULT_TIMEZONE, addDays, getTodayInTimezone } from "./timezone";
+import { StreakRun, calculateStreaks } from "./streaks";
+import {
+	FavoriteTrackPositionCounts,
+	FavoriteTrackStat,
+	ListenStatsBreakdown,
+	calculateListenStats,
+	getFavoriteTrackPosition,
+} from "./listen-stats";
+import { validateDate, validateRating } from "./listen-validation";
+import { getReleaseGroupKey } from "./release-groups";
 
 const client = getRedisClient();
 
 // ListenEvent entry interfaces
+export interface FavoriteTrackReference {
+	recording_mbid: string;
+	position: number; // position in the album's full tracklist, starting at 1
+	track_count: number; // tracks on the album
+}
+
+export interface ResolvedFavoriteTrack {
+	reference: FavoriteTrackReference;
+	title: string; // the track's title on the album
+}
+
 export interface ListenEventEntry {
 	username: string;
 	date: string; // YYYY-MM-DD
-	album_mbid: string;
-	rating: number; // 0-10
-	favorite_track: string;
+	album_mbid: string; // the edition (release) that was logged
+	release_group_mbid?: string; // the album itself, shared by all its editions; set when the release is cached
+	rating?: number; // 0-10; absent when the listen wasn't rated, which is not the same as 0
+	favorite_track: string; // display text
+	favorite_track_ref?: FavoriteTrackReference; // set when picked from the album's tracklist
 	notes: string;
 	created_at: string;
 	updated_at?: string;
@@ -21,15 +45,74 @@ export interface ListenEventEntryWithAlbum extends ListenEventEntry {
 
 export interface CalendarListenEventEntry {
 	date: string;
+	album_mbid?: string;
 	album: Album | null;
 	rating?: number;
 	favorite_track?: string;
 	notes?: string;
 }
 
+export interface ListenEventEntryUpdates {
+	album_mbid?: string;
+	rating?: number | null; // null clears it
+	favorite_track?: string;
+	favorite_track_ref?: FavoriteTrackReference | null; // null clears it
+	notes?: string;
+}
+
+export type ListenEventPageDirection = "asc" | "desc";
+
+export interface ListenEventPageOptions {
+	before?: string; // exclusive YYYY-MM-DD upper bound
+	after?: string; // exclusive YYYY-MM-DD lower bound
+	limit?: number;
+	direction?: ListenEventPageDirection;
+}
+
+export interface ListenEventEntriesPage {
+	entries: ListenEventEntry[];
+	nextCursor: string | null; // continues in the requested direction
+	prevCursor: string | null; // goes back the other way
+}
+
+// Site-wide figures for one release group
+export interface ReleaseGroupStats {
+	listens: number;
+	averageRating: number | null; // over rated listens; null until someone has rated it
+}
+
+export interface UserStats extends ListenStatsBreakdown {
+	year: number | null; // null for all-time stats
+	totalAlbums: number;
+	averageRating: number;
+	currentStreak: number;
+	currentStreakStart: string | null;
+	longestStreak: number;
+	longestStreakStart: string | null;
+	longestStreakEnd: string | null;
+	streaks: StreakRun[];
+}
+
 // ListenEvent entries utilities
 export class ListenEventEntries {
 	private static readonly ListenEvent_PREFIX = "ListenEvent:";
+	private static readonly INDEX_PREFIX = "ListenIndex:"; // sorted set of dates, scored by day number
+	private static readonly STATS_PREFIX = "ListenStats:";
+	private static readonly STATS_TTL = 60 * 60; // 1 hour in seconds
+	private static readonly FAVORITE_TRACKS_KEY = "FavoriteTracks"; // sorted set of recording MBIDs, scored by times favorited
+	private static readonly FAVORITE_TRACK_INFO_KEY = "FavoriteTrackInfo"; // hash of recording MBID -> { title, album_mbid }
+	private static readonly FAVORITE_TRACK_POSITIONS_KEY = "FavoriteTrackPositions"; // hash of position -> count
+	private static readonly RELEASE_GROUP_LISTENS_KEY = "ReleaseGroupListens"; // sorted set of release group MBIDs, scored by listens across all users
+	private static readonly RELEASE_GROUP_RATINGS_KEY = "ReleaseGroupRatings"; // hash of release group MBID -> sum of ratings, in tenths
+	private static readonly RELEASE_GROUP_RATED_KEY = "ReleaseGroupRatedListens"; // hash of release group MBID -> listens that have a rating
+	private static readonly RELEASE_GROUP_COUNTERS_BUILT_KEY = "ReleaseGroupCountersBuilt"; // set once the counters above include every stored listen
+	private static readonly RELEASE_GROUP_COUNTERS_VERSION_KEY = "ReleaseGroupCountersVersion"; // bumped by every change to the counters, so a recount can tell it missed one
+	private static readonly RELEASE_GROUP_RECOUNT_SUFFIX = ":recount:"; // plus a per-run ID: where a recount builds the counters before swapping them in
+	private static readonly RELEASE_GROUP_RECOUNT_ATTEMPTS = 3;
+	private static readonly PROVISIONAL_RELEASE_GROUP_PREFIX = "ProvisionalReleaseGroup:"; // set per release of "username:date" listens grouped before it was cached
+	private static readonly FAVORITE_TRACK_FIELDS = ["favorite_track_mbid", "favorite_track_position", "favorite_track_count"];
+	static readonly DEFAULT_PAGE_SIZE = 30;
+	static readonly MAX_PAGE_SIZE = 100;
 
 	/**
 	 * Add or update a ListenEvent entry
@@ -38,22 +121,35 @@ export class ListenEventEntries {
 		username: string,
 		date: string,
 		album_mbid: string,
-		rating: number,
+		rating: number | undefined,
 		favorite_track: string,
-		notes: string
+		notes: string,
+		favorite_track_ref?: FavoriteTrackReference,
+		release_group_mbid_hint?: string
 	): Promise<ListenEventEntry> {
 		const key = `${this.ListenEvent_PREFIX}${username}:${date}`;
 		const now = new Date().toISOString();
 
 		// Check if entry already exists
 		const existingEntry = await this.getListenEventEntry(username, date);
+		const existingCounted = await this.getCountedEntry(existingEntry);
+
+		// Listens are grouped by release group, taken from the cached release. Until
+		// it is cached, the client's hint groups the user's own listens and
+		// settleReleaseGroup checks it; the site-wide counters don't trust it.
+		const cachedReleaseGroup = await this.getReleaseGroupMbid(album_mbid);
+		const release_group_mbid = cachedReleaseGroup
+			?? release_group_mbid_hint
+			?? (existingEntry?.album_mbid === album_mbid ? existingEntry.release_group_mbid : undefined);
 
 		const entry: ListenEventEntry = {
 			username,
 			date,
 			album_mbid,
-			rating,
+			...(release_group_mbid ? { release_group_mbid } : {}),
+			...(rating !== undefined ? { rating } : {}),
 			favorite_track,
+			...(favorite_track_ref ? { favorite_track_ref } : {}),
 			notes,
 			created_at: existingEntry ? existingEntry.created_at : now,
 			updated_at: now,
@@ -64,7 +160,6 @@ export class ListenEventEntries {
 			username: entry.username,
 			date: entry.date,
 			album_mbid: entry.album_mbid,
-			rating: entry.rating.toString(),
 			favorite_track: entry.favorite_track,
 			notes: entry.notes,
 			created_at: entry.created_at,
@@ -74,11 +169,82 @@ export class ListenEventEntries {
 			hashData.updated_at = entry.updated_at;
 		}
 
+		if (entry.rating !== undefined) {
+			hashData.rating = entry.rating.toString();
+		} else if (existingEntry?.rating !== undefined) {
+			await client.hdel(key, "rating");
+		}
+
+		if (entry.release_group_mbid) {
+			hashData.release_group_mbid = entry.release_group_mbid;
+		} else if (existingEntry?.release_group_mbid) {
+			await client.hdel(key, "release_group_mbid");
+		}
+
+		if (entry.favorite_track_ref) {
+			hashData.favorite_track_mbid = entry.favorite_track_ref.recording_mbid;
+			hashData.favorite_track_position = entry.favorite_track_ref.position.toString();
+			hashData.favorite_track_count = entry.favorite_track_ref.track_count.toString();
+		} else if (existingEntry?.favorite_track_ref) {
+			const [field, ...rest] = this.FAVORITE_TRACK_FIELDS;
+			await client.hdel(key, field, ...rest);
+		}
+
 		await client.hset(key, hashData);
+		await client.zadd(this.indexKey(username), this.toDayNumber(date), date);
+		const listen = `${username}:${date}`;
+		if (existingEntry && existingEntry.album_mbid !== album_mbid) {
+			await client.srem(`${this.PROVISIONAL_RELEASE_GROUP_PREFIX}${existingEntry.album_mbid}`, listen);
+		}
+		if (cachedReleaseGroup) {
+			await client.srem(`${this.PROVISIONAL_RELEASE_GROUP_PREFIX}${album_mbid}`, listen);
+		} else {
+			await client.sadd(`${this.PROVISIONAL_RELEASE_GROUP_PREFIX}${album_mbid}`, listen);
+		}
+		await this.updateFavoriteTrackCounters(existingEntry, entry);
+		await this.updateReleaseGroupCounters(existingCounted, cachedReleaseGroup ? entry : this.withoutReleaseGroup(entry));
+		await this.invalidateUserStats(username);
+
+		// What people log completes first in search
+		if (existingEntry?.album_mbid !== album_mbid) {
+			await MusicStorage.recordLoggedAlbum(album_mbid);
+		}
 
 		return entry;
 	}
 
+	/**
+	 * Update fields of an existing ListenEvent entry
+	 */
+	static async updateListenEventEntry(
+		username: string,
+		date: string,
+		updates: ListenEventEntryUpdates
+	): Promise<ListenEventEntry | null> {
+		const existingEntry = await this.getListenEventEntry(username, date);
+
+		if (!existingEntry) {
+			return null;
+		}
+
+		// A new favorite track or album without a new reference invalidates the old one
+		const favoriteTrackRef = updates.favorite_track_ref !== undefined
+			? updates.favorite_track_ref
+			: updates.favorite_track !== undefined || updates.album_mbid !== undefined
+				? null
+				: existingEntry.favorite_track_ref;
+
+		return this.addOrUpdateListenEventEntry(
+			username,
+			date,
+			updates.album_mbid ?? existingEntry.album_mbid,
+			updates.rating === null ? undefined : updates.rating ?? existingEntry.rating,
+			updates.favorite_track ?? existingEntry.favorite_track,
+			updates.notes ?? existingEntry.notes,
+			favoriteTrackRef ?? undefined
+		);
+	}
+
 	/**
 	 * Get a ListenEvent entry for a specific user and date
 	 */
@@ -93,49 +259,109 @@ export class ListenEventEntries {
 			return null;
 		}
 
-		return {
-			username: entryData.username,
-			date: entryData.date,
-			album_mbid: entryData.album_mbid,
-			rating: parseFloat(entryData.rating),
-			favorite_track: entryData.favorite_track,
-			notes: entryData.notes,
-			created_at: entryData.created_at,
-			updated_at: entryData.updated_at || undefined,
-		};
+		return this.parseEntry(entryData);
 	}
 
 	/**
-	 * Get all ListenEvent entries for a user
+	 * Get all ListenEvent entries for a user (newest first)
 	 */
 	static async getAllUserEntries(username: string): Promise<ListenEventEntry[]> {
-		const pattern = `${this.ListenEvent_PREFIX}${username}:*`;
-		const keys = await client.keys(pattern);
+		const dates = await client.zrevrange(this.indexKey(username), 0, -1);
+		return this.getEntriesForDates(username, dates);
+	}
 
-		if (keys.length === 0) {
+	/**
+	 * Get the most recent ListenEvent entries for a user (newest first)
+	 */
+	static async getLatestEntries(username: string, limit: number): Promise<ListenEventEntry[]> {
+		if (limit <= 0) {
 			return [];
 		}
 
-		const entries: ListenEventEntry[] = [];
+		const dates = await client.zrevrange(this.indexKey(username), 0, limit - 1);
+		return this.getEntriesForDates(username, dates);
+	}
 
-		for (const key of keys) {
-			const entryData = await client.hgetall(key);
-			if (entryData && Object.keys(entryData).length > 0) {
-				entries.push({
-					username: entryData.username,
-					date: entryData.date,
-					album_mbid: entryData.album_mbid,
-					rating: parseFloat(entryData.rating),
-					favorite_track: entryData.favorite_track,
-					notes: entryData.notes,
-					created_at: entryData.created_at,
-					updated_at: entryData.updated_at || undefined,
-				});
-			}
+	/**
+	 * Get one page of a user's ListenEvent entries next to a date cursor.
+	 *
+	 * With `before` the page is the entries immediately older than that date,
+	 * with `after` the entries immediately newer; without either it starts from
+	 * the newest (desc) or oldest (asc) end. Returned cursors look like
+	 * `before:YYYY-MM-DD` / `after:YYYY-MM-DD` and can be passed back through
+	 * `parseCursor`.
+	 */
+	static async getUserEntriesPage(
+		username: string,
+		options: ListenEventPageOptions = {}
+	): Promise<ListenEventEntriesPage> {
+		const { before, after, direction = "desc" } = options;
+		const limit = Math.min(Math.max(Math.floor(options.limit ?? this.DEFAULT_PAGE_SIZE), 1), this.MAX_PAGE_SIZE);
+		const indexKey = this.indexKey(username);
+
+		const max = before ? `(${this.toDayNumber(before)}` : "+inf";
+		const min = after ? `(${this.toDayNumber(after)}` : "-inf";
+
+		// Walk away from whichever cursor was given; with both or neither, the direction decides
+		const fromNewest = before && !after ? true : after && !before ? false : direction === "desc";
+
+		const dates = fromNewest
+			? await client.zrevrangebyscore(indexKey, max, min, "LIMIT", 0, limit)
+			: await client.zrangebyscore(indexKey, min, max, "LIMIT", 0, limit);
+
+		if (dates.length === 0) {
+			return { entries: [], nextCursor: null, prevCursor: null };
 		}
 
-		// Sort by date (newest first)
-		return entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+		const ascending = fromNewest ? [...dates].reverse() : dates;
+		const oldest = ascending[0];
+		const newest = ascending[ascending.length - 1];
+
+		const [olderCount, newerCount] = await Promise.all([
+			client.zcount(indexKey, "-inf", `(${this.toDayNumber(oldest)}`),
+			client.zcount(indexKey, `(${this.toDayNumber(newest)}`, "+inf"),
+		]);
+		const olderCursor = olderCount > 0 ? `before:${oldest}` : null;
+		const newerCursor = newerCount > 0 ? `after:${newest}` : null;
+
+		const ordered = direction === "desc" ? [...ascending].reverse() : ascending;
+		const entries = await this.getEntriesForDates(username, ordered);
+
+		return direction === "desc"
+			? { entries, nextCursor: olderCursor, prevCursor: newerCursor }
+			: { entries, nextCursor: newerCursor, prevCursor: olderCursor };
+	}
+
+	/**
+	 * Parse a `before:YYYY-MM-DD` / `after:YYYY-MM-DD` page cursor
+	 */
+	static parseCursor(cursor: string): Pick<ListenEventPageOptions, "before" | "after"> | null {
+		const match = /^(before|after):(.+)$/.exec(cursor);
+
+		if (!match || !this.validateDate(match[2])) {
+			return null;
+		}
+
+		return match[1] === "before" ? { before: match[2] } : { after: match[2] };
+	}
+
+	/**
+	 * Count a user's ListenEvent entries, optionally within an inclusive date range
+	 */
+	static async countUserEntries(
+		username: string,
+		startDate?: string,
+		endDate?: string
+	): Promise<number> {
+		if (!startDate && !endDate) {
+			return client.zcard(this.indexKey(username));
+		}
+
+		return client.zcount(
+			this.indexKey(username),
+			startDate ? this.toDayNumber(startDate) : "-inf",
+			endDate ? this.toDayNumber(endDate) : "+inf"
+		);
 	}
 
 	/**
@@ -146,39 +372,49 @@ export class ListenEventEntries {
 		startDate: string,
 		endDate: string
 	): Promise<CalendarListenEventEntry[]> {
-		const allEntries = await this.getAllUserEntries(username);
-
-		// Filter by date range
-		const filteredEntries = allEntries.filter(entry => {
-			const entryDate = new Date(entry.date);
-			const start = new Date(startDate);
-			const end = new Date(endDate);
-			return entryDate >= start && entryDate <= end;
-		});
+		const dates = await client.zrangebyscore(
+			this.indexKey(username),
+			this.toDayNumber(startDate),
+			this.toDayNumber(endDate)
+		);
+		const entries = await this.getEntriesForDates(username, dates);
 
 		// Create calendar entries with album details
-		const calendarEntries: CalendarListenEventEntry[] = [];
+		return Promise.all(
+			entries.map(async (entry): Promise<CalendarListenEventEntry> => {
+				const albumData = await client.get(`album:${entry.album_mbid}`);
+
+				return {
+					date: entry.date,
+					album_mbid: entry.album_mbid,
+					album: albumData ? (JSON.parse(albumData) as Album) : null,
+					rating: entry.rating,
+					favorite_track: entry.favorite_track,
+					notes: entry.notes,
+				};
+			})
+		);
+	}
 
-		for (const entry of filteredEntries) {
-			// Get album details
-			const albumKey = `album:${entry.album_mbid}`;
-			const albumData = await client.get(albumKey);
-			let album: Album | null = null;
+	/**
+	 * Get a user's calendar for a date range, with an entry for every day
+	 * (days without a listen have a null album)
+	 */
+	static async getUserCalendar(
+		username: string,
+		startDate: string,
+		endDate: string
+	): Promise<CalendarListenEventEntry[]> {
+		const entries = await this.getUserEntriesInRange(username, startDate, endDate);
+		const entriesByDate = new Map(entries.map(entry => [entry.date, entry]));
 
-			if (albumData) {
-				album = JSON.parse(albumData) as Album;
-			}
+		const calendar: CalendarListenEventEntry[] = [];
 
-			calendarEntries.push({
-				date: entry.date,
-				album,
-				rating: entry.rating,
-				favorite_track: entry.favorite_track,
-				notes: entry.notes,
-			});
+		for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+			calendar.push(entriesByDate.get(date) ?? { date, album: null });
 		}
 
-		return calendarEntries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+		return calendar;
 	}
 
 	/**
@@ -189,8 +425,22 @@ export class ListenEventEntries {
 		date: string
 	): Promise<boolean> {
 		const key = `${this.ListenEvent_PREFIX}${username}:${date}`;
+		const existingEntry = await this.getListenEventEntry(username, date);
+		const existingCounted = await this.getCountedEntry(existingEntry);
 		const result = await client.del(key);
-		return result > 0;
+		await client.zrem(this.indexKey(username), date);
+
+		if (result > 0) {
+			if (existingEntry) {
+				await client.srem(`${this.PROVISIONAL_RELEASE_GROUP_PREFIX}${existingEntry.album_mbid}`, `${username}:${date}`);
+			}
+			await this.updateFavoriteTrackCounters(existingEntry, null);
+			await this.updateReleaseGroupCounters(existingCounted, null);
+			await this.invalidateUserStats(username);
+			return true;
+		}
+
+		return false;
 	}
 
 	/**
@@ -222,35 +472,543 @@ export class ListenEventEntries {
 		};
 	}
 
+	/**
+	 * Rebuild a user's date index from their stored ListenEvent keys
+	 */
+	static async rebuildUserIndex(username: string): Promise<number> {
+		const keys = await client.keys(`${this.ListenEvent_PREFIX}${username}:*`);
+		const indexKey = this.indexKey(username);
+
+		await client.del(indexKey);
+
+		for (const key of keys) {
+			const date = key.slice(key.lastIndexOf(":") + 1);
+			if (this.validateDate(date)) {
+				await client.zadd(indexKey, this.toDayNumber(date), date);
+			}
+		}
+
+		return client.zcard(indexKey);
+	}
+
+	/**
+	 * Rebuild the date index for every user that has ListenEvent keys
+	 */
+	static async rebuildAllIndexes(): Promise<Map<string, number>> {
+		const keys = await client.keys(`${this.ListenEvent_PREFIX}*`);
+		const usernames = new Set(
+			keys.map(key => key.slice(this.ListenEvent_PREFIX.length, key.lastIndexOf(":")))
+		);
+
+		const counts = new Map<string, number>();
+		for (const username of usernames) {
+			counts.set(username, await this.rebuildUserIndex(username));
+		}
+
+		return counts;
+	}
+
+	/**
+	 * Convert a YYYY-MM-DD date into a day number (days since the Unix epoch)
+	 */
+	static toDayNumber(date: string): number {
+		const [year, month, day] = date.split('-').map(Number);
+		return Math.floor(Date.UTC(year, month - 1, day) / (1000 * 60 * 60 * 24));
+	}
+
 	/**
 	 * Validate rating is within acceptable range
 	 */
 	static validateRating(rating: number): boolean {
-		return rating >= -1 && rating <= 11 && Number.isFinite(rating);
+		return validateRating(rating);
 	}
 
 	/**
 	 * Validate date format (YYYY-MM-DD)
 	 */
 	static validateDate(date: string): boolean {
-		const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-		if (!dateRegex.test(date)) {
-			return false;
+		return validateDate(date);
+	}
+
+	/**
+	 * Check if date is in the future (not allowed) for someone in the given timezone
+	 */
+	static isDateInFuture(
+		date: string,
+		timezone: string = DEFAULT_TIMEZONE,
+		now: Date = new Date()
+	): boolean {
+		return date > getTodayInTimezone(timezone, now);
+	}
+
+	/**
+	 * Get user statistics, all-time or for one calendar year
+	 * (cached for an hour, invalidated on writes). Streaks depend on the user's
+	 * today and grace days, so those are part of what the cache is keyed on.
+	 */
+	static async getUserStats(
+		username: string,
+		timezone: string = DEFAULT_TIMEZONE,
+		graceDaysPerMonth: number = 0,
+		year?: number
+	): Promise<UserStats> {
+		const today = getTodayInTimezone(timezone);
+		const key = `${this.STATS_PREFIX}${username}`;
+		const field = `${year !== undefined ? year.toString() : "all"}:${today}:${graceDaysPerMonth}`;
+		const statsData = await client.hget(key, field);
+
+		if (statsData) {
+			return JSON.parse(statsData) as UserStats;
 		}
 
-		const parsedDate = new Date(date);
-		return !isNaN(parsedDate.getTime()) && date === parsedDate.toISOString().split('T')[0];
+		const stats = await this.calculateUserStats(
+			username,
+			today,
+			graceDaysPerMonth,
+			year
+		);
+
+		await client.hset(key, { [field]: JSON.stringify(stats) });
+		await client.expire(key, this.STATS_TTL);
+
+		return stats;
 	}
 
 	/**
-	 * Check if date is in the future (not allowed)
+	 * Calculate user statistics from the listen log and cached album metadata
 	 */
-	static isDateInFuture(date: string): boolean {
-		const entryDate = new Date(date);
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-		entryDate.setHours(0, 0, 0, 0);
+	private static async calculateUserStats(
+		username: string,
+		today: string,
+		graceDaysPerMonth: number,
+		year?: number
+	): Promise<UserStats> {
+		const entries = year !== undefined
+			? await this.getEntriesForDates(
+				username,
+				await client.zrangebyscore(
+					this.indexKey(username),
+					this.toDayNumber(`${year}-01-01`),
+					this.toDayNumber(`${year}-12-31`)
+				)
+			)
+			: await this.getAllUserEntries(username);
+
+		const albums = await this.getCachedAlbums(entries.map(entry => entry.album_mbid));
+		const streaks = calculateStreaks(
+			entries.map(entry => entry.date),
+			today,
+			{ graceDaysPerMonth }
+		);
+
+		// Unrated listens are left out rather than counted as 0
+		const ratings = entries.flatMap(entry => (entry.rating !== undefined ? [entry.rating] : []));
+		const averageRating = ratings.length > 0
+			? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+			: 0;
+
+		return {
+			year: year ?? null,
+			totalAlbums: entries.length,
+			averageRating,
+			currentStreak: streaks.currentStreak,
+			currentStreakStart: streaks.currentStreakStart,
+			longestStreak: streaks.longestStreak,
+			longestStreakStart: streaks.longestStreakStart,
+			longestStreakEnd: streaks.longestStreakEnd,
+			streaks: streaks.runs,
+			...calculateListenStats(entries, albums),
+		};
+	}
 
-		return entryDate > today;
+	/**
+	 * Drop the cached statistics for a user
+	 */
+	static async invalidateUserStats(username: string): Promise<void> {
+		await client.del(`${this.STATS_PREFIX}${username}`);
+	}
+
+	/**
+	 * Fetch the entries for a list of dates, preserving order and skipping missing hashes
+	 */
+	private static async getEntriesForDates(
+		username: string,
+		dates: string[]
+	): Promise<ListenEventEntry[]> {
+		const hashes = await Promise.all(
+			dates.map(date => client.hgetall(`${this.ListenEvent_PREFIX}${username}:${date}`))
+		);
+
+		return hashes
+			.filter(entryData => entryData && Object.keys(entryData).length > 0)
+			.map(entryData => this.parseEntry(entryData));
+	}
+
+	/**
+	 * Release group of a cached release, if known
+	 */
+	private static async getReleaseGroupMbid(album_mbid: string): Promise<string | undefined> {
+		const albumData = await client.get(`album:${album_mbid}`);
+		return albumData ? (JSON.parse(albumData) as Album).releaseGroupId : undefined;
+	}
+
+	/**
+	 * Find a recording on an album's cached tracklist, for storing as a favorite track
+	 */
+	static async resolveFavoriteTrack(
+		album_mbid: string,
+		recording_mbid: string
+	): Promise<ResolvedFavoriteTrack | null> {
+		const albumData = await client.get(`album:${album_mbid}`);
+		const tracks = albumData ? (JSON.parse(albumData) as Album).tracks ?? [] : [];
+		const index = tracks.findIndex(track => track.recordingId === recording_mbid);
+
+		if (index === -1) {
+			return null;
+		}
+
+		return {
+			reference: { recording_mbid, position: index + 1, track_count: tracks.length },
+			title: tracks[index].title,
+		};
+	}
+
+	/**
+	 * Get the most favorited tracks across all users
+	 */
+	static async getGlobalFavoriteTracks(limit: number = 10): Promise<FavoriteTrackStat[]> {
+		const recordingMbids = await client.zrevrangebyscore(this.FAVORITE_TRACKS_KEY, "+inf", 1, "LIMIT", 0, limit);
+
+		if (recordingMbids.length === 0) {
+			return [];
+		}
+
+		const [counts, info] = await Promise.all([
+			Promise.all(recordingMbids.map(mbid => client.zscore(this.FAVORITE_TRACKS_KEY, mbid))),
+			client.hmget(this.FAVORITE_TRACK_INFO_KEY, recordingMbids),
+		]);
+
+		return recordingMbids.map((recording_mbid, index) => {
+			const { title, album_mbid } = info[index]
+				? JSON.parse(info[index]!) as { title: string; album_mbid: string }
+				: { title: "", album_mbid: "" };
+
+			return { recording_mbid, title, album_mbid, count: counts[index] ?? 0 };
+		});
+	}
+
+	/**
+	 * Get how often favorite tracks are openers, closers or in between, across all users
+	 */
+	static async getGlobalFavoriteTrackPositions(): Promise<FavoriteTrackPositionCounts> {
+		const counts = await client.hgetall(this.FAVORITE_TRACK_POSITIONS_KEY);
+
+		return {
+			opener: parseInt(counts.opener || "0"),
+			middle: parseInt(counts.middle || "0"),
+			closer: parseInt(counts.closer || "0"),
+		};
+	}
+
+	/**
+	 * Move the global favorite track counters from an entry's old favorite to its new one
+	 */
+	private static async updateFavoriteTrackCounters(
+		previous: ListenEventEntry | null,
+		next: ListenEventEntry | null
+	): Promise<void> {
+		if (previous?.favorite_track_ref) {
+			const { recording_mbid } = previous.favorite_track_ref;
+			const count = await client.zincrby(this.FAVORITE_TRACKS_KEY, -1, recording_mbid);
+			if (count <= 0) {
+				await client.zrem(this.FAVORITE_TRACKS_KEY, recording_mbid);
+			}
+			await client.hincrby(this.FAVORITE_TRACK_POSITIONS_KEY, getFavoriteTrackPosition(previous.favorite_track_ref), -1);
+		}
+
+		if (next?.favorite_track_ref) {
+			const { recording_mbid } = next.favorite_track_ref;
+			await client.zincrby(this.FAVORITE_TRACKS_KEY, 1, recording_mbid);
+			await client.hset(this.FAVORITE_TRACK_INFO_KEY, {
+				[recording_mbid]: JSON.stringify({ title: next.favorite_track, album_mbid: next.album_mbid }),
+			});
+			await client.hincrby(this.FAVORITE_TRACK_POSITIONS_KEY, getFavoriteTrackPosition(next.favorite_track_ref), 1);
+		}
+	}
+
+	/**
+	 * Get how many times each release group has been logged, across all users
+	 */
+	static async getReleaseGroupListenCounts(releaseGroupMbids: string[]): Promise<Map<string, number>> {
+		await this.ensureReleaseGroupCounters();
+		const uniqueMbids = [...new Set(releaseGroupMbids)];
+		const counts = await Promise.all(uniqueMbids.map(mbid => client.zscore(this.RELEASE_GROUP_LISTENS_KEY, mbid)));
+
+		return new Map(uniqueMbids.map((mbid, index) => [mbid, counts[index] ?? 0]));
+	}
+
+	/**
+	 * Get site-wide listen counts and average ratings of release groups
+	 */
+	static async getReleaseGroupStats(releaseGroupMbids: string[]): Promise<Map<string, ReleaseGroupStats>> {
+		const uniqueMbids = [...new Set(releaseGroupMbids)];
+		if (uniqueMbids.length === 0) {
+			return new Map();
+		}
+
+		await this.ensureReleaseGroupCounters();
+		const [counts, ratingSums, ratedListens] = await Promise.all([
+			this.getReleaseGroupListenCounts(uniqueMbids),
+			client.hmget(this.RELEASE_GROUP_RATINGS_KEY, uniqueMbids),
+			client.hmget(this.RELEASE_GROUP_RATED_KEY, uniqueMbids),
+		]);
+
+		return new Map(uniqueMbids.map((mbid, index) => {
+			const listens = counts.get(mbid) ?? 0;
+			const rated = parseInt(ratedListens[index] || "0", 10);
+			const ratingSum = parseInt(ratingSums[index] || "0", 10) / 10;
+			return [mbid, { listens, averageRating: rated > 0 ? ratingSum / rated : null }];
+		}));
+	}
+
+	/**
+	 * Count a user's listens per release group
+	 */
+	static async getUserReleaseGroupListens(username: string): Promise<Map<string, number>> {
+		const entries = await this.getAllUserEntries(username);
+		const albums = await this.getCachedAlbums(entries.map(entry => entry.album_mbid));
+
+		const listens = new Map<string, number>();
+		for (const entry of entries) {
+			const releaseGroup = getReleaseGroupKey(entry, albums);
+			listens.set(releaseGroup, (listens.get(releaseGroup) ?? 0) + 1);
+		}
+
+		return listens;
+	}
+
+	/**
+	 * Listens logged before the release group counters existed aren't in them:
+	 * the first reader after an upgrade recounts them, once
+	 */
+	private static async ensureReleaseGroupCounters(): Promise<void> {
+		const claimed = await client.set(this.RELEASE_GROUP_COUNTERS_BUILT_KEY, new Date().toISOString(), "NX");
+		if (!claimed) {
+			return;
+		}
+
+		try {
+			await this.rebuildReleaseGroupCounters();
+		} catch (error) {
+			// Let the next reader try again
+			await client.del(this.RELEASE_GROUP_COUNTERS_BUILT_KEY);
+			throw error;
+		}
+	}
+
+	/**
+	 * Recount the site-wide release group listens and ratings from every stored entry.
+	 *
+	 * The counts are built under other keys and renamed over the live ones, so
+	 * readers never see them half-built. A listen logged meanwhile would be lost
+	 * in the swap, so the recount starts over until none was.
+	 */
+	static async rebuildReleaseGroupCounters(): Promise<number> {
+		const liveKeys = [this.RELEASE_GROUP_LISTENS_KEY, this.RELEASE_GROUP_RATINGS_KEY, this.RELEASE_GROUP_RATED_KEY];
+		const recountId = crypto.randomUUID();
+		const recountKeys = liveKeys.map(key => `${key}${this.RELEASE_GROUP_RECOUNT_SUFFIX}${recountId}`);
+
+		for (let attempt = 1; attempt <= this.RELEASE_GROUP_RECOUNT_ATTEMPTS; attempt++) {
+			const version = await client.get(this.RELEASE_GROUP_COUNTERS_VERSION_KEY);
+			await client.del(...recountKeys);
+
+			let count = 0;
+			for (const key of await this.scanKeys(`${this.ListenEvent_PREFIX}*`)) {
+				const entryData = await client.hgetall(key);
+				if (entryData && Object.keys(entryData).length > 0) {
+					await this.updateReleaseGroupCounters(null, await this.getCountedEntry(this.parseEntry(entryData)), recountKeys);
+					count++;
+				}
+			}
+
+			if (await client.get(this.RELEASE_GROUP_COUNTERS_VERSION_KEY) !== version) {
+				continue;
+			}
+
+			// Counters with nothing in them were never created
+			for (const [index, liveKey] of liveKeys.entries()) {
+				if (await client.exists(recountKeys[index])) {
+					await client.rename(recountKeys[index], liveKey);
+				} else {
+					await client.del(liveKey);
+				}
+			}
+
+			// A listen changed between the check and the swap: go again
+			if (await client.get(this.RELEASE_GROUP_COUNTERS_VERSION_KEY) !== version) {
+				continue;
+			}
+
+			await client.set(this.RELEASE_GROUP_COUNTERS_BUILT_KEY, new Date().toISOString());
+			return count;
+		}
+
+		await client.del(...recountKeys);
+		throw new Error(`Listens kept changing while recounting release groups, ${this.RELEASE_GROUP_RECOUNT_ATTEMPTS} times`);
+	}
+
+	/**
+	 * Once a release is cached, regroup the listens logged before it was under
+	 * its actual release group. Resolves to how many listens were settled.
+	 */
+	static async settleReleaseGroup(album_mbid: string, release_group_mbid: string): Promise<number> {
+		const pendingKey = `${this.PROVISIONAL_RELEASE_GROUP_PREFIX}${album_mbid}`;
+		const listens = await client.smembers(pendingKey);
+
+		let settled = 0;
+		for (const listen of listens) {
+			const separator = listen.lastIndexOf(":");
+			const username = listen.slice(0, separator);
+			const date = listen.slice(separator + 1);
+
+			// Skip listens since deleted or moved to another album. The counters had
+			// them under the release, whatever the client said the group was.
+			const entry = await this.getListenEventEntry(username, date);
+			if (entry && entry.album_mbid === album_mbid) {
+				if (entry.release_group_mbid !== release_group_mbid) {
+					await client.hset(`${this.ListenEvent_PREFIX}${username}:${date}`, { release_group_mbid });
+					await this.invalidateUserStats(username);
+				}
+				await this.updateReleaseGroupCounters(this.withoutReleaseGroup(entry), { ...entry, release_group_mbid });
+				settled++;
+			}
+		}
+
+		if (listens.length > 0) {
+			await client.srem(pendingKey, ...listens);
+		}
+		return settled;
+	}
+
+	/**
+	 * An entry as the site-wide counters have it: until its release is cached,
+	 * under the release rather than the release group the client gave
+	 */
+	private static async getCountedEntry(entry: ListenEventEntry | null): Promise<ListenEventEntry | null> {
+		if (!entry?.release_group_mbid) {
+			return entry;
+		}
+
+		const provisional = await client.sismember(`${this.PROVISIONAL_RELEASE_GROUP_PREFIX}${entry.album_mbid}`, `${entry.username}:${entry.date}`);
+		return provisional ? this.withoutReleaseGroup(entry) : entry;
+	}
+
+	private static withoutReleaseGroup(entry: ListenEventEntry): ListenEventEntry {
+		const { release_group_mbid: _, ...rest } = entry;
+		return rest;
+	}
+
+	/**
+	 * Move a listen and its rating from an entry's old release group to its new
+	 * one, in the live counters or in those a recount is building
+	 */
+	private static async updateReleaseGroupCounters(
+		previous: ListenEventEntry | null,
+		next: ListenEventEntry | null,
+		[listensKey, ratingsKey, ratedKey]: string[] = [this.RELEASE_GROUP_LISTENS_KEY, this.RELEASE_GROUP_RATINGS_KEY, this.RELEASE_GROUP_RATED_KEY]
+	): Promise<void> {
+		if (listensKey === this.RELEASE_GROUP_LISTENS_KEY && (previous || next)) {
+			await client.incr(this.RELEASE_GROUP_COUNTERS_VERSION_KEY);
+		}
+
+		// Releases whose group isn't known count under their own MBID
+		if (previous) {
+			const group = previous.release_group_mbid ?? previous.album_mbid;
+			const count = await client.zincrby(listensKey, -1, group);
+			if (count <= 0) {
+				await client.zrem(listensKey, group);
+			}
+			// Only rated listens are in the rating sum
+			if (previous.rating !== undefined) {
+				await client.hincrby(ratingsKey, group, -Math.round(previous.rating * 10));
+				const rated = await client.hincrby(ratedKey, group, -1);
+				if (count <= 0 || rated <= 0) {
+					await client.hdel(ratingsKey, group);
+					await client.hdel(ratedKey, group);
+				}
+			}
+		}
+
+		if (next) {
+			const group = next.release_group_mbid ?? next.album_mbid;
+			await client.zincrby(listensKey, 1, group);
+			if (next.rating !== undefined) {
+				await client.hincrby(ratingsKey, group, Math.round(next.rating * 10));
+				await client.hincrby(ratedKey, group, 1);
+			}
+		}
+	}
+
+	/**
+	 * Every key matching a pattern, walked with SCAN so Redis isn't blocked like with KEYS
+	 */
+	private static async scanKeys(pattern: string): Promise<string[]> {
+		const keys: string[] = [];
+		let cursor = "0";
+		do {
+			const [next, batch] = await client.send("SCAN", [cursor, "MATCH", pattern, "COUNT", "500"]) as [string, string[]];
+			keys.push(...batch);
+			cursor = next;
+		} while (cursor !== "0");
+
+		return keys;
+	}
+
+	/**
+	 * Look up cached album metadata for a set of MBIDs, skipping uncached albums
+	 */
+	private static async getCachedAlbums(albumMbids: string[]): Promise<Map<string, Album>> {
+		const uniqueMbids = [...new Set(albumMbids)];
+		const albumData = await Promise.all(uniqueMbids.map(mbid => client.get(`album:${mbid}`)));
+
+		const albums = new Map<string, Album>();
+		uniqueMbids.forEach((mbid, index) => {
+			const data = albumData[index];
+			if (data) {
+				albums.set(mbid, JSON.parse(data) as Album);
+			}
+		});
+
+		return albums;
+	}
+
+	private static indexKey(username: string): string {
+		return `${this.INDEX_PREFIX}${username}`;
+	}
+
+	/**
+	 * Convert a stored hash into a ListenEvent entry
+	 */
+	private static parseEntry(entryData: Record<string, string>): ListenEventEntry {
+		return {
+			username: entryData.username,
+			date: entryData.date,
+			album_mbid: entryData.album_mbid,
+			...(entryData.release_group_mbid ? { release_group_mbid: entryData.release_group_mbid } : {}),
+			...(entryData.rating ? { rating: parseFloat(entryData.rating) } : {}),
+			favorite_track: entryData.favorite_track,
+			...(entryData.favorite_track_mbid
+				? {
+					favorite_track_ref: {
+						recording_mbid: entryData.favorite_track_mbid,
+						position: parseInt(entryData.favorite_track_position),
+						track_count: parseInt(entryData.favorite_track_count),
+					},
+				}
+				: {}),
+			notes: entryData.notes,
+			created_at: entryData.created_at,
+			updated_at: entryData.updated_at || undefined,
+		};
 	}
 }
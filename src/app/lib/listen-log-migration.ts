@@ -0,0 +1,155 @@
+import { getRedisClient } from "./redis-client";
+import { AuthUtils } from "./auth-utils";
+import { ListenEventEntries } from "./listen-event-entries";
+
+const client = getRedisClient();
+
+// Shape of the records written by the old per-user-id album tracker
+interface LegacyUserAlbum {
+	userId: string;
+	albumId: string;
+	date: string; // YYYY-MM-DD
+	rating?: number; // 1-5
+	notes?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface ListenLogConflict {
+	username: string;
+	date: string;
+	listenEventAlbumMbid: string;
+	legacyAlbumMbid: string;
+}
+
+export interface ListenLogMigrationReport {
+	scanned: number;
+	migrated: number;
+	merged: number;
+	conflicts: ListenLogConflict[];
+	orphaned: string[]; // legacy keys whose user no longer exists
+	legacyKeysDeleted: number;
+}
+
+export interface ListenLogMigrationOptions {
+	dryRun?: boolean;
+	deleteLegacyKeys?: boolean;
+}
+
+// One-shot migration from the user_album:{userId}:{date} layout into ListenEvent:{username}:{date}
+export class ListenLogMigration {
+	private static readonly LEGACY_ALBUM_PREFIX = "user_album:";
+	private static readonly LEGACY_CALENDAR_PREFIX = "user_calendar:";
+	private static readonly LEGACY_STATS_PREFIX = "user_stats:";
+
+	/**
+	 * Merge every legacy user album into the listen log.
+	 *
+	 * Existing ListenEvent entries always win: if both layouts have the same
+	 * album for a day, only empty notes are filled in from the legacy record;
+	 * if the albums differ, the day is reported as a conflict and left alone.
+	 */
+	static async run(options: ListenLogMigrationOptions = {}): Promise<ListenLogMigrationReport> {
+		const { dryRun = false, deleteLegacyKeys = false } = options;
+
+		const report: ListenLogMigrationReport = {
+			scanned: 0,
+			migrated: 0,
+			merged: 0,
+			conflicts: [],
+			orphaned: [],
+			legacyKeysDeleted: 0,
+		};
+
+		const legacyKeys = await client.keys(`${this.LEGACY_ALBUM_PREFIX}*`);
+		const usernames = new Map<string, string | null>();
+		const migratedUserIds = new Set<string>();
+		const conflictedUserIds = new Set<string>(); // their legacy days are still needed to resolve the conflicts
+
+		for (const key of legacyKeys) {
+			const legacyData = await client.get(key);
+			if (!legacyData) {
+				continue;
+			}
+
+			report.scanned++;
+			const legacy = JSON.parse(legacyData) as LegacyUserAlbum;
+
+			if (!usernames.has(legacy.userId)) {
+				const user = await AuthUtils.getUserById(legacy.userId);
+				usernames.set(legacy.userId, user ? user.username : null);
+			}
+
+			const username = usernames.get(legacy.userId);
+			if (!username) {
+				report.orphaned.push(key);
+				continue;
+			}
+
+			const existing = await ListenEventEntries.getListenEventEntry(username, legacy.date);
+
+			if (existing && existing.album_mbid !== legacy.albumId) {
+				report.conflicts.push({
+					username,
+					date: legacy.date,
+					listenEventAlbumMbid: existing.album_mbid,
+					legacyAlbumMbid: legacy.albumId,
+				});
+				conflictedUserIds.add(legacy.userId);
+				continue;
+			}
+
+			if (existing) {
+				if (!existing.notes && legacy.notes && !dryRun) {
+					await ListenEventEntries.updateListenEventEntry(username, legacy.date, {
+						notes: legacy.notes,
+					});
+				}
+				report.merged++;
+			} else {
+				if (!dryRun) {
+					await ListenEventEntries.addOrUpdateListenEventEntry(
+						username,
+						legacy.date,
+						legacy.albumId,
+						this.convertRating(legacy.rating),
+						"",
+						legacy.notes || ""
+					);
+				}
+				report.migrated++;
+			}
+
+			migratedUserIds.add(legacy.userId);
+
+			if (deleteLegacyKeys && !dryRun) {
+				report.legacyKeysDeleted += await client.del(key);
+			}
+		}
+
+		// Calendar and stats hashes were derived from user_album keys, so they go with
+		// them, except for users who still have conflicts to resolve
+		if (deleteLegacyKeys && !dryRun) {
+			for (const userId of migratedUserIds) {
+				if (conflictedUserIds.has(userId)) {
+					continue;
+				}
+				report.legacyKeysDeleted += await client.del(`${this.LEGACY_CALENDAR_PREFIX}${userId}`);
+				report.legacyKeysDeleted += await client.del(`${this.LEGACY_STATS_PREFIX}${userId}`);
+			}
+		}
+
+		return report;
+	}
+
+	/**
+	 * Map a legacy 1-5 rating onto the 0-10 scale; unrated albums stay unrated
+	 */
+	static convertRating(rating?: number | null): number | undefined {
+		if (rating === undefined || rating === null || !Number.isFinite(rating)) {
+			return undefined;
+		}
+
+		return Math.min(10, Math.max(0, rating * 2));
+	}
+}
@@ -0,0 +1,199 @@
+import { Album } from "./music-storage";
+import type { FavoriteTrackReference } from "./listen-event-entries";
+import { getReleaseGroupKey } from "./release-groups";
+
+// Minimal view of a listen needed for aggregation
+export interface ListenStatsEntry {
+  date: string; // YYYY-MM-DD
+  album_mbid: string;
+  release_group_mbid?: string;
+  rating?: number; // absent when unrated
+  notes: string;
+  favorite_track?: string;
+  favorite_track_ref?: FavoriteTrackReference;
+}
+
+export interface RatingBucket {
+  rating: number; // 0, 0.5, 1, ... 10
+  count: number;
+}
+
+export interface ArtistStat {
+  artistId: string;
+  artistName: string;
+  count: number;
+  averageRating: number; // over rated listens, 0 when none are rated
+}
+
+// Listens of one album across all of its editions
+export interface RelistenedAlbum {
+  release_group_mbid: string | null; // null when the group isn't known yet
+  album_mbid: string; // the edition logged most recently
+  album: Album | null;
+  count: number;
+  dates: string[];
+}
+
+export interface FavoriteTrackStat {
+  recording_mbid: string;
+  title: string;
+  album_mbid: string;
+  count: number;
+}
+
+// Where on the album favorite tracks sit; one-track albums count as openers
+export type FavoriteTrackPosition = "opener" | "middle" | "closer";
+
+export type FavoriteTrackPositionCounts = Record<FavoriteTrackPosition, number>;
+
+export interface ListenStatsBreakdown {
+  ratingDistribution: RatingBucket[];
+  topArtistsByCount: ArtistStat[];
+  topArtistsByRating: ArtistStat[];
+  decades: Record<string, number>; // "1970s" -> listens
+  listensByWeekday: Record<string, number>; // "Monday" -> listens
+  listensByMonth: Record<string, number>; // "2025-01" -> listens
+  averageNotesLength: number; // characters, over listens that have notes
+  uniqueAlbums: number; // distinct release groups, so editions of one album count once
+  mostRelistenedAlbum: RelistenedAlbum | null;
+  topFavoriteTracks: FavoriteTrackStat[]; // only favorites picked from a tracklist
+  favoriteTrackPositions: FavoriteTrackPositionCounts;
+}
+
+export const TOP_ARTISTS_LIMIT = 10;
+export const TOP_FAVORITE_TRACKS_LIMIT = 10;
+// Artists need this many rated listens before they are ranked by average rating
+export const MIN_LISTENS_FOR_ARTIST_RATING = 2;
+
+/**
+ * Classify a favorite track by its place in the album's tracklist
+ */
+export function getFavoriteTrackPosition(reference: FavoriteTrackReference): FavoriteTrackPosition {
+  if (reference.position <= 1) {
+    return "opener";
+  }
+
+  return reference.position >= reference.track_count ? "closer" : "middle";
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Aggregate listens into the statistics breakdown, looking up artist and
+ * release year from cached album metadata (listens whose album isn't cached
+ * are left out of the artist and decade figures; unrated listens are left out
+ * of the rating figures)
+ */
+export function calculateListenStats(
+  entries: ListenStatsEntry[],
+  albums: Map<string, Album>
+): ListenStatsBreakdown {
+  const ratingCounts = new Map<number, number>();
+  const artists = new Map<string, { artistName: string; count: number; rated: number; ratingSum: number }>();
+  const decades: Record<string, number> = {};
+  const listensByWeekday: Record<string, number> = Object.fromEntries(WEEKDAYS.map(day => [day, 0]));
+  const listensByMonth: Record<string, number> = {};
+  const albumListens = new Map<string, ListenStatsEntry[]>(); // by release group
+  const favoriteTracks = new Map<string, FavoriteTrackStat>();
+  const favoriteTrackPositions: FavoriteTrackPositionCounts = { opener: 0, middle: 0, closer: 0 };
+  let notesLengthSum = 0;
+  let notesCount = 0;
+
+  for (const entry of entries) {
+    if (entry.rating !== undefined) {
+      const bucket = Math.min(10, Math.max(0, Math.round(entry.rating * 2) / 2));
+      ratingCounts.set(bucket, (ratingCounts.get(bucket) ?? 0) + 1);
+    }
+
+    const [year, month, day] = entry.date.split("-").map(Number);
+    const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+    listensByWeekday[weekday]++;
+
+    const monthKey = entry.date.slice(0, 7);
+    listensByMonth[monthKey] = (listensByMonth[monthKey] ?? 0) + 1;
+
+    const notes = entry.notes?.trim() ?? "";
+    if (notes) {
+      notesLengthSum += notes.length;
+      notesCount++;
+    }
+
+    if (entry.favorite_track_ref) {
+      const { recording_mbid } = entry.favorite_track_ref;
+      const favorite = favoriteTracks.get(recording_mbid)
+        ?? { recording_mbid, title: entry.favorite_track ?? "", album_mbid: entry.album_mbid, count: 0 };
+      favorite.count++;
+      favoriteTracks.set(recording_mbid, favorite);
+      favoriteTrackPositions[getFavoriteTrackPosition(entry.favorite_track_ref)]++;
+    }
+
+    const groupKey = getReleaseGroupKey(entry, albums);
+    albumListens.set(groupKey, [...(albumListens.get(groupKey) ?? []), entry]);
+
+    const album = albums.get(entry.album_mbid);
+    if (!album) {
+      continue;
+    }
+
+    const artist = artists.get(album.artistId) ?? { artistName: album.artistName, count: 0, rated: 0, ratingSum: 0 };
+    artist.count++;
+    if (entry.rating !== undefined) {
+      artist.rated++;
+      artist.ratingSum += entry.rating;
+    }
+    artists.set(album.artistId, artist);
+
+    const releaseYear = parseInt(album.releaseDate?.slice(0, 4) ?? "");
+    if (!isNaN(releaseYear)) {
+      const decade = `${Math.floor(releaseYear / 10) * 10}s`;
+      decades[decade] = (decades[decade] ?? 0) + 1;
+    }
+  }
+
+  const artistStats: ArtistStat[] = [...artists.entries()].map(([artistId, artist]) => ({
+    artistId,
+    artistName: artist.artistName,
+    count: artist.count,
+    averageRating: artist.rated > 0 ? artist.ratingSum / artist.rated : 0,
+  }));
+
+  let mostRelistenedAlbum: RelistenedAlbum | null = null;
+  for (const [groupKey, listens] of albumListens) {
+    if (listens.length > 1 && (!mostRelistenedAlbum || listens.length > mostRelistenedAlbum.count)) {
+      const latest = listens.reduce((a, b) => (b.date > a.date ? b : a));
+      const isReleaseGroup = groupKey !== latest.album_mbid || albums.get(latest.album_mbid)?.releaseGroupId === groupKey;
+
+      mostRelistenedAlbum = {
+        release_group_mbid: isReleaseGroup ? groupKey : null,
+        album_mbid: latest.album_mbid,
+        album: albums.get(latest.album_mbid) ?? null,
+        count: listens.length,
+        dates: listens.map(listen => listen.date).sort(),
+      };
+    }
+  }
+
+  return {
+    ratingDistribution: Array.from({ length: 21 }, (_, index) => ({
+      rating: index / 2,
+      count: ratingCounts.get(index / 2) ?? 0,
+    })),
+    topArtistsByCount: [...artistStats]
+      .sort((a, b) => b.count - a.count || b.averageRating - a.averageRating)
+      .slice(0, TOP_ARTISTS_LIMIT),
+    topArtistsByRating: artistStats
+      .filter(artist => (artists.get(artist.artistId)?.rated ?? 0) >= MIN_LISTENS_FOR_ARTIST_RATING)
+      .sort((a, b) => b.averageRating - a.averageRating || b.count - a.count)
+      .slice(0, TOP_ARTISTS_LIMIT),
+    decades: Object.fromEntries(Object.entries(decades).sort(([a], [b]) => a.localeCompare(b))),
+    listensByWeekday,
+    listensByMonth: Object.fromEntries(Object.entries(listensByMonth).sort(([a], [b]) => a.localeCompare(b))),
+    averageNotesLength: notesCount > 0 ? notesLengthSum / notesCount : 0,
+    uniqueAlbums: albumListens.size,
+    mostRelistenedAlbum,
+    topFavoriteTracks: [...favoriteTracks.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_FAVORITE_TRACKS_LIMIT),
+    favoriteTrackPositions,
+  };
+}
@@ -0,0 +1,21 @@
+// Listen entry validation shared by the API routes and client-side forms
+
+/**
+ * Validate rating is within acceptable range (0-10)
+ */
+export function validateRating(rating: number): boolean {
+  return Number.isFinite(rating) && rating >= 0 && rating <= 10;
+}
+
+/**
+ * Validate date format (YYYY-MM-DD)
+ */
+export function validateDate(date: string): boolean {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(date)) {
+    return false;
+  }
+
+  const parsedDate = new Date(date);
+  return !isNaN(parsedDate.getTime()) && date === parsedDate.toISOString().split('T')[0];
+}
@@ -1,4 +1,5 @@
 import { getRedisClient } from "./redis-client";
+import { type SearchQuery, toRediSearchQuery } from "./search-query";
 
 const client = getRedisClient();
 
@@ -14,14 +15,21 @@ export interface Album {
   localArtPath?: string;
   tracks?: Track[];
   releaseGroupId?: string; // MusicBrainz release group MBID
+  status?: string; // MusicBrainz release status, e.g. "Official"
+  type?: string; // release group primary type, e.g. "Album", "EP"
+  enrichedAt?: number; // epoch ms the background worker last refreshed it from MusicBrainz
 }
 
 export interface Track { // stored in albums in Redis
-	id: string;
+	id: string; // MusicBrainz track MBID
 	title: string;
 	releaseId: string;
 	artistName: string;
 	artistID: string;
+	discNumber: number; // medium position, starting at 1
+	position: number; // position on its disc, starting at 1
+	length?: number; // milliseconds
+	recordingId: string; // MusicBrainz recording MBID
 }
 
 export interface ReleaseGroup {
@@ -30,6 +38,7 @@ export interface ReleaseGroup {
   artist: string;
   artistId: string;
   type?: string; // e.g., "Album", "Single", "EP"
+  secondaryTypes?: string[]; // e.g., "Live", "Compilation", "Soundtrack"
   firstReleaseDate?: string;
 }
 
@@ -40,6 +49,17 @@ export interface Artist {
   disambiguation?: string;
 }
 
+// Album as returned by a search, before ranking
+export interface SearchCandidate extends Album {
+  score?: number; // MusicBrainz relevance, 0-100
+}
+
+// Search-as-you-type completion
+export interface Suggestion {
+  text: string;
+  kind: "title" | "artist";
+}
+
 // Search result interface
 export interface SearchResult {
   albums: Album[];
@@ -47,12 +67,106 @@ export interface SearchResult {
   total: number;
 }
 
+// MusicBrainz lookups cached through MusicStorage.getOrFetch
+export type MusicBrainzEntity = "release" | "release-group" | "editions" | "artist" | "discography" | "front-image";
+
+export interface CachePolicy {
+  freshFor: number; // seconds an entry is served without checking upstream
+  staleFor: number; // further seconds it is still served while being refreshed in the background
+  missingFor: number; // seconds a "not found" answer is remembered
+}
+
+const DAY = 24 * 60 * 60;
+
+export const MUSICBRAINZ_CACHE_POLICIES: Record<MusicBrainzEntity, CachePolicy> = {
+  release: { freshFor: 30 * DAY, staleFor: 335 * DAY, missingFor: DAY }, // tracklists rarely change
+  "release-group": { freshFor: 7 * DAY, staleFor: 90 * DAY, missingFor: DAY },
+  editions: { freshFor: 7 * DAY, staleFor: 90 * DAY, missingFor: DAY }, // a release group's releases; reissues keep coming
+  artist: { freshFor: 7 * DAY, staleFor: 90 * DAY, missingFor: DAY },
+  discography: { freshFor: 7 * DAY, staleFor: 90 * DAY, missingFor: DAY }, // an artist's release groups
+  "front-image": { freshFor: 30 * DAY, staleFor: 335 * DAY, missingFor: DAY }, // a release's Cover Art Archive front image; art is often uploaded later
+};
+
+interface CacheEntry<T> {
+  value: T | null; // null is a negative entry: upstream said it doesn't exist
+  fetchedAt: number;
+}
+
 // Music cache utilities
 export class MusicStorage {
   private static readonly ALBUM_PREFIX = "album:";
   private static readonly ARTIST_PREFIX = "artist:";
-  private static readonly RELEASE_GROUP_PREFIX = "release_group:";
   private static readonly SEARCH_PREFIX = "search:";
+  private static readonly ALBUM_FILTER_FIELDS = [['releaseYear', 'NUMERIC', 'SORTABLE'], ['type', 'TAG']];
+  private static albumFilterFieldsAdded = false;
+  private static readonly SUGGESTION_KEYS: Record<Suggestion["kind"], string> = {
+    title: "suggest:titles",
+    artist: "suggest:artists",
+  };
+  // Sorted sets of how many times each title and artist was logged, which the suggestions are scored by
+  private static readonly LOGGED_SUGGESTION_KEYS: Record<Suggestion["kind"], string> = {
+    title: "suggest:logged:titles",
+    artist: "suggest:logged:artists",
+  };
+  private static readonly LOOKUP_PREFIX = "musicbrainz:";
+  private static readonly REFRESH_LOCK_TTL = 60; // seconds
+
+  /**
+   * Cached MusicBrainz lookup. `fetcher` returns null when upstream has no such entity
+   * (cached as a negative entry) and throws on transient failures (never cached).
+   * Stale entries are returned immediately while one process refreshes them.
+   */
+  static async getOrFetch<T>(entity: MusicBrainzEntity, mbid: string, fetcher: () => Promise<T | null>): Promise<T | null> {
+    const key = `${this.LOOKUP_PREFIX}${entity}:${mbid}`;
+    const cached = await client.get(key);
+
+    if (cached) {
+      const entry = JSON.parse(cached) as CacheEntry<T>;
+      const isFresh = Date.now() - entry.fetchedAt < MUSICBRAINZ_CACHE_POLICIES[entity].freshFor * 1000;
+
+      // Negative entries are never stale, they simply expire
+      if (!isFresh && entry.value !== null) {
+        void this.revalidate(entity, mbid, fetcher);
+      }
+      return entry.value;
+    }
+
+    return this.fetchAndStore(entity, mbid, fetcher);
+  }
+
+  /**
+   * Drop a cached lookup so the next request goes upstream
+   */
+  static async invalidateLookup(entity: MusicBrainzEntity, mbid: string): Promise<void> {
+    await client.del(`${this.LOOKUP_PREFIX}${entity}:${mbid}`);
+  }
+
+  private static async fetchAndStore<T>(entity: MusicBrainzEntity, mbid: string, fetcher: () => Promise<T | null>): Promise<T | null> {
+    const value = await fetcher();
+    const policy = MUSICBRAINZ_CACHE_POLICIES[entity];
+    const entry: CacheEntry<T> = { value, fetchedAt: Date.now() };
+    const ttl = value === null ? policy.missingFor : policy.freshFor + policy.staleFor;
+
+    await client.set(`${this.LOOKUP_PREFIX}${entity}:${mbid}`, JSON.stringify(entry), "EX", ttl);
+    return value;
+  }
+
+  private static async revalidate<T>(entity: MusicBrainzEntity, mbid: string, fetcher: () => Promise<T | null>): Promise<void> {
+    try {
+      // Only one process refreshes a given entry
+      const lockKey = `${this.LOOKUP_PREFIX}refreshing:${entity}:${mbid}`;
+      const locked = await client.set(lockKey, "1", "EX", this.REFRESH_LOCK_TTL.toString(), "NX");
+      if (!locked) {
+        return;
+      }
+
+      await this.fetchAndStore(entity, mbid, fetcher);
+      await client.del(lockKey);
+    } catch (error) {
+      // Keep serving the stale entry; the lock expires and a later request retries
+      console.error(`[MUSIC STORAGE] Failed to refresh ${entity} ${mbid}:`, error);
+    }
+  }
 
   /**
    * Cache album data
@@ -65,13 +179,19 @@ export class MusicStorage {
     await client.set(albumKey, JSON.stringify(album));
     
     // Store as separate hash for Redisearch indexing
+    const releaseYear = album.releaseDate ? parseInt(album.releaseDate.slice(0, 4), 10) : NaN;
     await client.send("HSET", [
       albumHashKey,
       'title', album.title,
       'artistName', album.artistName,
       'id', album.id,
-      'artistId', album.artistId
+      'artistId', album.artistId,
+      ...(isNaN(releaseYear) ? [] : ['releaseYear', releaseYear.toString()]),
+      ...(album.type ? ['type', album.type] : []),
     ]);
+
+    await this.addSuggestion("title", album.title);
+    await this.addSuggestion("artist", album.artistName);
   }
 
   /**
@@ -86,6 +206,19 @@ export class MusicStorage {
     return JSON.parse(albumData) as Album;
   }
 
+  /**
+   * Remember where a cached album's artwork was saved under /public
+   */
+  static async recordLocalArtPath(albumId: string, localArtPath: string): Promise<void> {
+    for (const key of [`${this.ALBUM_PREFIX}${albumId}`, `${this.ALBUM_PREFIX}mbid:${albumId}`]) {
+      const albumData = await client.get(key);
+      const album = albumData ? (JSON.parse(albumData) as Album) : null;
+      if (album && album.localArtPath !== localArtPath) {
+        await client.set(key, JSON.stringify({ ...album, localArtPath }));
+      }
+    }
+  }
+
   /**
    * Cache album by MusicBrainz ID
    */
@@ -120,6 +253,15 @@ export class MusicStorage {
    */
   static async cacheArtist(artist: Artist): Promise<void> {
     await client.set(`${this.ARTIST_PREFIX}${artist.id}`, JSON.stringify(artist));
+
+    // Store as separate hash for Redisearch indexing
+    await client.send("HSET", [
+      `${this.ARTIST_PREFIX}hash:${artist.id}`,
+      'name', artist.name,
+      'id', artist.id,
+    ]);
+
+    await this.addSuggestion("artist", artist.name);
   }
 
   /**
@@ -173,7 +315,8 @@ export class MusicStorage {
         'title',
         'TEXT',
         'artistName',
-        'TEXT'
+        'TEXT',
+        ...this.ALBUM_FILTER_FIELDS.flat()
       ]);
       
       console.log(`[REDIS SEARCH] Album search index created successfully`);
@@ -181,6 +324,7 @@ export class MusicStorage {
       // Index might already exist, which is fine
       if (error instanceof Error && error.message.includes('already exists')) {
         console.log(`[REDIS SEARCH] Album search index already exists`);
+        await this.addAlbumFilterFields();
       } else {
         console.error(`[REDIS SEARCH] Error creating album index:`, error);
         throw error;
@@ -189,19 +333,35 @@ export class MusicStorage {
   }
 
   /**
-   * Perform fuzzy search on albums using Redisearch FT.SEARCH
+   * Add the filter fields to an album index created before they existed
+   */
+  private static async addAlbumFilterFields(): Promise<void> {
+    if (this.albumFilterFieldsAdded) {
+      return;
+    }
+
+    for (const field of this.ALBUM_FILTER_FIELDS) {
+      try {
+        await client.send("FT.ALTER", ['album_idx', 'SCHEMA', 'ADD', ...field]);
+      } catch (error) {
+        if (!(error instanceof Error && error.message.includes('Duplicate'))) {
+          throw error;
+        }
+      }
+    }
+    this.albumFilterFieldsAdded = true;
+  }
+
+  /**
+   * Search albums using Redisearch FT.SEARCH: fuzzy on the title for free text,
+   * plus any artist:, title:, year: and type: filters
    */
-  static async searchAlbums(query: string, limit: number = 50): Promise<Album[]> {
+  static async searchAlbums(query: SearchQuery, limit: number = 50): Promise<Album[]> {
     try {
       // Try to create the index first (will be skipped if it already exists)
       await this.createAlbumIndex();
       
-      // Escape special characters in the query for Redisearch
-      const escapedQuery = query.replace(/[.<>!"(){}[\]^*~?:\\]/g, '\\$&');
-      
-      // Execute Redisearch query with fuzzy matching on title field
-      // Using % for wildcard matching on both sides of the query
-      const searchQuery = `@title:%${escapedQuery}%`;
+      const searchQuery = toRediSearchQuery(query);
       
       console.log(`[REDIS SEARCH] Executing FT.SEARCH album_idx "${searchQuery}" WITHSCORES LIMIT 0 ${limit}`);
       
@@ -227,7 +387,6 @@ export class MusicStorage {
       // Parse each result entry
       for (let i = 1; i < result.length; i++) {
         const id = result[i];
-        const score = result[i + 1];
         
         // Skip if this is not an album hash key
         if (!id.startsWith(`${this.ALBUM_PREFIX}hash:`)) {
@@ -258,6 +417,173 @@ export class MusicStorage {
     }
   }
 
+  /**
+   * Create Redisearch index for artists if it doesn't exist
+   */
+  static async createArtistIndex(): Promise<void> {
+    try {
+      await client.send("FT.CREATE", [
+        'artist_idx',
+        'ON',
+        'HASH',
+        'PREFIX',
+        '1',
+        `${this.ARTIST_PREFIX}hash:`,
+        'SCHEMA',
+        'name',
+        'TEXT'
+      ]);
+
+      console.log(`[REDIS SEARCH] Artist search index created successfully`);
+    } catch (error) {
+      // Index might already exist, which is fine
+      if (!(error instanceof Error && error.message.includes('already exists'))) {
+        console.error(`[REDIS SEARCH] Error creating artist index:`, error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Fuzzy search on cached artists' names using Redisearch FT.SEARCH
+   */
+  static async searchArtists(name: string, limit: number = 5): Promise<Artist[]> {
+    try {
+      await this.createArtistIndex();
+
+      const escapedName = name.replace(/[.<>!"(){}[\]^*~?:\\]/g, '\\$&');
+      const result = await client.send("FT.SEARCH", [
+        'artist_idx',
+        `@name:%${escapedName}%`,
+        'NOCONTENT',
+        'LIMIT',
+        '0',
+        limit.toString()
+      ]);
+
+      // Format with NOCONTENT: [totalResults, id1, id2, ...]
+      const artists: Artist[] = [];
+      for (const key of (result ?? []).slice(1) as string[]) {
+        const artist = await this.getCachedArtist(key.replace(`${this.ARTIST_PREFIX}hash:`, ''));
+        if (artist) {
+          artists.push(artist);
+        }
+      }
+
+      return artists;
+    } catch (error) {
+      console.error('[REDIS SEARCH] Error searching artists:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a title or artist name to the search-as-you-type dictionaries, scored
+   * one plus the times it was logged (counting this time when `logged`), so
+   * caching it again changes nothing and a rebuild gives the same scores
+   */
+  private static async addSuggestion(kind: Suggestion["kind"], text: string, logged: boolean = false): Promise<void> {
+    if (!text) {
+      return;
+    }
+
+    try {
+      const timesLogged = logged
+        ? await client.zincrby(this.LOGGED_SUGGESTION_KEYS[kind], 1, text)
+        : await client.zscore(this.LOGGED_SUGGESTION_KEYS[kind], text) ?? 0;
+      await client.send("FT.SUGADD", [this.SUGGESTION_KEYS[kind], text, (1 + timesLogged).toString()]);
+    } catch (error) {
+      // Suggestions are a convenience; caching the album itself already succeeded
+      console.error(`[REDIS SEARCH] Error adding ${kind} suggestion "${text}":`, error);
+    }
+  }
+
+  /**
+   * Rank a logged album's title and artist higher in the suggestions
+   */
+  static async recordLoggedAlbum(albumId: string): Promise<void> {
+    const album = await this.getCachedAlbum(albumId);
+    if (album) {
+      await this.addSuggestion("title", album.title, true);
+      await this.addSuggestion("artist", album.artistName, true);
+    }
+  }
+
+  /**
+   * Top title and artist completions for what has been typed so far
+   */
+  static async getSuggestions(prefix: string, max: number = 8): Promise<Suggestion[]> {
+    try {
+      const kinds = Object.keys(this.SUGGESTION_KEYS) as Suggestion["kind"][];
+      const replies = await Promise.all(kinds.map(kind =>
+        client.send("FT.SUGGET", [this.SUGGESTION_KEYS[kind], prefix, 'WITHSCORES', 'MAX', max.toString()])
+      ));
+
+      // Each reply is [text1, score1, text2, score2, ...]
+      const scored: (Suggestion & { score: number })[] = [];
+      replies.forEach((reply, index) => {
+        const entries = (reply ?? []) as string[];
+        for (let i = 0; i + 1 < entries.length; i += 2) {
+          scored.push({ text: entries[i], kind: kinds[index], score: parseFloat(entries[i + 1]) });
+        }
+      });
+
+      return scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, max)
+        .map(({ text, kind }) => ({ text, kind }));
+    } catch (error) {
+      console.error('[REDIS SEARCH] Error getting suggestions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Refill the suggestion dictionaries from every cached album and artist,
+   * with the scores they had
+   */
+  static async rebuildSuggestions(): Promise<number> {
+    const keys = [
+      ...await this.scanKeys(`${this.ALBUM_PREFIX}*`),
+      ...await this.scanKeys(`${this.ARTIST_PREFIX}*`),
+    ].filter(key => !/^(album|artist):(hash|mbid):/.test(key));
+    await client.del(...Object.values(this.SUGGESTION_KEYS));
+
+    let count = 0;
+    for (const key of keys) {
+      const data = await client.get(key);
+      if (!data) {
+        continue;
+      }
+
+      if (key.startsWith(this.ALBUM_PREFIX)) {
+        const album = JSON.parse(data) as Album;
+        await this.addSuggestion("title", album.title);
+        await this.addSuggestion("artist", album.artistName);
+      } else {
+        await this.addSuggestion("artist", (JSON.parse(data) as Artist).name);
+      }
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Every key matching a pattern, walked with SCAN so Redis isn't blocked like with KEYS
+   */
+  private static async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await client.send("SCAN", [cursor, 'MATCH', pattern, 'COUNT', '500']) as [string, string[]];
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+
+    return keys;
+  }
+
   /**
    * Cache search results
    */
@@ -1,11 +1,57 @@
-import { Album, Artist, ReleaseGroup, MusicStorage } from "./music-storage";
-import { downloadAndSaveArtwork } from "./artwork-storage";
+import { Album, Artist, ReleaseGroup, MusicStorage, SearchCandidate, Track } from "./music-storage";
+import { type ArtworkFormat, type ArtworkSize, downloadAndSaveArtwork, findArtworkVariant, findLocalArtwork, type LocalArtwork, saveArtworkVariant } from "./artwork-storage";
+import { JobQueue } from "./job-queue";
+import { ListenEventEntries } from "./listen-event-entries";
+import { getMusicBrainzLookupPath } from "./musicbrainz-lookups";
+import { MusicBrainzQueue } from "./musicbrainz-queue";
+import { compareEditions, pickPreferredEdition } from "./release-groups";
 import { NextResponse } from "next/server";
 
-const MUSICBRAINZ_API_BASE = "https://musicbrainz.org/ws/2/";
-const RELEASE_API_BASE = `${MUSICBRAINZ_API_BASE}release/`;
-const RELEASE_GROUP_API_BASE = `${MUSICBRAINZ_API_BASE}release-group/`;
-const COVER_ART_ARCHIVE_BASE = "https://coverartarchive.org";
+const DEFAULT_MUSICBRAINZ_API_BASE = "https://musicbrainz.org/ws/2/";
+const DEFAULT_COVER_ART_ARCHIVE_BASE = "https://coverartarchive.org";
+
+/**
+ * MusicBrainz API base URL, overridable with MUSICBRAINZ_API_URL (e.g. to point tests at a local stand-in)
+ */
+export function getMusicBrainzApiBase(): string {
+  const base = process.env.MUSICBRAINZ_API_URL || DEFAULT_MUSICBRAINZ_API_BASE;
+  return base.endsWith("/") ? base : `${base}/`;
+}
+
+/**
+ * Cover Art Archive base URL, overridable with COVER_ART_ARCHIVE_URL
+ */
+export function getCoverArtArchiveBase(): string {
+  return (process.env.COVER_ART_ARCHIVE_URL || DEFAULT_COVER_ART_ARCHIVE_BASE).replace(/\/+$/, "");
+}
+
+// Width in pixels of the cover art thumbnail used when no size is asked for
+export const DEFAULT_ARTWORK_SIZE = 500;
+
+// One image in a release's Cover Art Archive listing
+export interface CoverArtArchiveImage {
+  image: string; // the original upload, of any size
+  front: boolean;
+  thumbnails?: Record<string, string>; // "250", "500", "1200"; older listings also "small" (250) and "large" (500)
+}
+
+const THUMBNAIL_ALIASES: Record<string, string> = { small: "250", large: "500" };
+
+function listThumbnails(image: CoverArtArchiveImage): { width: number; url: string }[] {
+  return Object.entries(image.thumbnails ?? {}).map(([key, url]) => ({ width: parseInt(THUMBNAIL_ALIASES[key] ?? key, 10), url }));
+}
+
+/**
+ * The smallest of an image's thumbnails at least `size` pixels wide, or the
+ * original when none is big enough
+ */
+export function pickCoverArtThumbnail(image: CoverArtArchiveImage, size: number): string {
+  const fitting = listThumbnails(image)
+    .filter(thumbnail => thumbnail.width >= size)
+    .sort((a, b) => a.width - b.width);
+
+  return fitting[0]?.url ?? image.image;
+}
 
 export interface MusicBrainzRelease {
   id: string;
@@ -17,6 +63,7 @@ export interface MusicBrainzRelease {
       name: string;
     };
   }>;
+  status?: string; // "Official", "Promotion", "Bootleg", ...
   date?: string;
   "track-count": number;
   "cover-art-archive"?: {
@@ -26,6 +73,30 @@ export interface MusicBrainzRelease {
   "release-group": {
     id: string;
   };
+  media?: Array<{
+    position: number;
+    format?: string;
+    "track-count": number;
+    tracks?: Array<{
+      id: string;
+      number: string;
+      title: string;
+      position: number;
+      length?: number | null;
+      "artist-credit"?: Array<{
+        name: string;
+        artist: {
+          id: string;
+          name: string;
+        };
+      }>;
+      recording: {
+        id: string;
+        title: string;
+        length?: number | null;
+      };
+    }>;
+  }>;
 }
 
 export interface MusicBrainzReleaseGroup {
@@ -40,11 +111,12 @@ export interface MusicBrainzReleaseGroup {
   }>;
   type?: string;
   "primary-type"?: string;
-  "secondary-type-list"?: string[];
+  "secondary-types"?: string[];
   "first-release-date"?: string;
   releases?: Array<{
     id: string;
     title: string;
+    status?: string; // "Official", "Promotion", "Bootleg", ...
     date?: string;
     "track-count": number;
     "artist-credit"?: Array<{
@@ -57,6 +129,13 @@ export interface MusicBrainzReleaseGroup {
   }>;
 }
 
+// Browse response: one page of an artist's release groups
+export interface MusicBrainzReleaseGroupBrowse {
+  "release-group-count": number;
+  "release-group-offset": number;
+  "release-groups": MusicBrainzReleaseGroup[];
+}
+
 export interface MusicBrainzArtist {
   id: string;
   name: string;
@@ -67,6 +146,7 @@ export interface MusicBrainzArtist {
 export interface MusicBrainzSearchResponse {
   releases?: Array<{
     id: string;
+    score?: number; // relevance, 0-100
     title: string;
     "artist-credit": Array<{
       name: string;
@@ -75,6 +155,7 @@ export interface MusicBrainzSearchResponse {
         name: string;
       };
     }>;
+    status?: string;
     date?: string;
     "track-count": number;
     "release-group": {
@@ -91,71 +172,101 @@ export interface MusicBrainzSearchResponse {
   count: number;
 }
 
+// Non-2xx response from MusicBrainz (after retries)
+export class MusicBrainzApiError extends Error {
+  constructor(public readonly status: number, statusText: string) {
+    super(`MusicBrainz API error: ${status} ${statusText}`);
+    this.name = "MusicBrainzApiError";
+  }
+}
+
 export class MusicBrainzClient {
   private static readonly USER_AGENT = "AlbumADay/0.0.1 ( https://github.com/pupperpowell/album-a-day )";
-  private static readonly RATE_LIMIT_DELAY = 100; // 100 milliseconds between requests
-  private static readonly BURST_LIMIT = 5; // Allow up to 5 requests in quick succession
-  private static readonly BURST_WINDOW = 1000; // 1 second window for burst tracking
-  private static lastRequestTime = 0;
-  private static requestTimes: number[] = []; // Track recent request times for burst control
+  private static readonly MAX_ATTEMPTS = 4;
+  private static readonly BASE_BACKOFF = 1000; // doubled after each 429/503
+  private static readonly MAX_BACKOFF = 60000;
+  private static readonly PREFERRED_EDITION_CANDIDATES = 5; // editions checked for cover art
+  private static readonly MAX_DISCOGRAPHY_PAGES = 10; // browse requests per artist, at one a second
 
-  private static async makeRequest<T>(url: string): Promise<T> {
-    const now = Date.now();
-    
-    // Clean old request times outside the burst window
-    this.requestTimes = this.requestTimes.filter(time => now - time < this.BURST_WINDOW);
-    
-    // Check if we're in a burst
-    if (this.requestTimes.length >= this.BURST_LIMIT) {
-      // We're in a burst, wait until the oldest request is outside the window
-      const oldestRequest = this.requestTimes[0];
-      const waitTime = this.BURST_WINDOW - (now - oldestRequest);
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+  /**
+   * Delay before retrying a 429/503: the server's Retry-After when given, else exponential backoff
+   */
+  static getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get("Retry-After");
+    let delay = this.BASE_BACKOFF * 2 ** attempt;
+
+    if (retryAfter) {
+      // Either a number of seconds or an HTTP date
+      const seconds = Number(retryAfter);
+      const requested = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!Number.isNaN(requested)) {
+        delay = Math.max(requested, 0);
       }
     }
-    
-    // Apply rate limiting for non-burst requests
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.RATE_LIMIT_DELAY && this.requestTimes.length < this.BURST_LIMIT) {
-      await new Promise(resolve => setTimeout(resolve, this.RATE_LIMIT_DELAY - timeSinceLastRequest));
-    }
 
+    return Math.min(delay, this.MAX_BACKOFF);
+  }
+
+  private static async makeRequest<T>(url: string): Promise<T> {
     try {
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": this.USER_AGENT,
-          "Accept": "application/json",
-        },
-      });
+      for (let attempt = 0; ; attempt++) {
+        // Wait for a slot in the rate limit shared by every process
+        await MusicBrainzQueue.acquire();
 
-      if (!response.ok) {
-        throw new Error(`MusicBrainz API error: ${response.status} ${response.statusText}`);
-      }
+        const response = await fetch(url, {
+          headers: {
+            "User-Agent": this.USER_AGENT,
+            "Accept": "application/json",
+          },
+        });
+
+        if ((response.status === 429 || response.status === 503) && attempt < this.MAX_ATTEMPTS - 1) {
+          const delay = this.getRetryDelay(response, attempt);
+          console.warn(`[MUSICBRAINZ] ${response.status} from MusicBrainz, retrying in ${delay}ms (attempt ${attempt + 1})`);
+          await MusicBrainzQueue.backOff(response.status, delay);
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new MusicBrainzApiError(response.status, response.statusText);
+        }
 
-      this.lastRequestTime = Date.now();
-      this.requestTimes.push(this.lastRequestTime);
-      return await response.json();
+        return await response.json();
+      }
     } catch (error) {
       console.error("MusicBrainz API request failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Request an entity by MBID, resolving to null when MusicBrainz has no such entity
+   */
+  private static async lookup<T>(url: string): Promise<T | null> {
+    try {
+      return await this.makeRequest<T>(url);
+    } catch (error) {
+      if (error instanceof MusicBrainzApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Search for releases and artists (uses single API call)
    */
   static async search(query: string, limit: number = 50): Promise<any> {
     console.log(`[MUSICBRAINZ] Starting search for query: "${query}" with limit: ${limit}`);
     const encodedQuery = encodeURIComponent(query);
-    const searchUrl = `${MUSICBRAINZ_API_BASE}release/?query=${encodedQuery}&limit=${limit}&fmt=json`;
+    const searchUrl = `${getMusicBrainzApiBase()}release/?query=${encodedQuery}&limit=${limit}&fmt=json`;
     console.log(`[MUSICBRAINZ] Search URL: ${searchUrl}`);
     
     try {
       const data = await this.makeRequest<MusicBrainzSearchResponse>(searchUrl);
       console.log(`[MUSICBRAINZ] Search response received, count: ${data.count}`);
       
-      const albums: Album[] = [];
+      const albums: SearchCandidate[] = [];
       const artists: Artist[] = [];
 
       // Process releases directly (filtering for Albums and EPs only)
@@ -181,30 +292,21 @@ export class MusicBrainzClient {
               artistId: `${artistCredit.artist.id}`,
               releaseDate: release.date,
               releaseGroupId: release["release-group"]?.id,
+              status: release.status,
+              type: release["release-group"]?.["primary-type"],
             };
 
-            // Try to get cover art for this release
+            console.log(`[MUSICBRAINZ] Adding album to results: "${album.title}" by ${album.artistName}`);
+            albums.push({ ...album, score: release.score });
+
+            // Cover art and caching happen in the background worker, for albums it hasn't enriched yet
             try {
-              console.log(`[MUSICBRAINZ] Attempting to get cover art URL for release ${release.id}`);
-              const coverArtUrl = await this.getCoverArtUrl(release.id);
-              if (coverArtUrl) {
-                album.coverArtUrl = coverArtUrl;
-                console.log(`[MUSICBRAINZ] Successfully got cover art URL for release ${release.id}: ${coverArtUrl}`);
-              } else {
-                console.log(`[MUSICBRAINZ] No cover art URL found for release ${release.id}`);
+              if (!(await MusicStorage.getCachedAlbum(album.id))?.enrichedAt) {
+                await JobQueue.enqueue("enrich-album", album.id, album);
               }
             } catch (error) {
-              console.warn(`Failed to get cover art for release ${release.id}:`, error);
-              // Continue without cover art if it fails
+              console.warn(`Failed to queue enrichment for release ${release.id}:`, error);
             }
-
-            console.log(`[MUSICBRAINZ] Adding album to results: "${album.title}" by ${album.artistName}`);
-            albums.push(album);
-            
-            // Cache the album
-            console.log(`[MUSICBRAINZ] Caching album for release ${release.id}`);
-            await MusicStorage.cacheAlbum(album);
-            console.log(`[MUSICBRAINZ] Album cached successfully`);
           }
         }
       }
@@ -240,12 +342,12 @@ export class MusicBrainzClient {
    */
   static async searchBasic(query: string, limit: number = 50): Promise<any> {
     const encodedQuery = encodeURIComponent(query);
-    const searchUrl = `${MUSICBRAINZ_API_BASE}release/?query=${encodedQuery}&limit=${limit}&fmt=json`;
+    const searchUrl = `${getMusicBrainzApiBase()}release/?query=${encodedQuery}&limit=${limit}&fmt=json`;
     
     try {
       const data = await this.makeRequest<MusicBrainzSearchResponse>(searchUrl);
       
-      const albums: Album[] = [];
+      const albums: SearchCandidate[] = [];
       const artists: Artist[] = [];
 
       // Process releases (without cover art)
@@ -253,12 +355,16 @@ export class MusicBrainzClient {
         for (const release of data.releases) {
           const artistCredit = release["artist-credit"]?.[0];
           if (artistCredit) {
-            const album: Album = {
+            const album: SearchCandidate = {
               id: `${release.id}`,
               title: release.title,
 			  artistName: artistCredit.name,
               artistId: `${artistCredit.artist.id}`,
-              releaseDate: release.date
+              releaseDate: release.date,
+              releaseGroupId: release["release-group"]?.id,
+              status: release.status,
+              type: release["release-group"]?.["primary-type"],
+              score: release.score,
             };
 
             albums.push(album);
@@ -321,71 +427,203 @@ export class MusicBrainzClient {
   }
 
   /**
-   * Get release details by MusicBrainz ID
+   * Get release details by MusicBrainz ID (cached, including releases that don't exist)
    */
   static async getRelease(mbid: string): Promise<Album | null> {
-    const releaseUrl = `${RELEASE_API_BASE}${mbid}?inc=artist-credits,recordings&fmt=json`;
-    
     try {
-      const release = await this.makeRequest<MusicBrainzRelease>(releaseUrl);
-      
-      const artistCredit = release["artist-credit"]?.[0];
-      if (!artistCredit) {
-        return null;
-      }
+      return await this.getReleaseOrThrow(mbid);
+    } catch (error) {
+      console.error("Failed to get release:", error);
+      return null;
+    }
+  }
 
-      const album: Album = {
-        id: `${release.id}`,
-        title: release.title,
-        artistName: artistCredit.name,
-        artistId: `${artistCredit.artist.id}`,
-        releaseDate: release.date,
-        releaseGroupId: release["release-group"]?.id,
-      };
+  /**
+   * Like getRelease, but throws when MusicBrainz can't be reached, so background jobs can retry
+   */
+  static async getReleaseOrThrow(mbid: string): Promise<Album | null> {
+    return MusicStorage.getOrFetch("release", mbid, () => this.fetchRelease(mbid));
+  }
 
-      // Try to get cover art
-      try {
-        const coverArtUrl = await this.getCoverArtUrl(release.id);
-        if (coverArtUrl) {
-          album.coverArtUrl = coverArtUrl;
-        }
-      } catch (error) {
-        console.warn(`Failed to get cover art for ${release.id}:`, error);
-      }
+  /**
+   * Make sure a release's tracklist is cached, fetching the release when only
+   * search results were cached for it. Throws when MusicBrainz can't be reached.
+   */
+  static async ensureTracklist(mbid: string): Promise<Album | null> {
+    const cached = await MusicStorage.getCachedAlbum(mbid);
+    if (cached?.tracks) {
+      return cached;
+    }
 
-      return album;
-    } catch (error) {
-      console.error("Failed to get release:", error);
+    const release = await this.getReleaseOrThrow(mbid);
+    if (!release) {
+      return cached;
+    }
+
+    const album = { ...cached, ...release };
+    await MusicStorage.cacheAlbum(album);
+    if (album.releaseGroupId) {
+      await ListenEventEntries.settleReleaseGroup(album.id, album.releaseGroupId);
+    }
+    return album;
+  }
+
+  private static async fetchRelease(mbid: string): Promise<Album | null> {
+    const releaseUrl = `${getMusicBrainzApiBase()}${getMusicBrainzLookupPath("release", mbid)}`;
+    const release = await this.lookup<MusicBrainzRelease>(releaseUrl);
+
+    const artistCredit = release?.["artist-credit"]?.[0];
+    if (!release || !artistCredit) {
       return null;
     }
+
+    const album: Album = {
+      id: `${release.id}`,
+      title: release.title,
+      artistName: artistCredit.name,
+      artistId: `${artistCredit.artist.id}`,
+      releaseDate: release.date,
+      releaseGroupId: release["release-group"]?.id,
+      status: release.status,
+      tracks: this.parseTracks(release),
+    };
+
+    // Only the archive's URL: the artwork itself is downloaded in the background or by the artwork route
+    try {
+      const coverArtUrl = await this.getFrontImageUrl(release.id);
+      if (coverArtUrl) {
+        album.coverArtUrl = coverArtUrl;
+      }
+    } catch (error) {
+      console.warn(`Failed to get cover art for ${release.id}:`, error);
+    }
+
+    return album;
   }
 
   /**
-   * Get artist details by MusicBrainz ID
+   * Flatten a release's media into tracks ordered by disc and position
+   */
+  static parseTracks(release: MusicBrainzRelease): Track[] {
+    const releaseArtist = release["artist-credit"]?.[0];
+    const tracks: Track[] = [];
+
+    for (const medium of [...(release.media ?? [])].sort((a, b) => a.position - b.position)) {
+      for (const track of medium.tracks ?? []) {
+        const artistCredit = track["artist-credit"]?.[0] ?? releaseArtist;
+        const length = track.length ?? track.recording.length;
+
+        tracks.push({
+          id: track.id,
+          title: track.title,
+          releaseId: release.id,
+          artistName: artistCredit?.name ?? "",
+          artistID: artistCredit?.artist.id ?? "",
+          discNumber: medium.position,
+          position: track.position,
+          ...(length ? { length } : {}),
+          recordingId: track.recording.id,
+        });
+      }
+    }
+
+    return tracks.sort((a, b) => a.discNumber - b.discNumber || a.position - b.position);
+  }
+
+  /**
+   * Get artist details by MusicBrainz ID (cached, including artists that don't exist)
    */
   static async getArtist(mbid: string): Promise<Artist | null> {
-    const artistUrl = `${MUSICBRAINZ_API_BASE}artist/${mbid}?fmt=json`;
-    
     try {
-      const artist = await this.makeRequest<MusicBrainzArtist>(artistUrl);
-      
-      return {
-        id: `${artist.id}`,
-        name: artist.name,
-        country: artist.country,
-        disambiguation: artist.disambiguation,
-      };
+      return await MusicStorage.getOrFetch("artist", mbid, async () => {
+        const artist = await this.lookup<MusicBrainzArtist>(`${getMusicBrainzApiBase()}${getMusicBrainzLookupPath("artist", mbid)}`);
+        if (!artist) {
+          return null;
+        }
+
+        return {
+          id: `${artist.id}`,
+          name: artist.name,
+          country: artist.country,
+          disambiguation: artist.disambiguation,
+        };
+      });
     } catch (error) {
       console.error("Failed to get artist:", error);
       return null;
     }
   }
 
+  /**
+   * Search artists by name
+   */
+  static async searchArtists(query: string, limit: number = 5): Promise<Artist[]> {
+    const searchUrl = `${getMusicBrainzApiBase()}artist/?query=${encodeURIComponent(query)}&limit=${limit}&fmt=json`;
+    const data = await this.makeRequest<MusicBrainzSearchResponse>(searchUrl);
+
+    const artists: Artist[] = (data.artists ?? []).map(artist => ({
+      id: `${artist.id}`,
+      name: artist.name,
+      country: artist.country,
+      disambiguation: artist.disambiguation,
+    }));
+
+    // Cache the artists so later searches find them locally
+    for (const artist of artists) {
+      await MusicStorage.cacheArtist(artist);
+    }
+
+    return artists;
+  }
+
+  /**
+   * Get all of an artist's release groups (their albums, EPs, singles, ...), as MusicBrainz lists them.
+   * Paged through `pageSize` at a time and cached as a whole; see discography.ts to classify and sort them.
+   */
+  static async getArtistReleaseGroups(artist: Artist, pageSize: number = 100): Promise<ReleaseGroup[]> {
+    try {
+      return await MusicStorage.getOrFetch("discography", artist.id, () => this.fetchArtistReleaseGroups(artist, pageSize)) ?? [];
+    } catch (error) {
+      console.error("Failed to get artist release groups:", error);
+      return [];
+    }
+  }
+
+  private static async fetchArtistReleaseGroups(artist: Artist, pageSize: number): Promise<ReleaseGroup[]> {
+    const releaseGroups: ReleaseGroup[] = [];
+
+    for (let page = 0; page < this.MAX_DISCOGRAPHY_PAGES; page++) {
+      const browseUrl = `${getMusicBrainzApiBase()}release-group?artist=${artist.id}&limit=${pageSize}&offset=${releaseGroups.length}&fmt=json`;
+      const data = await this.makeRequest<MusicBrainzReleaseGroupBrowse>(browseUrl);
+      const batch = data["release-groups"] ?? [];
+
+      for (const releaseGroup of batch) {
+        releaseGroups.push({
+          id: `${releaseGroup.id}`,
+          title: releaseGroup.title,
+          artist: artist.name,
+          artistId: artist.id,
+          type: releaseGroup["primary-type"] || releaseGroup.type,
+          secondaryTypes: releaseGroup["secondary-types"] ?? [],
+          firstReleaseDate: releaseGroup["first-release-date"] || undefined,
+        });
+      }
+
+      if (batch.length === 0 || releaseGroups.length >= (data["release-group-count"] ?? 0)) {
+        return releaseGroups;
+      }
+    }
+
+    console.warn(`[MUSICBRAINZ] Stopped browsing release groups for ${artist.id} after ${releaseGroups.length}`);
+    return releaseGroups;
+  }
+
   /**
    * Get releases for an artist
+   * @deprecated Raw releases with a cover art request each; use getDiscography for an artist's albums
    */
   static async getArtistReleases(mbid: string, limit: number = 25): Promise<Album[]> {
-    const releasesUrl = `${RELEASE_API_BASE}?artist=${mbid}&limit=${limit}&fmt=json`;
+    const releasesUrl = `${getMusicBrainzApiBase()}release/?artist=${mbid}&limit=${limit}&fmt=json`;
     
     try {
       const data = await this.makeRequest<{ releases: MusicBrainzRelease[] }>(releasesUrl);
@@ -403,11 +641,12 @@ export class MusicBrainzClient {
               artistId: `${artistCredit.artist.id}`,
               releaseDate: release.date,
               releaseGroupId: release["release-group"]?.id,
+              status: release.status,
             };
 
-            // Try to get cover art
+            // Only the archive's URL, as for a single release
             try {
-              const coverArtUrl = await this.getCoverArtUrl(release.id);
+              const coverArtUrl = await this.getFrontImageUrl(release.id);
               if (coverArtUrl) {
                 album.coverArtUrl = coverArtUrl;
               }
@@ -428,86 +667,131 @@ export class MusicBrainzClient {
   }
 
   /**
-   * Get cover art URL for a release
+   * Get cover art URL for a release: its saved artwork, downloading the front
+   * image the first time, or the Cover Art Archive URL when it can't be saved
    */
   static async getCoverArtUrl(mbid: string): Promise<string | null> {
     try {
       console.log(`[MUSICBRAINZ] Getting cover art URL for RELEASE MBID: ${mbid}`);
-      
-      // First, get the cover art metadata to find the front image
-      const metadataUrl = `${COVER_ART_ARCHIVE_BASE}/release/${mbid}`;
-	  return metadataUrl;
-      console.log(`[MUSICBRAINZ] Fetching cover art metadata from: ${metadataUrl}`);
-      
-      let response;
-      try {
-        response = await fetch(metadataUrl, {
-          headers: {
-            "Accept": "application/json",
-            "User-Agent": this.USER_AGENT,
-          },
-        });
-      } catch (fetchError) {
-        console.error(`[MUSICBRAINZ] Network error fetching cover art metadata for release ${mbid}:`, fetchError);
-        return null;
-      }
-      
-      if (!response.ok) {
-        console.warn(`[MUSICBRAINZ] Cover art API returned ${response.status} for release ${mbid}`);
-        return null;
-      }
-      
-      let data;
+      return await this.saveArtwork(mbid);
+    } catch (error) {
+      console.error(`[MUSICBRAINZ] Error saving artwork for release ${mbid}:`, error);
       try {
-        data = await response.json();
-      } catch (parseError) {
-        console.error(`[MUSICBRAINZ] Failed to parse cover art JSON for release ${mbid}:`, parseError);
+        return await this.getFrontImageUrl(mbid);
+      } catch {
         return null;
       }
-      
-      // Find the front image
-      const frontImage = data.images?.find((image: any) => image.front);
-      let coverArtUrl: string | null = null;
-      
-      if (frontImage) {
-        // Return the thumbnail URL (500px is a good balance)
-        coverArtUrl = frontImage.thumbnails?.["500"] || frontImage.image;
-        console.log(`[MUSICBRAINZ] Found front cover art for release ${mbid}: ${coverArtUrl}`);
-      } else if (data.images && data.images.length > 0) {
-        // If no front image is marked, try to get the first image
-        const firstImage = data.images[0];
-        coverArtUrl = firstImage.thumbnails?.["500"] || firstImage.image;
-        console.log(`[MUSICBRAINZ] Using first available cover art for release ${mbid}: ${coverArtUrl}`);
-      } else {
-        console.log(`[MUSICBRAINZ] No cover art images found for release ${mbid}`);
-      }
+    }
+  }
 
-      let finalUrl = coverArtUrl;
-      
-      if (coverArtUrl) {
-        // Try to download and save to local filesystem
-        console.log(`[MUSICBRAINZ] Attempting to download artwork for release ${mbid} from ${coverArtUrl}`);
-        try {
-          const localPath = await downloadAndSaveArtwork(mbid, coverArtUrl);
-          if (localPath) {
-            finalUrl = localPath;
-            console.log(`[MUSICBRAINZ] Successfully saved local artwork for release ${mbid}: ${localPath}`);
-          } else {
-            console.log(`[MUSICBRAINZ] Failed to download artwork for release ${mbid}, using external URL: ${coverArtUrl}`);
-          }
-        } catch (downloadError) {
-          console.error(`[MUSICBRAINZ] Error downloading artwork for release ${mbid}:`, downloadError);
-          // Continue with external URL if download fails
-        }
-      }
-      
-      return finalUrl;
-    } catch (error) {
-      console.error(`[MUSICBRAINZ] Unexpected error getting cover art for release ${mbid}:`, error);
-      // Cache the failure to avoid repeated failed requests
-     
+  /**
+   * Download a release's front image unless it's already saved, and record where
+   * it was saved as the cached album's localArtPath. Null when the release has no
+   * art; throws when the archive can't be reached or the download fails.
+   */
+  static async saveArtwork(mbid: string): Promise<string | null> {
+    const saved = await findLocalArtwork(mbid);
+    const localPath = saved?.publicPath ?? (await this.downloadFrontImage(mbid));
+    if (localPath) {
+      await MusicStorage.recordLocalArtPath(mbid, localPath);
+    }
+    return localPath;
+  }
+
+  private static async downloadFrontImage(mbid: string): Promise<string | null> {
+    const coverArtUrl = await this.getFrontImageUrl(mbid);
+    if (!coverArtUrl) {
+      return null;
+    }
+
+    console.log(`[MUSICBRAINZ] Downloading artwork for release ${mbid} from ${coverArtUrl}`);
+    const localPath = await downloadAndSaveArtwork(mbid, coverArtUrl);
+    if (!localPath) {
+      throw new Error(`Failed to download artwork from ${coverArtUrl}`);
+    }
+    return localPath;
+  }
+
+  /**
+   * A release's artwork at one size and format, made once and then served from
+   * disk. Sizes up to the default are resized from the saved artwork when there
+   * is some, and otherwise from the archive's thumbnail of that size or the next
+   * one up. Null when the release has no art; throws when it can't be made.
+   */
+  static async saveArtworkVariant(mbid: string, size: ArtworkSize, format: ArtworkFormat): Promise<LocalArtwork | null> {
+    const existing = await findArtworkVariant(mbid, size, format);
+    if (existing) {
+      return existing;
+    }
+
+    const image = await this.getFrontImage(mbid);
+    if (!image) {
       return null;
     }
+
+    const saved = await findLocalArtwork(mbid);
+    const source = saved && size <= DEFAULT_ARTWORK_SIZE
+      ? { filePath: saved.filePath }
+      : { url: pickCoverArtThumbnail(image, size) };
+
+    const variant = await saveArtworkVariant(mbid, size, format, source);
+    if (!variant) {
+      throw new Error(`Failed to make ${size}px ${format} artwork for release ${mbid}`);
+    }
+    return variant;
+  }
+
+  /**
+   * Cover Art Archive URL of a release's front image, at the thumbnail for
+   * `size`, or null when it has no art
+   */
+  static async getFrontImageUrl(mbid: string, size: number = DEFAULT_ARTWORK_SIZE): Promise<string | null> {
+    const image = await this.getFrontImage(mbid);
+    return image ? pickCoverArtThumbnail(image, size) : null;
+  }
+
+  /**
+   * A release's front image and its thumbnails, or null when it has no art.
+   * Listings (and their absence) are cached, so a release without art isn't asked about again.
+   */
+  static async getFrontImage(mbid: string): Promise<CoverArtArchiveImage | null> {
+    return MusicStorage.getOrFetch("front-image", mbid, () => this.fetchFrontImage(mbid));
+  }
+
+  /**
+   * Find the front image in a release's Cover Art Archive listing.
+   * Null when the release has no art; throws when the archive can't be reached.
+   */
+  private static async fetchFrontImage(mbid: string): Promise<CoverArtArchiveImage | null> {
+    const metadataUrl = `${getCoverArtArchiveBase()}/release/${mbid}`;
+    console.log(`[MUSICBRAINZ] Fetching cover art metadata from: ${metadataUrl}`);
+
+    const response = await fetch(metadataUrl, {
+      headers: {
+        "Accept": "application/json",
+        "User-Agent": this.USER_AGENT,
+      },
+    });
+
+    if (response.status === 404) {
+      console.log(`[MUSICBRAINZ] No cover art listed for release ${mbid}`);
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Cover Art Archive error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: { images?: CoverArtArchiveImage[] } = await response.json();
+
+    // The front image, or failing that whichever image comes first
+    const image = data.images?.find(candidate => candidate.front) ?? data.images?.[0];
+    if (!image) {
+      console.log(`[MUSICBRAINZ] No cover art images found for release ${mbid}`);
+      return null;
+    }
+
+    console.log(`[MUSICBRAINZ] Found ${image.front ? "front" : "first available"} cover art for release ${mbid}: ${image.image}`);
+    return { image: image.image, front: image.front, ...(image.thumbnails ? { thumbnails: image.thumbnails } : {}) };
   }
 
   /**
@@ -539,29 +823,28 @@ export class MusicBrainzClient {
   }
 
   /**
-   * Get release group details by MusicBrainz ID
+   * Get release group details by MusicBrainz ID (cached, including release groups that don't exist)
    */
   static async getReleaseGroup(mbid: string): Promise<ReleaseGroup | null> {
-    const releaseGroupUrl = `${RELEASE_GROUP_API_BASE}${mbid}?inc=artist-credits&releases&fmt=json`;
-    
     try {
-      const releaseGroup = await this.makeRequest<MusicBrainzReleaseGroup>(releaseGroupUrl);
-      
-      const artistCredit = releaseGroup["artist-credit"]?.[0];
-      if (!artistCredit) {
-        return null;
-      }
+      return await MusicStorage.getOrFetch("release-group", mbid, async () => {
+        const releaseGroupUrl = `${getMusicBrainzApiBase()}${getMusicBrainzLookupPath("release-group", mbid)}`;
+        const releaseGroup = await this.lookup<MusicBrainzReleaseGroup>(releaseGroupUrl);
 
-      const rgObject: ReleaseGroup = {
-        id: `${releaseGroup.id}`,
-        title: releaseGroup.title,
-        artist: artistCredit.name,
-        artistId: `${artistCredit.artist.id}`,
-        type: releaseGroup.type || releaseGroup["primary-type"],
-        firstReleaseDate: releaseGroup["first-release-date"],
-      };
+        const artistCredit = releaseGroup?.["artist-credit"]?.[0];
+        if (!releaseGroup || !artistCredit) {
+          return null;
+        }
 
-      return rgObject;
+        return {
+          id: `${releaseGroup.id}`,
+          title: releaseGroup.title,
+          artist: artistCredit.name,
+          artistId: `${artistCredit.artist.id}`,
+          type: releaseGroup.type || releaseGroup["primary-type"],
+          firstReleaseDate: releaseGroup["first-release-date"],
+        };
+      });
     } catch (error) {
       console.error("Failed to get release group:", error);
       return null;
@@ -569,64 +852,19 @@ export class MusicBrainzClient {
   }
 
   /**
-   * Get releases for a release group
+   * Get a release group's editions, most preferred first (official, then earliest).
+   * Only the first `limit` are looked up on the Cover Art Archive; those with art get a coverArtUrl.
    */
-  static async getReleaseGroupReleases(releaseGroupId: string, limit: number = 5, artistName?: string, artistId?: string): Promise<Album[]> {
-    const releasesUrl = `${RELEASE_GROUP_API_BASE}${releaseGroupId}?inc=releases,recordings&fmt=json`;
-    
-    console.log(`[MUSICBRAINZ] Getting releases for release group ${releaseGroupId} with URL: ${releasesUrl}`);
+  static async getReleaseGroupReleases(releaseGroupId: string, limit: number = 5): Promise<Album[]> {
     try {
-      const data = await this.makeRequest<MusicBrainzReleaseGroup>(releasesUrl);
-      // console.log(`[MUSICBRAINZ] Release group response for ${releaseGroupId}:`, JSON.stringify(data, null, 2));
-      
-      const albums: Album[] = [];
-      
-      if (data.releases) {
-        console.log(`[MUSICBRAINZ] Found ${data.releases.length} releases in release group ${releaseGroupId}`);
-        
-        // Sort releases by date to get the earliest/most primary release first
-        const sortedReleases = data.releases.sort((a, b) => {
-          if (!a.date && !b.date) return 0;
-          if (!a.date) return 1;
-          if (!b.date) return -1;
-          return a.date.localeCompare(b.date);
-        });
-
-        // Take only the requested number of releases
-        const limitedReleases = sortedReleases.slice(0, limit);
-        
-        for (const release of limitedReleases) {
-          // For release group releases, we need to get artist info from the release group itself
-          // since the release objects don't include artist-credit in this API response
-          const album: Album = {
-            id: `${release.id}`,
-            title: release.title,
-            artistName: artistName || data.title, // Use provided artist name or fallback to release group title
-            artistId: artistId ? `${artistId}` : `${releaseGroupId}`, // Use provided artist ID or fallback
-            releaseDate: release.date,
-            releaseGroupId: releaseGroupId,
-          };
-
-          // Try to get cover art for this release
-          try {
-            console.log(`[MUSICBRAINZ] Attempting to get cover art for release ${release.id}`);
-            const coverArtUrl = await this.getCoverArtUrl(release.id);
-            if (coverArtUrl) {
-              album.coverArtUrl = coverArtUrl;
-              console.log(`[MUSICBRAINZ] Successfully got cover art for release ${release.id}: ${coverArtUrl}`);
-            } else {
-              console.log(`[MUSICBRAINZ] No cover art found for release ${release.id}`);
-            }
-          } catch (error) {
-            console.warn(`Failed to get cover art for release ${release.id}:`, error);
-            // Continue without cover art if it fails
-          }
+      const editions = await MusicStorage.getOrFetch("editions", releaseGroupId, () => this.fetchReleaseGroupEditions(releaseGroupId));
+      const albums = [...(editions ?? [])].sort(compareEditions).slice(0, limit);
 
-          console.log(`[MUSICBRAINZ] Created album from release: "${album.title}" (ID: ${album.id})`);
-          albums.push(album);
+      for (const album of albums) {
+        const coverArtUrl = await this.getFrontImageUrl(album.id);
+        if (coverArtUrl) {
+          album.coverArtUrl = coverArtUrl;
         }
-      } else {
-        console.log(`[MUSICBRAINZ] No releases found in release group ${releaseGroupId}`);
       }
 
       return albums;
@@ -635,4 +873,34 @@ export class MusicBrainzClient {
       return [];
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Pick the edition to log and display for a release group: the earliest official release with cover art
+   */
+  static async getPreferredEdition(releaseGroupId: string): Promise<Album | null> {
+    return pickPreferredEdition(await this.getReleaseGroupReleases(releaseGroupId, this.PREFERRED_EDITION_CANDIDATES));
+  }
+
+  private static async fetchReleaseGroupEditions(releaseGroupId: string): Promise<Album[] | null> {
+    const releasesUrl = `${getMusicBrainzApiBase()}${getMusicBrainzLookupPath("release-group", releaseGroupId)}`;
+    console.log(`[MUSICBRAINZ] Getting releases for release group ${releaseGroupId} with URL: ${releasesUrl}`);
+
+    const data = await this.lookup<MusicBrainzReleaseGroup>(releasesUrl);
+    if (!data) {
+      return null;
+    }
+
+    // Release objects in this response have no artist credit of their own
+    const artistCredit = data["artist-credit"]?.[0];
+
+    return (data.releases ?? []).map(release => ({
+      id: `${release.id}`,
+      title: release.title,
+      artistName: artistCredit?.name ?? "",
+      artistId: artistCredit ? `${artistCredit.artist.id}` : "",
+      releaseDate: release.date,
+      releaseGroupId,
+      status: release.status,
+    }));
+  }
+}
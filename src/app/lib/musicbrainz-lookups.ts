@@ -0,0 +1,20 @@
+// What each MusicBrainz lookup asks to include. The client, the fixture recorder
+// (scripts/record-musicbrainz-fixtures.ts) and the test stand-in share these, so
+// fixtures hold exactly what the app requests and a wrong `inc` fails the tests.
+
+export type MusicBrainzLookupEntity = "release" | "release-group" | "artist";
+
+export const MUSICBRAINZ_LOOKUP_INCLUDES: Record<MusicBrainzLookupEntity, string[]> = {
+  release: ["artist-credits", "recordings", "release-groups"],
+  "release-group": ["artist-credits", "releases"],
+  artist: [],
+};
+
+/**
+ * Path and query of a lookup, relative to the web service root (e.g. ".../ws/2/").
+ * MusicBrainz wants `inc` values joined with "+": it rejects commas.
+ */
+export function getMusicBrainzLookupPath(entity: MusicBrainzLookupEntity, mbid: string): string {
+  const includes = MUSICBRAINZ_LOOKUP_INCLUDES[entity];
+  return `${entity}/${mbid}?${includes.length > 0 ? `inc=${includes.join("+")}&` : ""}fmt=json`;
+}
@@ -0,0 +1,146 @@
+import { getRedisClient } from "./redis-client";
+
+const client = getRedisClient();
+
+const DEFAULT_REQUESTS_PER_SECOND = 1; // https://musicbrainz.org/doc/MusicBrainz_API/Rate_Limiting
+
+// Upper bounds (ms) of the wait time histogram buckets
+const WAIT_BUCKETS = [0, 100, 500, 1000, 2000, 5000, 10000, 30000];
+
+export interface MusicBrainzQueueMetrics {
+  queueDepth: number; // requests currently waiting for a slot, across all processes
+  requests: number;
+  totalWaitMs: number;
+  averageWaitMs: number;
+  waitHistogram: Record<string, number>; // "<=500" -> count, "+inf" for anything longer
+  retries: number;
+  rateLimited: number; // 429 responses
+  unavailable: number; // 503 responses
+  pausedUntil: number | null; // epoch ms, while backing off after a 429/503
+}
+
+/**
+ * Requests allowed per second across every process, overridable with MUSICBRAINZ_REQUESTS_PER_SECOND
+ */
+export function getRequestsPerSecond(): number {
+  const configured = parseFloat(process.env.MUSICBRAINZ_REQUESTS_PER_SECOND || "");
+  return configured > 0 ? configured : DEFAULT_REQUESTS_PER_SECOND;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function waitBucket(waitMs: number): string {
+  const bound = WAIT_BUCKETS.find(bucket => waitMs <= bucket);
+  return bound === undefined ? "+inf" : `<=${bound}`;
+}
+
+// Server-wide MusicBrainz request slots, shared through Redis.
+// Time is cut into slots of 1/rate seconds and a request may only go out once it
+// claims its slot with SET NX, so every Next.js worker and serverless instance
+// draws from the same budget. A 429/503 pauses all of them until the backoff ends.
+export class MusicBrainzQueue {
+  private static readonly SLOT_PREFIX = "MusicBrainzQueue:slot:";
+  private static readonly PAUSE_KEY = "MusicBrainzQueue:pausedUntil";
+  private static readonly METRICS_KEY = "MusicBrainzQueue:metrics";
+
+  /**
+   * Wait until this process may send the next MusicBrainz request
+   */
+  static async acquire(): Promise<void> {
+    const interval = 1000 / getRequestsPerSecond();
+    const start = Date.now();
+
+    try {
+      await client.hincrby(this.METRICS_KEY, "queueDepth", 1);
+
+      try {
+        while (true) {
+          const now = Date.now();
+
+          const pausedUntil = parseInt((await client.get(this.PAUSE_KEY)) || "0", 10);
+          if (pausedUntil > now) {
+            await sleep(pausedUntil - now);
+            continue;
+          }
+
+          const slot = Math.floor(now / interval);
+          const claimed = await client.set(`${this.SLOT_PREFIX}${slot}`, "1", "PX", Math.ceil(interval * 2).toString(), "NX");
+          if (claimed) {
+            break;
+          }
+
+          // Someone else has this slot, try again at the start of the next one
+          await sleep(Math.max((slot + 1) * interval - now, 1));
+        }
+      } finally {
+        await client.hincrby(this.METRICS_KEY, "queueDepth", -1);
+      }
+
+      const waitMs = Date.now() - start;
+      await Promise.all([
+        client.hincrby(this.METRICS_KEY, "requests", 1),
+        client.hincrby(this.METRICS_KEY, "totalWaitMs", waitMs),
+        client.hincrby(this.METRICS_KEY, `wait:${waitBucket(waitMs)}`, 1),
+      ]);
+    } catch (error) {
+      // Without Redis, fall back to spacing this process's own requests
+      console.error("[MUSICBRAINZ QUEUE] Shared rate limit unavailable, waiting locally:", error);
+      await sleep(Math.max(interval - (Date.now() - start), 0));
+    }
+  }
+
+  /**
+   * Hold back every process's requests after a 429/503, never shortening a longer pause
+   */
+  static async backOff(status: number, delayMs: number): Promise<void> {
+    try {
+      const until = Date.now() + delayMs;
+      const current = parseInt((await client.get(this.PAUSE_KEY)) || "0", 10);
+      if (until > current) {
+        await client.set(this.PAUSE_KEY, until.toString(), "PX", delayMs);
+      }
+
+      await Promise.all([
+        client.hincrby(this.METRICS_KEY, "retries", 1),
+        client.hincrby(this.METRICS_KEY, status === 429 ? "rateLimited" : "unavailable", 1),
+      ]);
+    } catch (error) {
+      // Without Redis, at least this process backs off
+      console.error("[MUSICBRAINZ QUEUE] Failed to record backoff, waiting locally:", error);
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Current queue depth plus wait times and retry counts accumulated by every process
+   */
+  static async getMetrics(): Promise<MusicBrainzQueueMetrics> {
+    const [fields, pausedUntil] = await Promise.all([
+      client.hgetall(this.METRICS_KEY),
+      client.get(this.PAUSE_KEY),
+    ]);
+    const count = (field: string) => parseInt(fields[field] || "0", 10);
+
+    const waitHistogram: Record<string, number> = {};
+    for (const bucket of [...WAIT_BUCKETS.map(bound => `<=${bound}`), "+inf"]) {
+      waitHistogram[bucket] = count(`wait:${bucket}`);
+    }
+
+    const requests = count("requests");
+    const totalWaitMs = count("totalWaitMs");
+
+    return {
+      queueDepth: Math.max(count("queueDepth"), 0),
+      requests,
+      totalWaitMs,
+      averageWaitMs: requests > 0 ? Math.round(totalWaitMs / requests) : 0,
+      waitHistogram,
+      retries: count("retries"),
+      rateLimited: count("rateLimited"),
+      unavailable: count("unavailable"),
+      pausedUntil: pausedUntil && parseInt(pausedUntil, 10) > Date.now() ? parseInt(pausedUntil, 10) : null,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { Album } from "./music-storage";
+
+// Releases of one release group are editions of the same album: reissues,
+// regional pressings, remasters. Listens are grouped by release group and,
+// when only the group is known, logged against its preferred edition.
+
+/**
+ * Order editions by preference: official releases first, then earliest date (undated last)
+ */
+export function compareEditions(a: Album, b: Album): number {
+  const aOfficial = a.status === "Official" ? 0 : 1;
+  const bOfficial = b.status === "Official" ? 0 : 1;
+  if (aOfficial !== bOfficial) {
+    return aOfficial - bOfficial;
+  }
+
+  if (!a.releaseDate || !b.releaseDate) {
+    return a.releaseDate ? -1 : b.releaseDate ? 1 : 0;
+  }
+  return a.releaseDate.localeCompare(b.releaseDate);
+}
+
+/**
+ * Pick the edition to show for a release group: the earliest official release
+ * with cover art, falling back to the most preferred edition without art
+ */
+export function pickPreferredEdition(editions: Album[]): Album | null {
+  const ordered = [...editions].sort(compareEditions);
+  return ordered.find(edition => edition.coverArtUrl) ?? ordered[0] ?? null;
+}
+
+/**
+ * The release group a listen belongs to, falling back to its release for
+ * albums whose group isn't known yet
+ */
+export function getReleaseGroupKey(
+  entry: { album_mbid: string; release_group_mbid?: string },
+  albums: Map<string, Album>
+): string {
+  return entry.release_group_mbid ?? albums.get(entry.album_mbid)?.releaseGroupId ?? entry.album_mbid;
+}
@@ -0,0 +1,142 @@
+// Album search syntax: free text plus optional fields, e.g.
+//   blue artist:"joni mitchell" year:1970..1979 type:album
+// Unknown fields are kept as free text, so raw MusicBrainz syntax still passes through.
+
+export interface SearchQuery {
+  text: string; // everything outside recognised fields
+  title?: string;
+  artist?: string;
+  year?: { from?: number; to?: number }; // inclusive, either end may be open
+  type?: string; // MusicBrainz primary type, e.g. "EP"
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+const PRIMARY_TYPES = ["Album", "Single", "EP", "Broadcast", "Other"];
+
+// field:"quoted value", field:value, "quoted phrase" or a bare word
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"|(\S*))|"[^"]*"|\S+/g;
+
+function parseYear(value: string): { from?: number; to?: number } {
+  const match = value.match(/^(\d{4})?(\.\.)?(\d{4})?$/);
+  if (!match || (!match[1] && !match[3]) || (!match[2] && match[3])) {
+    throw new SearchQueryError(`year: expects a year or a range like 1970..1979, got "${value}"`);
+  }
+
+  const from = match[1] ? parseInt(match[1], 10) : undefined;
+  const to = match[2] ? (match[3] ? parseInt(match[3], 10) : undefined) : from;
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new SearchQueryError(`year: range ${value} ends before it starts`);
+  }
+
+  return { from, to };
+}
+
+function parseType(value: string): string {
+  const type = PRIMARY_TYPES.find(primaryType => primaryType.toLowerCase() === value.toLowerCase());
+  if (!type) {
+    throw new SearchQueryError(`type: expects one of ${PRIMARY_TYPES.map(t => t.toLowerCase()).join(", ")}, got "${value}"`);
+  }
+  return type;
+}
+
+/**
+ * Split a search box query into free text and field filters
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { text: "" };
+  const text: string[] = [];
+
+  for (const [token, field, quoted, bare] of input.matchAll(TOKEN_PATTERN)) {
+    const name = field?.toLowerCase();
+    if (!name || !["title", "artist", "year", "type"].includes(name)) {
+      text.push(token);
+      continue;
+    }
+
+    const value = (quoted ?? bare).trim();
+    if (!value) {
+      throw new SearchQueryError(`${name}: needs a value`);
+    }
+
+    if (name === "year") {
+      query.year = parseYear(value);
+    } else if (name === "type") {
+      query.type = parseType(value);
+    } else {
+      query[name as "title" | "artist"] = value;
+    }
+  }
+
+  query.text = text.join(" ");
+  return query;
+}
+
+/**
+ * Whether a query has anything to search for
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return !query.text && !query.title && !query.artist && !query.year && !query.type;
+}
+
+function escapeRediSearch(value: string): string {
+  return value.replace(/[,.<>{}[\]"':;!@#$%^&*()\-+=~|/\\?]/g, "\\$&");
+}
+
+/**
+ * Translate to a RediSearch query over the album index
+ */
+export function toRediSearchQuery(query: SearchQuery): string {
+  const clauses: string[] = [];
+
+  if (query.text) {
+    // Fuzzy match on the title, as the search box has always done
+    clauses.push(`@title:%${query.text.replace(/[.<>!"(){}[\]^*~?:\\]/g, "\\$&")}%`);
+  }
+  if (query.title) {
+    clauses.push(`@title:(${escapeRediSearch(query.title)})`);
+  }
+  if (query.artist) {
+    clauses.push(`@artistName:(${escapeRediSearch(query.artist)})`);
+  }
+  if (query.year) {
+    clauses.push(`@releaseYear:[${query.year.from ?? "-inf"} ${query.year.to ?? "+inf"}]`);
+  }
+  if (query.type) {
+    clauses.push(`@type:{${query.type}}`);
+  }
+
+  return clauses.length > 0 ? clauses.join(" ") : "*";
+}
+
+function quoteLucene(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Translate to a MusicBrainz release search (Lucene) query
+ */
+export function toMusicBrainzQuery(query: SearchQuery): string {
+  // Free text goes through as typed, so it may itself use MusicBrainz fields
+  const clauses: string[] = query.text ? [`(${query.text})`] : [];
+
+  if (query.title) {
+    clauses.push(`release:${quoteLucene(query.title)}`);
+  }
+  if (query.artist) {
+    clauses.push(`artist:${quoteLucene(query.artist)}`);
+  }
+  if (query.year) {
+    clauses.push(`date:[${query.year.from ?? "*"} TO ${query.year.to ?? "*"}]`);
+  }
+  if (query.type) {
+    clauses.push(`primarytype:${query.type.toLowerCase()}`);
+  }
+
+  return clauses.length === 1 && query.text ? query.text : clauses.join(" AND ");
+}
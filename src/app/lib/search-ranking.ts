@@ -0,0 +1,110 @@
+import type { SearchCandidate, SearchResult } from "./music-storage";
+import { ListenEventEntries } from "./listen-event-entries";
+import { pickPreferredEdition } from "./release-groups";
+import type { SearchQuery } from "./search-query";
+
+// One search result per release group, standing in for all of its editions
+export interface RankedAlbum extends SearchCandidate {
+  otherEditions: number; // further editions of the same release group among the results
+  rank: number; // higher ranks first
+}
+
+export interface RankedSearchResult extends SearchResult {
+  albums: RankedAlbum[];
+}
+
+// Points per ranking signal
+const EXACT_TITLE = 30;
+const EXACT_ARTIST = 20;
+const OFFICIAL = 10;
+const TYPES: Record<string, number> = { Album: 10, EP: 4 };
+const LISTENS = 5; // per doubling of listens logged on the site
+const MUSICBRAINZ_SCORE = 0.1; // per point of MusicBrainz relevance (0-100)
+
+/**
+ * Lowercase, strip accents and collapse punctuation so "Blue." matches "blue"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Points for exact title and artist matches, from their fields or from free text
+ * that is exactly the title, the artist, or both in either order
+ */
+function matchScore(album: SearchCandidate, query: SearchQuery): number {
+  const title = normalize(album.title);
+  const artist = normalize(album.artistName);
+  const text = normalize(query.text);
+
+  let score = 0;
+  if (query.title && normalize(query.title) === title) {
+    score += EXACT_TITLE;
+  }
+  if (query.artist && normalize(query.artist) === artist) {
+    score += EXACT_ARTIST;
+  }
+
+  if (!text) {
+    return score;
+  }
+  if (text === `${title} ${artist}` || text === `${artist} ${title}`) {
+    return score + EXACT_TITLE + EXACT_ARTIST;
+  }
+  if (text === title) {
+    return score + EXACT_TITLE;
+  }
+  if (text === artist) {
+    return score + EXACT_ARTIST;
+  }
+  return score;
+}
+
+/**
+ * Merge search results into release groups, keep each group's preferred edition
+ * and order the groups by how well they match and how much they're listened to
+ */
+export function rankAlbums(
+  albums: SearchCandidate[],
+  query: SearchQuery,
+  listenCounts: Map<string, number> = new Map()
+): RankedAlbum[] {
+  const groups = new Map<string, SearchCandidate[]>();
+  for (const album of albums) {
+    const key = album.releaseGroupId ?? album.id;
+    groups.set(key, [...(groups.get(key) ?? []), album]);
+  }
+
+  const ranked: RankedAlbum[] = [];
+  for (const [key, editions] of groups) {
+    const representative = pickPreferredEdition(editions) as SearchCandidate;
+    const type = editions.find(edition => edition.type)?.type;
+
+    const rank = Math.max(...editions.map(edition => matchScore(edition, query)))
+      + (editions.some(edition => edition.status === "Official") ? OFFICIAL : 0)
+      + (type ? TYPES[type] ?? 0 : 0)
+      + LISTENS * Math.log2(1 + (listenCounts.get(key) ?? 0))
+      + MUSICBRAINZ_SCORE * Math.max(...editions.map(edition => edition.score ?? 0));
+
+    ranked.push({ ...representative, otherEditions: editions.length - 1, rank });
+  }
+
+  // Stable, so equally ranked groups keep the order the search returned them in
+  return ranked.sort((a, b) => b.rank - a.rank);
+}
+
+/**
+ * Rank a search's albums, weighing in how often each release group was logged on the site
+ */
+export async function rankSearchResults(results: SearchResult, query: SearchQuery): Promise<RankedSearchResult> {
+  const listenCounts = await ListenEventEntries.getReleaseGroupListenCounts(
+    results.albums.map(album => album.releaseGroupId ?? album.id)
+  );
+
+  return { ...results, albums: rankAlbums(results.albums, query, listenCounts) };
+}
@@ -0,0 +1,137 @@
+import { addDays } from "./timezone";
+
+// A run of consecutive listening days, possibly bridged by grace days
+export interface StreakRun {
+  start: string; // YYYY-MM-DD of the first listen
+  end: string; // YYYY-MM-DD of the last listen
+  length: number; // days with a listen
+  graceDays: string[]; // missed days the run was carried over
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  currentStreakStart: string | null;
+  longestStreak: number;
+  longestStreakStart: string | null;
+  longestStreakEnd: string | null;
+  runs: StreakRun[]; // oldest first
+}
+
+export interface StreakOptions {
+  graceDaysPerMonth?: number; // missed days per calendar month that don't break a streak
+}
+
+export const MAX_GRACE_DAYS_PER_MONTH = 7;
+
+/**
+ * Compute streaks from listen dates as seen on `today` (both YYYY-MM-DD).
+ *
+ * A run continues across missed days only while every missed day's month
+ * still has grace days left; grace is spent in date order and a gap that
+ * can't be fully covered breaks the run without spending any. The latest
+ * run is current if the days between it and today can be covered too
+ * (today itself hasn't been missed yet).
+ */
+export function calculateStreaks(
+  dates: string[],
+  today: string,
+  options: StreakOptions = {}
+): StreakSummary {
+  const graceDaysPerMonth = Math.min(
+    Math.max(0, Math.floor(options.graceDaysPerMonth ?? 0)),
+    MAX_GRACE_DAYS_PER_MONTH
+  );
+  const graceUsed = new Map<string, number>(); // YYYY-MM -> grace days spent
+
+  // Sort a copy so callers' arrays are left alone, and ignore duplicates and future days
+  const sortedDates = [...new Set(dates)].filter(date => date <= today).sort();
+
+  const runs: StreakRun[] = [];
+  let run: StreakRun | null = null;
+
+  for (const date of sortedDates) {
+    if (run) {
+      const missedDays = getMissedDays(run.end, date, graceDaysPerMonth);
+
+      if (missedDays && spendGrace(missedDays, graceUsed, graceDaysPerMonth)) {
+        run.end = date;
+        run.length++;
+        run.graceDays.push(...missedDays);
+        continue;
+      }
+
+      runs.push(run);
+    }
+
+    run = { start: date, end: date, length: 1, graceDays: [] };
+  }
+
+  if (run) {
+    runs.push(run);
+  }
+
+  let longest: StreakRun | null = null;
+  for (const candidate of runs) {
+    if (!longest || candidate.length > longest.length) {
+      longest = candidate;
+    }
+  }
+
+  const latest = runs[runs.length - 1];
+  const missedSinceLatest = latest ? getMissedDays(latest.end, today, graceDaysPerMonth) : null;
+  const isCurrent = missedSinceLatest !== null && spendGrace(missedSinceLatest, graceUsed, graceDaysPerMonth);
+
+  return {
+    currentStreak: isCurrent ? latest.length : 0,
+    currentStreakStart: isCurrent ? latest.start : null,
+    longestStreak: longest ? longest.length : 0,
+    longestStreakStart: longest ? longest.start : null,
+    longestStreakEnd: longest ? longest.end : null,
+    runs,
+  };
+}
+
+/**
+ * Days strictly between two YYYY-MM-DD dates, or null if the gap is too long to
+ * ever be covered (with less than a month of grace, a bridged gap can touch at
+ * most two months)
+ */
+function getMissedDays(from: string, to: string, graceDaysPerMonth: number): string[] | null {
+  const missedDays: string[] = [];
+
+  for (let date = addDays(from, 1); date < to; date = addDays(date, 1)) {
+    if (missedDays.length >= graceDaysPerMonth * 2) {
+      return null;
+    }
+    missedDays.push(date);
+  }
+
+  return missedDays;
+}
+
+/**
+ * Spend grace for every missed day if each day's month can afford it; otherwise spend nothing
+ */
+function spendGrace(
+  missedDays: string[],
+  graceUsed: Map<string, number>,
+  graceDaysPerMonth: number
+): boolean {
+  const needed = new Map<string, number>();
+  for (const date of missedDays) {
+    const month = date.slice(0, 7);
+    needed.set(month, (needed.get(month) ?? 0) + 1);
+  }
+
+  for (const [month, count] of needed) {
+    if ((graceUsed.get(month) ?? 0) + count > graceDaysPerMonth) {
+      return false;
+    }
+  }
+
+  for (const [month, count] of needed) {
+    graceUsed.set(month, (graceUsed.get(month) ?? 0) + count);
+  }
+
+  return true;
+}
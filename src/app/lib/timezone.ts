@@ -0,0 +1,68 @@
+// Calendar-date helpers that work in a user's IANA timezone instead of the server's.
+// All dates are plain YYYY-MM-DD strings; only "now" depends on the timezone.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Check that a string is an IANA timezone the runtime understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a stored timezone, falling back to the default for older accounts
+ */
+export function resolveTimezone(timezone?: string): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the calendar date (YYYY-MM-DD) for an instant in a timezone
+ */
+export function getDateInTimezone(timezone: string, instant: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: resolveTimezone(timezone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+/**
+ * Get today's date (YYYY-MM-DD) in a timezone
+ */
+export function getTodayInTimezone(timezone: string, now: Date = new Date()): string {
+  return getDateInTimezone(timezone, now);
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0];
+}
+
+/**
+ * Get the first and last day (YYYY-MM-DD) of a month, month being 1-12
+ */
+export function getMonthBounds(year: number, month: number): { start: string; end: string } {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return {
+    start: `${year}-${pad(month)}-01`,
+    end: `${year}-${pad(month)}-${pad(lastDay)}`,
+  };
+}
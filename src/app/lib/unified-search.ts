@@ -0,0 +1,139 @@
+import { Artist, MusicStorage, SearchCandidate, SearchResult } from "./music-storage";
+import { MusicBrainzClient } from "./musicbrainz-client";
+import { type RankedAlbum, rankSearchResults } from "./search-ranking";
+import { type SearchQuery, toMusicBrainzQuery } from "./search-query";
+
+const DEFAULT_LOCAL_THRESHOLD = 5; // per the V1 plan: ask MusicBrainz when the site knows fewer albums
+const ARTIST_LIMIT = 5;
+
+export type SearchSource = "local" | "musicbrainz";
+
+export interface SourcedAlbum extends RankedAlbum {
+  source: SearchSource;
+}
+
+export interface SourcedArtist extends Artist {
+  source: SearchSource;
+}
+
+export interface UnifiedSearchResult extends SearchResult {
+  albums: SourcedAlbum[];
+  artists: SourcedArtist[];
+  sources: Record<SearchSource, number>; // how many of the returned albums came from each source
+}
+
+/**
+ * Fewest local albums (release groups) that answer a search without MusicBrainz,
+ * overridable with MUSIC_SEARCH_LOCAL_THRESHOLD
+ */
+export function getLocalThreshold(): number {
+  const configured = parseInt(process.env.MUSIC_SEARCH_LOCAL_THRESHOLD || "", 10);
+  return configured >= 0 ? configured : DEFAULT_LOCAL_THRESHOLD;
+}
+
+// Album search across the site's own cache and MusicBrainz.
+// Albums cached locally come from RediSearch; when there are fewer of them than
+// the threshold, MusicBrainz is searched as well and the two lists are merged,
+// deduplicated by release and then ranked by release group.
+export class UnifiedSearch {
+  private static readonly CACHE_PREFIX = "unified:";
+
+  /**
+   * Search both sources, returning whether the merged results came from the search cache
+   */
+  static async search(
+    query: SearchQuery,
+    limit: number = 50,
+    threshold: number = getLocalThreshold()
+  ): Promise<{ results: UnifiedSearchResult; cached: boolean }> {
+    const cacheKey = `${this.CACHE_PREFIX}${threshold}:${limit}:${JSON.stringify(query)}`;
+
+    let merged = await MusicStorage.getCachedSearchResults(cacheKey);
+    const cached = merged !== null;
+    if (!merged) {
+      const { result, complete } = await this.searchSources(query, limit, threshold);
+      merged = result;
+      if (complete) {
+        await MusicStorage.cacheSearchResults(cacheKey, merged);
+      }
+    }
+
+    // Ranked on every request, so site listens stay current
+    const ranked = await rankSearchResults(merged, query);
+    const albums = (ranked.albums as SourcedAlbum[]).slice(0, limit);
+
+    return {
+      results: {
+        albums,
+        artists: merged.artists as SourcedArtist[],
+        total: albums.length + merged.artists.length,
+        sources: {
+          local: albums.filter(album => album.source === "local").length,
+          musicbrainz: albums.filter(album => album.source === "musicbrainz").length,
+        },
+      },
+      cached,
+    };
+  }
+
+  /**
+   * Local results, topped up from MusicBrainz below the threshold. Incomplete when
+   * MusicBrainz was needed but failed, so the partial result isn't cached
+   */
+  private static async searchSources(
+    query: SearchQuery,
+    limit: number,
+    threshold: number
+  ): Promise<{ result: SearchResult; complete: boolean }> {
+    const local = await MusicStorage.searchAlbums(query, limit);
+    const albums = new Map<string, SearchCandidate & { source: SearchSource }>(
+      local.map(album => [album.id, { ...album, source: "local" }])
+    );
+    // Artists are matched on an artist: filter, or else the free text
+    const artistName = query.artist ?? query.text;
+    const localArtists = artistName ? await MusicStorage.searchArtists(artistName, ARTIST_LIMIT) : [];
+    const artists = new Map<string, SourcedArtist>(
+      localArtists.map(artist => [artist.id, { ...artist, source: "local" }])
+    );
+    let complete = true;
+
+    const localGroups = new Set(local.map(album => album.releaseGroupId ?? album.id));
+    console.log(`[UNIFIED SEARCH] ${local.length} local albums in ${localGroups.size} release groups, ${localArtists.length} local artists`);
+
+    if (localGroups.size < threshold) {
+      try {
+        const remote: SearchResult = await MusicBrainzClient.search(toMusicBrainzQuery(query), limit);
+        console.log(`[UNIFIED SEARCH] MusicBrainz returned ${remote.albums.length} albums`);
+
+        for (const album of remote.albums) {
+          if (!albums.has(album.id)) {
+            albums.set(album.id, { ...album, source: "musicbrainz" });
+          }
+        }
+
+        // Only spend another MusicBrainz request on artists when none are known locally
+        if (artistName && localArtists.length === 0) {
+          for (const artist of await MusicBrainzClient.searchArtists(artistName, ARTIST_LIMIT)) {
+            artists.set(artist.id, { ...artist, source: "musicbrainz" });
+          }
+        }
+      } catch (error) {
+        // Whatever the site knows is still worth showing
+        if (local.length === 0) {
+          throw error;
+        }
+        console.error("[UNIFIED SEARCH] MusicBrainz search failed, returning local results:", error);
+        complete = false;
+      }
+    }
+
+    return {
+      result: {
+        albums: [...albums.values()],
+        artists: [...artists.values()],
+        total: albums.size + artists.size,
+      },
+      complete,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import { CalendarListenEventEntry, ListenEventEntries } from "./listen-event-entries";
+import { Album } from "./music-storage";
+import { ArtistStat, calculateListenStats } from "./listen-stats";
+import { calculateStreaks } from "./streaks";
+import { addDays } from "./timezone";
+
+export interface YearReviewStreak {
+  length: number;
+  start: string;
+  end: string;
+}
+
+export interface YearReviewMonth {
+  month: string; // YYYY-MM
+  listens: number;
+  topAlbum: CalendarListenEventEntry | null; // highest-rated listen, earliest wins ties; unrated listens rank last
+}
+
+export interface YearReviewCover {
+  date: string;
+  album_mbid: string | null;
+  title: string | null;
+  artistName: string | null;
+  rating: number | null;
+  coverUrl: string | null;
+}
+
+export interface YearReview {
+  username: string;
+  year: number;
+  totalAlbums: number;
+  averageRating: number;
+  bestRated: CalendarListenEventEntry | null;
+  longestStreak: YearReviewStreak | null; // only counts days inside the year
+  favoriteArtist: ArtistStat | null;
+  months: YearReviewMonth[];
+  covers: YearReviewCover[]; // one per day of the year, oldest first
+  firstListen: CalendarListenEventEntry | null;
+  lastListen: CalendarListenEventEntry | null;
+}
+
+/**
+ * Get a user's year in review from their listens in that calendar year
+ */
+export async function getYearReview(username: string, year: number): Promise<YearReview> {
+  const entries = await ListenEventEntries.getUserEntriesInRange(username, `${year}-01-01`, `${year}-12-31`);
+  return buildYearReview(username, year, entries);
+}
+
+/**
+ * Summarize a year from its listens (as returned by getUserEntriesInRange, oldest first)
+ */
+export function buildYearReview(
+  username: string,
+  year: number,
+  entries: CalendarListenEventEntry[]
+): YearReview {
+  const listens = entries.filter(entry => entry.date.startsWith(`${year}-`));
+  const ratings = listens.flatMap(entry => (entry.rating !== undefined ? [entry.rating] : []));
+
+  const albums = new Map<string, Album>();
+  for (const entry of listens) {
+    if (entry.album_mbid && entry.album) {
+      albums.set(entry.album_mbid, entry.album);
+    }
+  }
+
+  const stats = calculateListenStats(
+    listens.map(entry => ({
+      date: entry.date,
+      album_mbid: entry.album_mbid ?? "",
+      rating: entry.rating,
+      notes: entry.notes ?? "",
+    })),
+    albums
+  );
+
+  const streaks = calculateStreaks(listens.map(entry => entry.date), `${year}-12-31`);
+
+  const months: YearReviewMonth[] = [];
+  for (let month = 1; month <= 12; month++) {
+    const key = `${year}-${month.toString().padStart(2, "0")}`;
+    const monthListens = listens.filter(entry => entry.date.startsWith(key));
+
+    months.push({
+      month: key,
+      listens: monthListens.length,
+      topAlbum: getBestRated(monthListens),
+    });
+  }
+
+  const entriesByDate = new Map(listens.map(entry => [entry.date, entry]));
+  const covers: YearReviewCover[] = [];
+  for (let date = `${year}-01-01`; date <= `${year}-12-31`; date = addDays(date, 1)) {
+    const entry = entriesByDate.get(date);
+
+    covers.push({
+      date,
+      album_mbid: entry?.album_mbid ?? null,
+      title: entry?.album?.title ?? null,
+      artistName: entry?.album?.artistName ?? null,
+      rating: entry?.rating ?? null,
+      coverUrl: entry ? getCoverUrl(entry) : null,
+    });
+  }
+
+  return {
+    username,
+    year,
+    totalAlbums: listens.length,
+    // Over rated listens only: an unrated listen isn't a 0
+    averageRating: ratings.length > 0
+      ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+      : 0,
+    bestRated: getBestRated(listens),
+    longestStreak: streaks.longestStreakStart && streaks.longestStreakEnd
+      ? { length: streaks.longestStreak, start: streaks.longestStreakStart, end: streaks.longestStreakEnd }
+      : null,
+    favoriteArtist: stats.topArtistsByCount[0] ?? null,
+    months,
+    covers,
+    firstListen: listens[0] ?? null,
+    lastListen: listens[listens.length - 1] ?? null,
+  };
+}
+
+/**
+ * Highest-rated listen, earliest first on ties; unrated listens rank below every rating
+ */
+function getBestRated(entries: CalendarListenEventEntry[]): CalendarListenEventEntry | null {
+  let best: CalendarListenEventEntry | null = null;
+
+  for (const entry of entries) {
+    if (!best || (entry.rating ?? -1) > (best.rating ?? -1)) {
+      best = entry;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Prefer artwork already saved under public/ so the page works offline,
+ * otherwise let the artwork route serve (and cache) it
+ */
+function getCoverUrl(entry: CalendarListenEventEntry): string | null {
+  if (entry.album?.localArtPath) {
+    return entry.album.localArtPath;
+  }
+
+  return entry.album_mbid ? `/api/music/artwork?mbid=${entry.album_mbid}` : null;
+}
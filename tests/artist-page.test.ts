@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { getArtistPage } = await import("../src/app/lib/artist-page");
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+const { MusicBrainzClient } = await import("../src/app/lib/musicbrainz-client");
+const { MusicStorage } = await import("../src/app/lib/music-storage");
+
+const RADIOHEAD = "a74b1b7f-71a5-4011-9441-d0b5e4122711";
+const OK_COMPUTER_GROUP = "b1392450-e666-3926-a536-22c65f834433";
+const OK_COMPUTER_UK = "b44e63a0-1894-5b13-8dd6-704807266087";
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+beforeAll(() => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+  process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+});
+
+afterAll(() => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+beforeEach(() => {
+  clearMockRedis();
+});
+
+describe("artist search", () => {
+  it("should search MusicBrainz artists and cache them", async () => {
+    const artists = await MusicBrainzClient.searchArtists("radiohead");
+
+    expect(artists.map(artist => artist.id)).toEqual([RADIOHEAD]);
+    expect(await MusicStorage.getCachedArtist(RADIOHEAD)).toMatchObject({ name: "Radiohead" });
+    expect(await MusicStorage.getSuggestions("radio")).toEqual([{ text: "Radiohead", kind: "artist" }]);
+  });
+});
+
+describe("getArtistPage", () => {
+  it("should list release groups with the viewer's and the site's listens", async () => {
+    await ListenEventEntries.addOrUpdateListenEventEntry("viewer", "2025-01-01", OK_COMPUTER_UK, 9, "", "", undefined, OK_COMPUTER_GROUP);
+    await ListenEventEntries.addOrUpdateListenEventEntry("someone", "2025-01-02", OK_COMPUTER_UK, 7, "", "", undefined, OK_COMPUTER_GROUP);
+    // The site's listens count under the release group once the release is fetched
+    await MusicBrainzClient.ensureTracklist(OK_COMPUTER_UK);
+
+    const page = await getArtistPage(RADIOHEAD, "viewer");
+
+    expect(page?.artist.name).toBe("Radiohead");
+    expect(page?.releaseGroups.find(releaseGroup => releaseGroup.id === OK_COMPUTER_GROUP)).toMatchObject({
+      title: "OK Computer",
+      artist: "Radiohead",
+      siteListens: 2,
+      averageRating: 8,
+      viewerListens: 1,
+    });
+  });
+
+  it("should not mark listens without a viewer", async () => {
+    const page = await getArtistPage(RADIOHEAD);
+
+    expect(page?.releaseGroups.every(releaseGroup => releaseGroup.viewerListens === 0)).toBe(true);
+  });
+
+  it("should return null for unknown artists", async () => {
+    expect(await getArtistPage("00000000-0000-0000-0000-000000000000")).toBeNull();
+  });
+});
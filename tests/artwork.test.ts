@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import fs from "fs/promises";
+import path from "path";
+import { NextRequest } from "next/server";
+import sharp from "sharp";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+import type { Album } from "../src/app/lib/music-storage";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicBrainzClient, pickCoverArtThumbnail } = await import("../src/app/lib/musicbrainz-client");
+const { MusicStorage } = await import("../src/app/lib/music-storage");
+const { GET } = await import("../src/app/api/music/artwork/route");
+
+const OK_COMPUTER_UK = "b44e63a0-1894-5b13-8dd6-704807266087";
+const ABBEY_ROAD = "a3361212-28b6-5a0f-8a79-969ba23e034e";
+const NO_ART_RELEASE = "731b8cb8-ff68-5601-a14d-62e6cf26cb12";
+const ARTWORK_DIR = path.join(process.cwd(), "public", "album-art");
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+// The saved artwork and every size and format made from it
+async function removeArtwork() {
+  const files = await fs.readdir(ARTWORK_DIR).catch(() => [] as string[]);
+  for (const file of files.filter(name => name.startsWith(OK_COMPUTER_UK) || name.startsWith(ABBEY_ROAD))) {
+    await fs.rm(path.join(ARTWORK_DIR, file), { force: true });
+  }
+}
+
+function artworkRequest(mbid: string, headers: Record<string, string> = {}, size?: number): NextRequest {
+  const query = size ? `mbid=${mbid}&size=${size}` : `mbid=${mbid}`;
+  return new NextRequest(`http://localhost:3000/api/music/artwork?${query}`, { headers });
+}
+
+async function imageWidth(response: Response): Promise<number | undefined> {
+  return (await sharp(Buffer.from(await response.arrayBuffer())).metadata()).width;
+}
+
+function imageRequests(): string[] {
+  return stub.requests.filter(request => request.endsWith(".jpg"));
+}
+
+beforeAll(async () => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+  process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+  await removeArtwork();
+});
+
+afterAll(async () => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+  await removeArtwork();
+});
+
+beforeEach(async () => {
+  clearMockRedis();
+  stub.requests.length = 0;
+  await removeArtwork();
+});
+
+describe("pickCoverArtThumbnail", () => {
+  const image = {
+    image: "https://coverartarchive.org/release/x/1.jpg",
+    front: true,
+    thumbnails: {
+      "250": "https://coverartarchive.org/release/x/1-250.jpg",
+      "500": "https://coverartarchive.org/release/x/1-500.jpg",
+      "1200": "https://coverartarchive.org/release/x/1-1200.jpg",
+    },
+  };
+
+  it("should pick the smallest thumbnail at least as wide as asked", () => {
+    expect(pickCoverArtThumbnail(image, 64)).toBe(image.thumbnails["250"]);
+    expect(pickCoverArtThumbnail(image, 500)).toBe(image.thumbnails["500"]);
+    expect(pickCoverArtThumbnail(image, 501)).toBe(image.thumbnails["1200"]);
+  });
+
+  it("should understand the older small and large names", () => {
+    const older = { ...image, thumbnails: { small: "small.jpg", large: "large.jpg" } };
+    expect(pickCoverArtThumbnail(older, 300)).toBe("large.jpg");
+  });
+
+  it("should fall back to the original when no thumbnail is big enough", () => {
+    expect(pickCoverArtThumbnail(image, 2000)).toBe(image.image);
+    expect(pickCoverArtThumbnail({ image: image.image, front: true }, 250)).toBe(image.image);
+  });
+});
+
+describe("MusicBrainzClient.saveArtwork", () => {
+  it("should download the front image once and record it on the cached album", async () => {
+    const album: Album = { id: ABBEY_ROAD, title: "Abbey Road", artistName: "The Beatles", artistId: "b10bbbfc-cf9e-42e0-be17-e2c3e1d2600d" };
+    await MusicStorage.cacheAlbum(album);
+
+    const localPath = await MusicBrainzClient.saveArtwork(ABBEY_ROAD);
+    expect(localPath).toBe(`/album-art/${ABBEY_ROAD}.jpg`);
+    expect(imageRequests()).toHaveLength(1);
+    expect(imageRequests()[0]).toContain("-500.jpg");
+    expect((await MusicStorage.getCachedAlbum(ABBEY_ROAD))?.localArtPath).toBe(`/album-art/${ABBEY_ROAD}.jpg`);
+
+    // Saved already: no second download
+    await MusicBrainzClient.saveArtwork(ABBEY_ROAD);
+    expect(imageRequests()).toHaveLength(1);
+  });
+
+  it("should return null for a release without art", async () => {
+    expect(await MusicBrainzClient.saveArtwork(NO_ART_RELEASE)).toBeNull();
+  });
+});
+
+describe("GET /api/music/artwork", () => {
+  it("should download the artwork on first request and serve it with validators", async () => {
+    const response = await GET(artworkRequest(OK_COMPUTER_UK));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/jpeg");
+    expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(response.headers.get("Last-Modified")).toBeTruthy();
+    expect(await imageWidth(response)).toBe(500);
+    // Downloaded once, and the default size made from the saved original
+    expect(imageRequests()).toHaveLength(1);
+    expect(await fs.stat(path.join(ARTWORK_DIR, `${OK_COMPUTER_UK}.jpg`))).toBeTruthy();
+    expect(await fs.stat(path.join(ARTWORK_DIR, `${OK_COMPUTER_UK}-500.jpg`))).toBeTruthy();
+  });
+
+  it("should resize a saved original that is larger or in another format", async () => {
+    await fs.mkdir(ARTWORK_DIR, { recursive: true });
+    await sharp({ create: { width: 1500, height: 1500, channels: 3, background: "#336699" } })
+      .png()
+      .toFile(path.join(ARTWORK_DIR, `${OK_COMPUTER_UK}.png`));
+
+    const response = await GET(artworkRequest(OK_COMPUTER_UK));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/jpeg");
+    expect(await imageWidth(response)).toBe(500);
+    expect(imageRequests()).toHaveLength(0);
+  });
+
+  it("should answer 304 when the browser's copy is current", async () => {
+    const first = await GET(artworkRequest(OK_COMPUTER_UK));
+    const etag = first.headers.get("ETag") ?? "";
+    const lastModified = first.headers.get("Last-Modified") ?? "";
+    stub.requests.length = 0;
+
+    const byEtag = await GET(artworkRequest(OK_COMPUTER_UK, { "If-None-Match": `W/${etag}` }));
+    expect(byEtag.status).toBe(304);
+    expect(byEtag.headers.get("ETag")).toBe(etag);
+
+    const byDate = await GET(artworkRequest(OK_COMPUTER_UK, { "If-Modified-Since": lastModified }));
+    expect(byDate.status).toBe(304);
+
+    // Served from disk, without asking the archive again
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it("should serve the image again when the ETag doesn't match", async () => {
+    await GET(artworkRequest(OK_COMPUTER_UK));
+    const response = await GET(artworkRequest(OK_COMPUTER_UK, {
+      "If-None-Match": '"0-0"',
+      "If-Modified-Since": new Date().toUTCString(),
+    }));
+    expect(response.status).toBe(200);
+  });
+
+  it("should reject an invalid MBID", async () => {
+    const response = await GET(artworkRequest("../../package.json"));
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 when the release has no art", async () => {
+    const response = await GET(artworkRequest(NO_ART_RELEASE));
+    expect(response.status).toBe(404);
+    expect((await response.json()).externalUrl).toBeNull();
+  });
+});
+
+describe("GET /api/music/artwork with a size", () => {
+  it("should make the size from the archive's thumbnail when nothing is saved", async () => {
+    const response = await GET(artworkRequest(OK_COMPUTER_UK, {}, 250));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/jpeg");
+    expect(response.headers.get("Vary")).toBe("Accept");
+    expect(imageRequests()).toEqual([expect.stringContaining("-250.jpg")]);
+    expect(await imageWidth(response)).toBe(250);
+  });
+
+  it("should resize the saved artwork to smaller sizes", async () => {
+    await MusicBrainzClient.saveArtwork(OK_COMPUTER_UK);
+    stub.requests.length = 0;
+
+    const response = await GET(artworkRequest(OK_COMPUTER_UK, {}, 64));
+
+    expect(response.status).toBe(200);
+    expect(await imageWidth(response)).toBe(64);
+    expect(imageRequests()).toHaveLength(0);
+  });
+
+  it("should download the next size up when nothing is saved", async () => {
+    const response = await GET(artworkRequest(OK_COMPUTER_UK, {}, 64));
+
+    expect(response.status).toBe(200);
+    expect(imageRequests()).toEqual([expect.stringContaining("-250.jpg")]);
+  });
+
+  it("should serve AVIF or WebP to browsers that accept them", async () => {
+    const avif = await GET(artworkRequest(OK_COMPUTER_UK, { Accept: "image/avif,image/webp,image/*,*/*;q=0.8" }, 64));
+    expect(avif.status).toBe(200);
+    expect(avif.headers.get("Content-Type")).toBe("image/avif");
+
+    const webp = await GET(artworkRequest(OK_COMPUTER_UK, { Accept: "image/avif;q=0,image/webp" }, 64));
+    expect(webp.headers.get("Content-Type")).toBe("image/webp");
+    expect(await imageWidth(webp)).toBe(64);
+
+    // Without a size, the default size in the negotiated format
+    const defaultSize = await GET(artworkRequest(OK_COMPUTER_UK, { Accept: "image/webp" }));
+    expect(defaultSize.headers.get("Content-Type")).toBe("image/webp");
+    expect(await imageWidth(defaultSize)).toBe(500);
+  });
+
+  it("should make each variant once and then serve it from disk", async () => {
+    const first = await GET(artworkRequest(OK_COMPUTER_UK, { Accept: "image/webp" }, 1200));
+    const etag = first.headers.get("ETag") ?? "";
+    stub.requests.length = 0;
+
+    const again = await GET(artworkRequest(OK_COMPUTER_UK, { Accept: "image/webp" }, 1200));
+    expect(again.status).toBe(200);
+    expect(again.headers.get("ETag")).toBe(etag);
+
+    const notModified = await GET(artworkRequest(OK_COMPUTER_UK, { Accept: "image/webp", "If-None-Match": etag }, 1200));
+    expect(notModified.status).toBe(304);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it("should reject sizes that aren't offered", async () => {
+    const response = await GET(artworkRequest(OK_COMPUTER_UK, {}, 100));
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 when the release has no art", async () => {
+    const response = await GET(artworkRequest(NO_ART_RELEASE, { Accept: "image/avif" }, 64));
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "bun:test";
+import { buildCalendarMonth, parseMonth } from "../src/app/lib/calendar-grid";
+
+describe("parseMonth", () => {
+  it("should parse YYYY-MM months", () => {
+    expect(parseMonth("2025-03")).toEqual({ year: 2025, month: 3 });
+  });
+
+  it("should reject anything else", () => {
+    expect(parseMonth("2025-13")).toBeNull();
+    expect(parseMonth("2025-3")).toBeNull();
+    expect(parseMonth("2025-03-01")).toBeNull();
+    expect(parseMonth(undefined)).toBeNull();
+  });
+});
+
+describe("buildCalendarMonth", () => {
+  it("should lay out a month in Sunday-first weeks", () => {
+    // March 2025 starts on a Saturday and needs six rows
+    const calendar = buildCalendarMonth(2025, 3, [], "2025-03-10");
+
+    expect(calendar.weeks).toHaveLength(6);
+    expect(calendar.weeks.every(week => week.length === 7)).toBe(true);
+    expect(calendar.weeks[0].slice(0, 6)).toEqual(Array(6).fill(null));
+    expect(calendar.weeks[0][6]?.date).toBe("2025-03-01");
+    expect(calendar.weeks[5][1]?.date).toBe("2025-03-31");
+    expect(calendar.weeks[5][2]).toBeNull();
+  });
+
+  it("should attach listens and mark today and future days", () => {
+    const calendar = buildCalendarMonth(
+      2025,
+      3,
+      [{ date: "2025-03-09", album_mbid: "blue", album: null, rating: 9 }],
+      "2025-03-10"
+    );
+    const days = calendar.weeks.flat().filter(day => day !== null);
+
+    expect(days).toHaveLength(31);
+    expect(days[8].entry?.album_mbid).toBe("blue");
+    expect(days[7].entry).toBeNull();
+    expect(days[9]).toMatchObject({ date: "2025-03-10", isToday: true, isFuture: false });
+    expect(days[10]).toMatchObject({ isToday: false, isFuture: true });
+  });
+
+  it("should link to the neighbouring months across year boundaries", () => {
+    expect(buildCalendarMonth(2025, 1, [], "2025-01-01").previousMonth).toBe("2024-12");
+    expect(buildCalendarMonth(2025, 12, [], "2025-01-01").nextMonth).toBe("2026-01");
+  });
+});
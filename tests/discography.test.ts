@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+import type { ReleaseGroup } from "../src/app/lib/music-storage";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { buildDiscography, classifyReleaseGroup, getDiscography } = await import("../src/app/lib/discography");
+const { MusicBrainzClient } = await import("../src/app/lib/musicbrainz-client");
+
+const RADIOHEAD = { id: "a74b1b7f-71a5-4011-9441-d0b5e4122711", name: "Radiohead" };
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+beforeAll(() => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+  process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+});
+
+afterAll(() => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+beforeEach(() => {
+  clearMockRedis();
+  stub.requests.length = 0;
+});
+
+const releaseGroup = (title: string, firstReleaseDate?: string, type: string = "Album", secondaryTypes: string[] = []): ReleaseGroup => ({
+  id: title,
+  title,
+  artist: "Radiohead",
+  artistId: RADIOHEAD.id,
+  type,
+  secondaryTypes,
+  firstReleaseDate,
+});
+
+describe("classifyReleaseGroup", () => {
+  it("should file release groups by primary type", () => {
+    expect(classifyReleaseGroup({ type: "Album" })).toBe("album");
+    expect(classifyReleaseGroup({ type: "EP", secondaryTypes: [] })).toBe("ep");
+    expect(classifyReleaseGroup({ type: "Single" })).toBe("single");
+    expect(classifyReleaseGroup({ type: "Broadcast" })).toBe("other");
+    expect(classifyReleaseGroup({})).toBe("other");
+  });
+
+  it("should let live, compilation and soundtrack win over the primary type", () => {
+    expect(classifyReleaseGroup({ type: "Album", secondaryTypes: ["Live"] })).toBe("live");
+    expect(classifyReleaseGroup({ type: "Album", secondaryTypes: ["Compilation"] })).toBe("compilation");
+    expect(classifyReleaseGroup({ type: "Album", secondaryTypes: ["Soundtrack"] })).toBe("soundtrack");
+    expect(classifyReleaseGroup({ type: "EP", secondaryTypes: ["Remix", "Live"] })).toBe("live");
+  });
+
+  it("should not count other secondary types as studio albums", () => {
+    expect(classifyReleaseGroup({ type: "Album", secondaryTypes: ["Remix"] })).toBe("other");
+    expect(classifyReleaseGroup({ type: "Album", secondaryTypes: ["Demo"] })).toBe("other");
+  });
+});
+
+describe("buildDiscography", () => {
+  const releaseGroups = [
+    releaseGroup("Undated"),
+    releaseGroup("OK Computer", "1997-05-21"),
+    releaseGroup("Pablo Honey", "1993-02-22"),
+    releaseGroup("I Might Be Wrong", "2001-11-12", "Album", ["Live"]),
+    releaseGroup("Amnesiac", "2001-05-30"),
+  ];
+
+  it("should sort release groups oldest first with undated ones last", () => {
+    expect(buildDiscography(releaseGroups).map(entry => entry.title)).toEqual([
+      "Pablo Honey",
+      "OK Computer",
+      "Amnesiac",
+      "I Might Be Wrong",
+      "Undated",
+    ]);
+  });
+
+  it("should keep only studio albums when asked", () => {
+    expect(buildDiscography(releaseGroups, { studioOnly: true }).map(entry => [entry.title, entry.category])).toEqual([
+      ["Pablo Honey", "album"],
+      ["OK Computer", "album"],
+      ["Amnesiac", "album"],
+      ["Undated", "album"],
+    ]);
+  });
+});
+
+describe("getDiscography", () => {
+  it("should page through an artist's release groups", async () => {
+    const releaseGroups = await MusicBrainzClient.getArtistReleaseGroups(RADIOHEAD, 2);
+
+    expect(releaseGroups).toHaveLength(5);
+    expect(stub.requests.map(request => new URL(request, stub.url).searchParams.get("offset"))).toEqual(["0", "2", "4"]);
+  });
+
+  it("should classify and sort the artist's release groups", async () => {
+    const discography = await getDiscography(RADIOHEAD);
+
+    expect(discography.map(entry => [entry.title, entry.category])).toEqual([
+      ["Pablo Honey", "album"],
+      ["My Iron Lung", "ep"],
+      ["OK Computer", "album"],
+      ["I Might Be Wrong: Live Recordings", "live"],
+      ["Radiohead: The Best Of", "compilation"],
+    ]);
+  });
+
+  it("should filter the cached discography without asking MusicBrainz again", async () => {
+    await getDiscography(RADIOHEAD);
+    const studioAlbums = await getDiscography(RADIOHEAD, { studioOnly: true });
+
+    expect(studioAlbums.map(entry => entry.title)).toEqual(["Pablo Honey", "OK Computer"]);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("should return nothing when MusicBrainz is unavailable", async () => {
+    stub.failNext(4, 503, "0");
+
+    expect(await getDiscography(RADIOHEAD)).toEqual([]);
+  });
+});
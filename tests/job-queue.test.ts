@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import fs from "fs/promises";
+import path from "path";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+import type { Album } from "../src/app/lib/music-storage";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { JobQueue, getJobRetryDelay } = await import("../src/app/lib/job-queue");
+const { isAlbumStale, processNextJob } = await import("../src/app/lib/job-handlers");
+const { MusicStorage } = await import("../src/app/lib/music-storage");
+const { MusicBrainzClient } = await import("../src/app/lib/musicbrainz-client");
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+
+const OK_COMPUTER_UK = "b44e63a0-1894-5b13-8dd6-704807266087";
+const ABBEY_ROAD = "a3361212-28b6-5a0f-8a79-969ba23e034e";
+const ABBEY_ROAD_GROUP = "9162580e-5df4-32de-80cc-f45a8d8a9b1d";
+const ARTWORK_DIR = path.join(process.cwd(), "public", "album-art");
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+beforeAll(() => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+  process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+});
+
+afterAll(async () => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+  await fs.rm(path.join(ARTWORK_DIR, `${OK_COMPUTER_UK}.jpg`), { force: true });
+});
+
+beforeEach(() => {
+  clearMockRedis();
+  stub.requests.length = 0;
+});
+
+const okComputer: Album = {
+  id: OK_COMPUTER_UK,
+  title: "OK Computer",
+  artistName: "Radiohead",
+  artistId: "a74b1b7f-71a5-4011-9441-d0b5e4122711",
+  type: "Album",
+};
+
+describe("JobQueue", () => {
+  it("should hand out jobs in the order they were queued, once each", async () => {
+    expect(await JobQueue.enqueue("enrich-album", "a")).toBe(true);
+    expect(await JobQueue.enqueue("download-artwork", "a")).toBe(true);
+    expect(await JobQueue.enqueue("enrich-album", "a")).toBe(false);
+
+    const first = await JobQueue.reserve();
+    expect(first).toMatchObject({ type: "enrich-album", mbid: "a", attempts: 0 });
+    expect(await JobQueue.getStats()).toEqual({ pending: 1, processing: 1, delayed: 0, dead: 0 });
+
+    await JobQueue.complete(first!);
+    expect((await JobQueue.reserve())?.type).toBe("download-artwork");
+    expect(await JobQueue.reserve()).toBeNull();
+
+    // Finished jobs can be queued again
+    expect(await JobQueue.enqueue("enrich-album", "a")).toBe(true);
+  });
+
+  it("should retry failed jobs with backoff", async () => {
+    await JobQueue.enqueue("fetch-tracklist", "a");
+    const job = (await JobQueue.reserve())!;
+
+    expect(await JobQueue.fail(job, new Error("503"))).toBe("retry");
+    expect(await JobQueue.getStats()).toEqual({ pending: 0, processing: 0, delayed: 1, dead: 0 });
+    expect(await JobQueue.reserve()).toBeNull();
+
+    expect(await JobQueue.promoteDelayed(Date.now() + getJobRetryDelay(1))).toBe(1);
+    expect(await JobQueue.reserve()).toMatchObject({ mbid: "a", attempts: 1, lastError: "503" });
+  });
+
+  it("should dead-letter jobs that keep failing and retry them on request", async () => {
+    await JobQueue.enqueue("fetch-tracklist", "a");
+
+    let outcome: "retry" | "dead";
+    for (let attempt = 1; ; attempt++) {
+      await JobQueue.promoteDelayed(Date.now() + getJobRetryDelay(attempt));
+      outcome = await JobQueue.fail((await JobQueue.reserve())!, new Error(`failure ${attempt}`));
+      if (outcome === "dead") break;
+    }
+
+    const [dead] = await JobQueue.getDeadJobs();
+    expect(dead).toMatchObject({ type: "fetch-tracklist", mbid: "a", attempts: 5, lastError: "failure 5" });
+    expect(await JobQueue.getStats()).toEqual({ pending: 0, processing: 0, delayed: 0, dead: 1 });
+
+    expect(await JobQueue.retryDead(dead.id)).toBe(true);
+    expect(await JobQueue.retryDead(dead.id)).toBe(false);
+    expect(await JobQueue.reserve()).toMatchObject({ mbid: "a", attempts: 0 });
+  });
+
+  it("should list pending jobs next first, then retries", async () => {
+    await JobQueue.enqueue("fetch-tracklist", "a");
+    await JobQueue.fail((await JobQueue.reserve())!, new Error("503"));
+    await JobQueue.enqueue("enrich-album", "b");
+    await JobQueue.enqueue("enrich-album", "c");
+
+    expect((await JobQueue.getPendingJobs()).map(job => job.mbid)).toEqual(["b", "c", "a"]);
+  });
+
+  it("should put jobs a stopped worker left running back on the queue, behind those waiting", async () => {
+    await JobQueue.enqueue("enrich-album", "a");
+    await JobQueue.reserve();
+    await JobQueue.enqueue("enrich-album", "b");
+
+    expect(await JobQueue.recoverProcessing()).toBe(1);
+    expect((await JobQueue.reserve())?.mbid).toBe("b");
+    expect((await JobQueue.reserve())?.mbid).toBe("a");
+  });
+});
+
+describe("job handlers", () => {
+  it("should queue search results for enrichment instead of caching them inline", async () => {
+    await MusicBrainzClient.search('release:"ok computer" AND artist:radiohead', 10);
+
+    expect(await MusicStorage.getCachedAlbum(OK_COMPUTER_UK)).toBeNull();
+    expect(stub.requests.some(request => request.startsWith("/caa/"))).toBe(false);
+    expect((await JobQueue.getPendingJobs()).map(job => job.type)).toEqual(["enrich-album", "enrich-album"]);
+  });
+
+  it("should not queue search results that are already enriched", async () => {
+    await MusicStorage.cacheAlbum({ ...okComputer, enrichedAt: Date.now() });
+
+    await MusicBrainzClient.search('release:"ok computer" AND artist:radiohead', 10);
+
+    expect((await JobQueue.getPendingJobs()).map(job => job.mbid)).not.toContain(OK_COMPUTER_UK);
+  });
+
+  it("should cache enriched albums with their cover art URL, leaving the image for later", async () => {
+    await JobQueue.enqueue("enrich-album", OK_COMPUTER_UK, okComputer);
+
+    expect(await processNextJob()).toMatchObject({ outcome: "done" });
+    const album = await MusicStorage.getCachedAlbum(OK_COMPUTER_UK);
+    expect(album?.coverArtUrl?.startsWith(stub.coverArtArchiveUrl)).toBe(true);
+    expect(album?.type).toBe("Album");
+    expect(isAlbumStale(album!)).toBe(false);
+
+    expect(await JobQueue.getPendingJobs()).toHaveLength(0);
+    expect(stub.requests.some(request => request.endsWith(".jpg"))).toBe(false);
+  });
+
+  it("should save the artwork of a logged album", async () => {
+    await JobQueue.enqueue("download-artwork", OK_COMPUTER_UK);
+
+    expect(await processNextJob()).toMatchObject({ outcome: "done" });
+    expect(await Bun.file(path.join(ARTWORK_DIR, `${OK_COMPUTER_UK}.jpg`)).exists()).toBe(true);
+  });
+
+  it("should add the tracklist to a cached album", async () => {
+    await MusicStorage.cacheAlbum({ ...okComputer, id: ABBEY_ROAD, title: "Abbey Road", artistName: "The Beatles" });
+    await JobQueue.enqueue("fetch-tracklist", ABBEY_ROAD);
+
+    await processNextJob();
+
+    const album = await MusicStorage.getCachedAlbum(ABBEY_ROAD);
+    expect(album?.tracks).toHaveLength(17);
+    expect(album?.type).toBe("Album");
+  });
+
+  it("should regroup listens logged before the release was cached", async () => {
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-05", ABBEY_ROAD, 9, "", "", undefined, "client-said-so");
+    await JobQueue.enqueue("fetch-tracklist", ABBEY_ROAD);
+
+    await processNextJob();
+
+    expect((await ListenEventEntries.getListenEventEntry("testuser", "2025-01-05"))?.release_group_mbid).toBe(ABBEY_ROAD_GROUP);
+    expect((await ListenEventEntries.getReleaseGroupListenCounts([ABBEY_ROAD_GROUP])).get(ABBEY_ROAD_GROUP)).toBe(1);
+  });
+
+  it("should refresh stale albums from MusicBrainz", async () => {
+    await MusicStorage.cacheAlbum({ ...okComputer, title: "Old title", enrichedAt: 0 });
+    expect(isAlbumStale((await MusicStorage.getCachedAlbum(OK_COMPUTER_UK))!)).toBe(true);
+    await JobQueue.enqueue("refresh-stale-album", OK_COMPUTER_UK);
+
+    await processNextJob();
+
+    const album = await MusicStorage.getCachedAlbum(OK_COMPUTER_UK);
+    expect(album?.title).toBe("OK Computer");
+    expect(isAlbumStale(album!)).toBe(false);
+    expect(await JobQueue.getPendingJobs()).toHaveLength(0);
+  });
+
+  it("should retry jobs when MusicBrainz is unavailable", async () => {
+    stub.failNext(4, 503, "0");
+    await JobQueue.enqueue("fetch-tracklist", ABBEY_ROAD);
+
+    expect(await processNextJob()).toMatchObject({ outcome: "retry" });
+    expect(await JobQueue.getStats()).toMatchObject({ pending: 0, processing: 0, delayed: 1 });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { MockRedisClient, clearMockRedis, mockRedisHash, mockRedisSortedSet } from "./setup";
+
+const mockClient = new MockRedisClient();
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => mockClient,
+}));
+
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+
+const testUsername = "testuser";
+
+async function logDays(dates: string[]) {
+  for (const date of dates) {
+    await ListenEventEntries.addOrUpdateListenEventEntry(testUsername, date, `album-${date}`, 7, "", "");
+  }
+}
+
+describe("ListenEventEntries date index", () => {
+  beforeEach(() => {
+    clearMockRedis();
+  });
+
+  it("should index entries by day number on add and remove them on delete", async () => {
+    await logDays(["2025-01-15", "2025-01-16"]);
+
+    const index = mockRedisSortedSet.get(`ListenIndex:${testUsername}`);
+    expect(index?.get("2025-01-15")).toBe(ListenEventEntries.toDayNumber("2025-01-15"));
+    expect(index?.get("2025-01-16")).toBe(ListenEventEntries.toDayNumber("2025-01-15") + 1);
+
+    await ListenEventEntries.deleteListenEventEntry(testUsername, "2025-01-15");
+
+    expect(await ListenEventEntries.countUserEntries(testUsername)).toBe(1);
+  });
+
+  it("should not duplicate index members when an entry is updated", async () => {
+    await logDays(["2025-01-15"]);
+    await ListenEventEntries.updateListenEventEntry(testUsername, "2025-01-15", { rating: 9 });
+
+    expect(await ListenEventEntries.countUserEntries(testUsername)).toBe(1);
+  });
+
+  it("should return range queries in ascending date order", async () => {
+    await logDays(["2025-02-01", "2025-01-31", "2025-01-01", "2024-12-31"]);
+
+    const entries = await ListenEventEntries.getUserEntriesInRange(testUsername, "2025-01-01", "2025-01-31");
+
+    expect(entries.map(entry => entry.date)).toEqual(["2025-01-01", "2025-01-31"]);
+  });
+
+  it("should return the latest entries newest first", async () => {
+    await logDays(["2025-01-01", "2025-01-03", "2025-01-02"]);
+
+    const entries = await ListenEventEntries.getLatestEntries(testUsername, 2);
+
+    expect(entries.map(entry => entry.date)).toEqual(["2025-01-03", "2025-01-02"]);
+  });
+
+  it("should count entries within a range", async () => {
+    await logDays(["2025-01-01", "2025-01-15", "2025-02-01"]);
+
+    expect(await ListenEventEntries.countUserEntries(testUsername, "2025-01-01", "2025-01-31")).toBe(2);
+    expect(await ListenEventEntries.countUserEntries(testUsername, "2025-01-10")).toBe(2);
+  });
+
+  it("should rebuild indexes from existing ListenEvent keys", async () => {
+    mockRedisHash.set("ListenEvent:alice:2025-01-01", { username: "alice", date: "2025-01-01", album_mbid: "a", rating: "5", favorite_track: "", notes: "", created_at: "" });
+    mockRedisHash.set("ListenEvent:alice:2025-01-02", { username: "alice", date: "2025-01-02", album_mbid: "b", rating: "6", favorite_track: "", notes: "", created_at: "" });
+    mockRedisHash.set("ListenEvent:bob:2025-03-01", { username: "bob", date: "2025-03-01", album_mbid: "c", rating: "7", favorite_track: "", notes: "", created_at: "" });
+
+    const counts = await ListenEventEntries.rebuildAllIndexes();
+
+    expect(counts.get("alice")).toBe(2);
+    expect(counts.get("bob")).toBe(1);
+
+    const entries = await ListenEventEntries.getAllUserEntries("alice");
+    expect(entries.map(entry => entry.date)).toEqual(["2025-01-02", "2025-01-01"]);
+  });
+});
+
+describe("ListenEventEntries.getUserEntriesPage", () => {
+  beforeEach(async () => {
+    clearMockRedis();
+    await logDays(["2025-01-01", "2025-01-02", "2025-01-03", "2025-01-04", "2025-01-05"]);
+  });
+
+  it("should page newest first and follow nextCursor to older entries", async () => {
+    const first = await ListenEventEntries.getUserEntriesPage(testUsername, { limit: 2 });
+
+    expect(first.entries.map(entry => entry.date)).toEqual(["2025-01-05", "2025-01-04"]);
+    expect(first.prevCursor).toBeNull();
+    expect(first.nextCursor).toBe("before:2025-01-04");
+
+    const second = await ListenEventEntries.getUserEntriesPage(testUsername, {
+      ...ListenEventEntries.parseCursor(first.nextCursor!),
+      limit: 2,
+    });
+
+    expect(second.entries.map(entry => entry.date)).toEqual(["2025-01-03", "2025-01-02"]);
+    expect(second.prevCursor).toBe("after:2025-01-03");
+
+    const third = await ListenEventEntries.getUserEntriesPage(testUsername, {
+      ...ListenEventEntries.parseCursor(second.nextCursor!),
+      limit: 2,
+    });
+
+    expect(third.entries.map(entry => entry.date)).toEqual(["2025-01-01"]);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it("should return the entries adjacent to a prevCursor", async () => {
+    const page = await ListenEventEntries.getUserEntriesPage(testUsername, {
+      ...ListenEventEntries.parseCursor("after:2025-01-02"),
+      limit: 2,
+    });
+
+    expect(page.entries.map(entry => entry.date)).toEqual(["2025-01-04", "2025-01-03"]);
+    expect(page.nextCursor).toBe("before:2025-01-03");
+    expect(page.prevCursor).toBe("after:2025-01-04");
+  });
+
+  it("should page oldest first in ascending direction", async () => {
+    const page = await ListenEventEntries.getUserEntriesPage(testUsername, { limit: 3, direction: "asc" });
+
+    expect(page.entries.map(entry => entry.date)).toEqual(["2025-01-01", "2025-01-02", "2025-01-03"]);
+    expect(page.nextCursor).toBe("after:2025-01-03");
+    expect(page.prevCursor).toBeNull();
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(ListenEventEntries.parseCursor("before:2025-13-01")).toBeNull();
+    expect(ListenEventEntries.parseCursor("sideways:2025-01-01")).toBeNull();
+  });
+});
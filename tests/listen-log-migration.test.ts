@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { MockRedisClient, clearMockRedis, mockRedisData, mockRedisHash } from "./setup";
+
+const mockClient = new MockRedisClient();
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => mockClient,
+}));
+
+const { ListenLogMigration } = await import("../src/app/lib/listen-log-migration");
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+
+function seedUser(id: string, username: string) {
+  mockRedisData.set(`user:${id}`, JSON.stringify({ id, username, name: username, passwordHash: "x", createdAt: "2025-01-01T00:00:00.000Z" }));
+}
+
+function seedLegacyAlbum(userId: string, date: string, albumId: string, rating?: number, notes?: string) {
+  mockRedisData.set(`user_album:${userId}:${date}`, JSON.stringify({
+    userId,
+    albumId,
+    date,
+    rating,
+    notes,
+    createdAt: `${date}T12:00:00.000Z`,
+    updatedAt: `${date}T12:00:00.000Z`,
+  }));
+}
+
+describe("ListenLogMigration", () => {
+  beforeEach(() => {
+    clearMockRedis();
+  });
+
+  it("should copy legacy albums into the listen log with ratings on the 0-10 scale", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-a", 4, "Loved it");
+
+    const report = await ListenLogMigration.run();
+
+    expect(report.scanned).toBe(1);
+    expect(report.migrated).toBe(1);
+    expect(report.conflicts).toHaveLength(0);
+
+    const entry = await ListenEventEntries.getListenEventEntry("alice", "2025-01-15");
+    expect(entry).not.toBeNull();
+    expect(entry!.album_mbid).toBe("album-a");
+    expect(entry!.rating).toBe(8);
+    expect(entry!.notes).toBe("Loved it");
+  });
+
+  it("should keep unrated legacy albums unrated rather than rating them 0", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-a");
+
+    await ListenLogMigration.run();
+
+    const entry = await ListenEventEntries.getListenEventEntry("alice", "2025-01-15");
+    expect(entry!.album_mbid).toBe("album-a");
+    expect(entry!.rating).toBeUndefined();
+    expect(ListenLogMigration.convertRating(undefined)).toBeUndefined();
+  });
+
+  it("should merge into an existing entry for the same album without overwriting it", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-a", 2, "Legacy notes");
+    await ListenEventEntries.addOrUpdateListenEventEntry("alice", "2025-01-15", "album-a", 9, "Track 1", "");
+
+    const report = await ListenLogMigration.run();
+
+    expect(report.merged).toBe(1);
+    expect(report.migrated).toBe(0);
+
+    const entry = await ListenEventEntries.getListenEventEntry("alice", "2025-01-15");
+    expect(entry!.rating).toBe(9);
+    expect(entry!.favorite_track).toBe("Track 1");
+    expect(entry!.notes).toBe("Legacy notes");
+  });
+
+  it("should report a conflict when the same day has different albums", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-legacy", 5);
+    await ListenEventEntries.addOrUpdateListenEventEntry("alice", "2025-01-15", "album-current", 7, "", "");
+
+    const report = await ListenLogMigration.run({ deleteLegacyKeys: true });
+
+    expect(report.conflicts).toEqual([
+      {
+        username: "alice",
+        date: "2025-01-15",
+        listenEventAlbumMbid: "album-current",
+        legacyAlbumMbid: "album-legacy",
+      },
+    ]);
+
+    const entry = await ListenEventEntries.getListenEventEntry("alice", "2025-01-15");
+    expect(entry!.album_mbid).toBe("album-current");
+    expect(mockRedisData.has("user_album:user-1:2025-01-15")).toBe(true);
+  });
+
+  it("should report legacy keys whose user no longer exists", async () => {
+    seedLegacyAlbum("missing-user", "2025-01-15", "album-a", 3);
+
+    const report = await ListenLogMigration.run();
+
+    expect(report.orphaned).toEqual(["user_album:missing-user:2025-01-15"]);
+    expect(report.migrated).toBe(0);
+  });
+
+  it("should not write anything on a dry run", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-a", 4);
+
+    const report = await ListenLogMigration.run({ dryRun: true, deleteLegacyKeys: true });
+
+    expect(report.migrated).toBe(1);
+    expect(report.legacyKeysDeleted).toBe(0);
+    expect(mockRedisHash.has("ListenEvent:alice:2025-01-15")).toBe(false);
+    expect(mockRedisData.has("user_album:user-1:2025-01-15")).toBe(true);
+  });
+
+  it("should delete legacy album, calendar and stats keys when asked", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-a", 4);
+    mockRedisHash.set("user_calendar:user-1", { "2025-01-15": "{}" });
+    mockRedisData.set("user_stats:user-1", "{}");
+
+    const report = await ListenLogMigration.run({ deleteLegacyKeys: true });
+
+    expect(report.legacyKeysDeleted).toBe(3);
+    expect(mockRedisData.has("user_album:user-1:2025-01-15")).toBe(false);
+    expect(mockRedisHash.has("user_calendar:user-1")).toBe(false);
+    expect(mockRedisData.has("user_stats:user-1")).toBe(false);
+  });
+
+  it("should keep the calendar and stats keys of users with unresolved conflicts", async () => {
+    seedUser("user-1", "alice");
+    seedLegacyAlbum("user-1", "2025-01-15", "album-a", 4);
+    seedLegacyAlbum("user-1", "2025-01-16", "album-legacy", 5);
+    await ListenEventEntries.addOrUpdateListenEventEntry("alice", "2025-01-16", "album-current", 7, "", "");
+    mockRedisHash.set("user_calendar:user-1", { "2025-01-15": "{}", "2025-01-16": "{}" });
+    mockRedisData.set("user_stats:user-1", "{}");
+
+    const report = await ListenLogMigration.run({ deleteLegacyKeys: true });
+
+    expect(report.conflicts).toHaveLength(1);
+    expect(report.legacyKeysDeleted).toBe(1); // the migrated day only
+    expect(mockRedisData.has("user_album:user-1:2025-01-16")).toBe(true);
+    expect(mockRedisHash.has("user_calendar:user-1")).toBe(true);
+    expect(mockRedisData.has("user_stats:user-1")).toBe(true);
+  });
+});
@@ -0,0 +1,393 @@
+import { describe, it, expect, beforeEach, mock, setSystemTime } from "bun:test";
+import { MockRedisClient, clearMockRedis } from "./setup";
+import { calculateListenStats } from "../src/app/lib/listen-stats";
+import type { Album } from "../src/app/lib/music-storage";
+
+const mockClient = new MockRedisClient();
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => mockClient,
+}));
+
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+
+const albums = new Map<string, Album>([
+  ["kind-of-blue", { id: "kind-of-blue", title: "Kind of Blue", artistName: "Miles Davis", artistId: "miles", releaseDate: "1959-08-17" }],
+  ["bitches-brew", { id: "bitches-brew", title: "Bitches Brew", artistName: "Miles Davis", artistId: "miles", releaseDate: "1970-03-30" }],
+  ["blue", { id: "blue", title: "Blue", artistName: "Joni Mitchell", artistId: "joni", releaseDate: "1971-06-22" }],
+]);
+
+const entry = (date: string, album_mbid: string, rating: number, notes = "") => ({ date, album_mbid, rating, notes });
+
+describe("calculateListenStats", () => {
+  it("should return empty figures for no listens", () => {
+    const stats = calculateListenStats([], albums);
+
+    expect(stats.ratingDistribution).toHaveLength(21);
+    expect(stats.ratingDistribution.every(bucket => bucket.count === 0)).toBe(true);
+    expect(stats.topArtistsByCount).toHaveLength(0);
+    expect(stats.averageNotesLength).toBe(0);
+    expect(stats.mostRelistenedAlbum).toBeNull();
+  });
+
+  it("should bucket ratings in half steps from 0 to 10", () => {
+    const stats = calculateListenStats(
+      [entry("2025-01-01", "blue", 7.5), entry("2025-01-02", "blue", 7.5), entry("2025-01-03", "blue", 10)],
+      albums
+    );
+
+    expect(stats.ratingDistribution[0]).toEqual({ rating: 0, count: 0 });
+    expect(stats.ratingDistribution[15]).toEqual({ rating: 7.5, count: 2 });
+    expect(stats.ratingDistribution[20]).toEqual({ rating: 10, count: 1 });
+  });
+
+  it("should leave unrated listens out of the rating figures", () => {
+    const unrated = (date: string, album_mbid: string) => ({ date, album_mbid, notes: "" });
+    const stats = calculateListenStats(
+      [entry("2025-01-01", "blue", 8), unrated("2025-01-02", "blue"), unrated("2025-01-03", "kind-of-blue"), unrated("2025-01-04", "kind-of-blue")],
+      albums
+    );
+
+    expect(stats.ratingDistribution[0]).toEqual({ rating: 0, count: 0 });
+    expect(stats.ratingDistribution.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(1);
+    expect(stats.topArtistsByCount.find(artist => artist.artistId === "joni")).toMatchObject({ count: 2, averageRating: 8 });
+    // Two listens, but neither rated
+    expect(stats.topArtistsByRating).toHaveLength(0);
+  });
+
+  it("should rank artists by listens and by average rating", () => {
+    const stats = calculateListenStats(
+      [
+        entry("2025-01-01", "kind-of-blue", 9),
+        entry("2025-01-02", "bitches-brew", 6),
+        entry("2025-01-03", "kind-of-blue", 9),
+        entry("2025-01-04", "blue", 10),
+        entry("2025-01-05", "blue", 9),
+      ],
+      albums
+    );
+
+    expect(stats.topArtistsByCount.map(artist => [artist.artistName, artist.count])).toEqual([
+      ["Miles Davis", 3],
+      ["Joni Mitchell", 2],
+    ]);
+    expect(stats.topArtistsByRating[0]).toMatchObject({ artistId: "joni", averageRating: 9.5 });
+    expect(stats.topArtistsByRating[1]).toMatchObject({ artistId: "miles", averageRating: 8 });
+  });
+
+  it("should group listens by release decade, weekday and month", () => {
+    const stats = calculateListenStats(
+      [entry("2025-01-06", "kind-of-blue", 9), entry("2025-01-13", "blue", 8), entry("2025-02-01", "unknown", 5)],
+      albums
+    );
+
+    expect(stats.decades).toEqual({ "1950s": 1, "1970s": 1 });
+    expect(stats.listensByWeekday.Monday).toBe(2);
+    expect(stats.listensByWeekday.Saturday).toBe(1);
+    expect(stats.listensByWeekday.Sunday).toBe(0);
+    expect(stats.listensByMonth).toEqual({ "2025-01": 2, "2025-02": 1 });
+  });
+
+  it("should average notes length over listens that have notes", () => {
+    const stats = calculateListenStats(
+      [entry("2025-01-01", "blue", 8, "four"), entry("2025-01-02", "blue", 8, "  eight ch  "), entry("2025-01-03", "blue", 8)],
+      albums
+    );
+
+    expect(stats.averageNotesLength).toBe(6);
+  });
+
+  it("should find the most re-listened album", () => {
+    const stats = calculateListenStats(
+      [entry("2025-01-03", "blue", 8), entry("2025-01-01", "blue", 8), entry("2025-01-02", "kind-of-blue", 8)],
+      albums
+    );
+
+    expect(stats.mostRelistenedAlbum).toMatchObject({
+      album_mbid: "blue",
+      count: 2,
+      dates: ["2025-01-01", "2025-01-03"],
+    });
+    expect(stats.mostRelistenedAlbum?.album?.title).toBe("Blue");
+  });
+
+  it("should count editions of one album as the same album", () => {
+    const editions = new Map<string, Album>([
+      ["blue-uk", { id: "blue-uk", title: "Blue", artistName: "Joni Mitchell", artistId: "joni", releaseGroupId: "blue-group" }],
+      ["blue-remaster", { id: "blue-remaster", title: "Blue", artistName: "Joni Mitchell", artistId: "joni", releaseGroupId: "blue-group" }],
+      ...albums,
+    ]);
+    const stats = calculateListenStats(
+      [entry("2025-01-01", "blue-uk", 8), entry("2025-01-02", "kind-of-blue", 8), entry("2025-01-03", "blue-remaster", 9)],
+      editions
+    );
+
+    expect(stats.uniqueAlbums).toBe(2);
+    expect(stats.mostRelistenedAlbum).toMatchObject({
+      release_group_mbid: "blue-group",
+      album_mbid: "blue-remaster",
+      count: 2,
+      dates: ["2025-01-01", "2025-01-03"],
+    });
+  });
+});
+
+describe("ListenEventEntries.getUserStats", () => {
+  beforeEach(async () => {
+    clearMockRedis();
+    for (const [mbid, album] of albums) {
+      await mockClient.set(`album:${mbid}`, JSON.stringify(album));
+    }
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2024-12-31", "kind-of-blue", 6, "", "");
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-01", "blue", 9, "", "");
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-02", "blue", 10, "", "");
+  });
+
+  it("should combine the listen log with cached album metadata", async () => {
+    const stats = await ListenEventEntries.getUserStats("testuser");
+
+    expect(stats.year).toBeNull();
+    expect(stats.totalAlbums).toBe(3);
+    expect(stats.decades).toEqual({ "1950s": 1, "1970s": 2 });
+    expect(stats.mostRelistenedAlbum?.album_mbid).toBe("blue");
+  });
+
+  it("should limit statistics to a single year", async () => {
+    const stats = await ListenEventEntries.getUserStats("testuser", "UTC", 0, 2025);
+
+    expect(stats.year).toBe(2025);
+    expect(stats.totalAlbums).toBe(2);
+    expect(stats.averageRating).toBe(9.5);
+    expect(stats.topArtistsByCount.map(artist => artist.artistId)).toEqual(["joni"]);
+  });
+
+  it("should recalculate cached statistics after a new listen", async () => {
+    await ListenEventEntries.getUserStats("testuser", "UTC", 0, 2025);
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-03", "bitches-brew", 7, "", "");
+
+    const stats = await ListenEventEntries.getUserStats("testuser", "UTC", 0, 2025);
+
+    expect(stats.totalAlbums).toBe(3);
+  });
+
+  it("should not carry a cached streak past the user's midnight", async () => {
+    try {
+      setSystemTime(new Date("2025-01-02T23:30:00Z"));
+      expect((await ListenEventEntries.getUserStats("testuser", "UTC")).currentStreak).toBe(3);
+
+      // Nothing was logged since, so only the day tells the cached streak is over
+      setSystemTime(new Date("2025-01-04T00:10:00Z"));
+      expect((await ListenEventEntries.getUserStats("testuser", "UTC")).currentStreak).toBe(0);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("should store the release group of cached releases", async () => {
+    await mockClient.set("album:blue-remaster", JSON.stringify({ ...albums.get("blue"), id: "blue-remaster", releaseGroupId: "blue-group" }));
+
+    const stored = await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-04", "blue-remaster", 9, "", "");
+    const hinted = await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-05", "uncached", 9, "", "", undefined, "other-group");
+
+    expect(stored.release_group_mbid).toBe("blue-group");
+    expect((await ListenEventEntries.getListenEventEntry("testuser", "2025-01-04"))?.release_group_mbid).toBe("blue-group");
+    expect(hinted.release_group_mbid).toBe("other-group");
+  });
+
+  it("should regroup listens under the release group the release turns out to have", async () => {
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-05", "uncached", 9, "", "", undefined, "wrong-group");
+    await ListenEventEntries.addOrUpdateListenEventEntry("otheruser", "2025-01-05", "uncached", 7, "", "");
+
+    expect(await ListenEventEntries.settleReleaseGroup("uncached", "right-group")).toBe(2);
+
+    expect((await ListenEventEntries.getListenEventEntry("testuser", "2025-01-05"))?.release_group_mbid).toBe("right-group");
+    const stats = await ListenEventEntries.getReleaseGroupStats(["right-group", "wrong-group", "uncached"]);
+    expect(stats.get("right-group")).toEqual({ listens: 2, averageRating: 8 });
+    expect(stats.get("wrong-group")).toEqual({ listens: 0, averageRating: null });
+    expect(stats.get("uncached")).toEqual({ listens: 0, averageRating: null });
+
+    // Settled once: nothing left to check
+    expect(await ListenEventEntries.settleReleaseGroup("uncached", "right-group")).toBe(0);
+  });
+
+  it("should count listens per release group across users", async () => {
+    await mockClient.set("album:blue", JSON.stringify({ ...albums.get("blue"), releaseGroupId: "blue-group" }));
+    await ListenEventEntries.addOrUpdateListenEventEntry("otheruser", "2025-01-01", "blue", 8, "", "");
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-02", "blue", 10, "", "");
+    await ListenEventEntries.deleteListenEventEntry("testuser", "2024-12-31");
+
+    const counts = await ListenEventEntries.getReleaseGroupListenCounts(["blue-group", "blue", "kind-of-blue"]);
+
+    expect(counts.get("blue-group")).toBe(2);
+    expect(counts.get("blue")).toBe(1); // 2025-01-01 for testuser, logged before its group was known
+    expect(counts.get("kind-of-blue")).toBe(0);
+  });
+
+  it("should count listens under their release until it is cached, whatever group the client gave", async () => {
+    await ListenEventEntries.addOrUpdateListenEventEntry("otheruser", "2025-01-01", "blue", 8, "", "", undefined, "made-up-group");
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-02", "blue", 10, "", "", undefined, "made-up-group");
+
+    // The user's own listens go by the hint, the site-wide counters don't
+    expect((await ListenEventEntries.getUserReleaseGroupListens("otheruser")).get("made-up-group")).toBe(1);
+    let counts = await ListenEventEntries.getReleaseGroupListenCounts(["made-up-group", "blue"]);
+    expect(counts.get("made-up-group")).toBe(0);
+    expect(counts.get("blue")).toBe(3);
+
+    expect(await ListenEventEntries.settleReleaseGroup("blue", "blue-group")).toBe(3);
+    counts = await ListenEventEntries.getReleaseGroupListenCounts(["made-up-group", "blue", "blue-group"]);
+    expect(counts.get("made-up-group")).toBe(0);
+    expect(counts.get("blue")).toBe(0);
+    expect(counts.get("blue-group")).toBe(3);
+
+    // Deleting a settled listen takes it out of its group
+    await ListenEventEntries.deleteListenEventEntry("otheruser", "2025-01-01");
+    expect((await ListenEventEntries.getReleaseGroupListenCounts(["blue-group"])).get("blue-group")).toBe(2);
+  });
+
+  it("should average ratings per release group across users and follow edits", async () => {
+    await mockClient.set("album:blue", JSON.stringify({ ...albums.get("blue"), releaseGroupId: "blue-group" }));
+    await ListenEventEntries.addOrUpdateListenEventEntry("otheruser", "2025-01-01", "blue", 8, "", "");
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-02", "blue", 10, "", "");
+    await ListenEventEntries.updateListenEventEntry("otheruser", "2025-01-01", { rating: 7 });
+
+    const stats = await ListenEventEntries.getReleaseGroupStats(["blue-group", "never-logged"]);
+
+    expect(stats.get("blue-group")).toEqual({ listens: 2, averageRating: 8.5 });
+    expect(stats.get("never-logged")).toEqual({ listens: 0, averageRating: null });
+  });
+
+  it("should average ratings over rated listens only", async () => {
+    await mockClient.set("album:blue", JSON.stringify({ ...albums.get("blue"), releaseGroupId: "blue-group" }));
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-03", "blue", undefined, "", "");
+    await ListenEventEntries.addOrUpdateListenEventEntry("otheruser", "2025-01-03", "blue", 8, "", "");
+
+    const stats = await ListenEventEntries.getUserStats("testuser", "UTC", 0, 2025);
+    expect(stats.totalAlbums).toBe(3);
+    expect(stats.averageRating).toBe(9.5);
+    expect((await ListenEventEntries.getListenEventEntry("testuser", "2025-01-03"))?.rating).toBeUndefined();
+    expect((await ListenEventEntries.getReleaseGroupStats(["blue-group"])).get("blue-group")).toEqual({ listens: 2, averageRating: 8 });
+
+    // Rating it later counts it; clearing the rating takes it out again
+    await ListenEventEntries.updateListenEventEntry("testuser", "2025-01-03", { rating: 10 });
+    expect((await ListenEventEntries.getReleaseGroupStats(["blue-group"])).get("blue-group")).toEqual({ listens: 2, averageRating: 9 });
+    await ListenEventEntries.updateListenEventEntry("testuser", "2025-01-03", { rating: null });
+    expect((await ListenEventEntries.getReleaseGroupStats(["blue-group"])).get("blue-group")).toEqual({ listens: 2, averageRating: 8 });
+  });
+
+  it("should count a user's listens per release group", async () => {
+    await mockClient.set("album:blue", JSON.stringify({ ...albums.get("blue"), releaseGroupId: "blue-group" }));
+
+    const listens = await ListenEventEntries.getUserReleaseGroupListens("testuser");
+
+    expect(listens.get("blue-group")).toBe(2);
+    expect(listens.get("kind-of-blue")).toBe(1);
+  });
+
+  it("should recount release group counters from stored entries", async () => {
+    await mockClient.del("ReleaseGroupListens", "ReleaseGroupRatings");
+
+    expect(await ListenEventEntries.rebuildReleaseGroupCounters()).toBe(3);
+    expect((await ListenEventEntries.getReleaseGroupStats(["blue"])).get("blue")).toEqual({ listens: 2, averageRating: 9.5 });
+  });
+
+  it("should keep the counters and the listens logged while recounting", async () => {
+    const recount = ListenEventEntries.rebuildReleaseGroupCounters();
+    expect((await ListenEventEntries.getReleaseGroupListenCounts(["blue"])).get("blue")).toBe(2);
+    await ListenEventEntries.addOrUpdateListenEventEntry("otheruser", "2025-01-03", "blue", 8, "", "");
+    await recount;
+
+    expect((await ListenEventEntries.getReleaseGroupStats(["blue"])).get("blue")).toEqual({ listens: 3, averageRating: 9 });
+    expect(await mockClient.keys("ReleaseGroup*:recount:*")).toEqual([]);
+  });
+
+  it("should count listens logged before the counters existed, once", async () => {
+    // As left by a version without release group counters
+    await mockClient.del("ReleaseGroupListens", "ReleaseGroupRatings", "ReleaseGroupRatedListens", "ReleaseGroupCountersBuilt");
+
+    expect((await ListenEventEntries.getReleaseGroupStats(["blue"])).get("blue")).toEqual({ listens: 2, averageRating: 9.5 });
+    expect(await mockClient.get("ReleaseGroupCountersBuilt")).toBeTruthy();
+
+    // Later listens are counted as they're logged, not recounted
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-03", "blue", 8, "", "");
+    expect((await ListenEventEntries.getReleaseGroupListenCounts(["blue"])).get("blue")).toBe(3);
+  });
+});
+
+describe("favorite tracks", () => {
+  const ref = (recording_mbid: string, position: number, track_count = 10) => ({ recording_mbid, position, track_count });
+
+  beforeEach(async () => {
+    clearMockRedis();
+    await mockClient.set("album:blue", JSON.stringify({
+      ...albums.get("blue"),
+      tracks: ["All I Want", "My Old Man", "A Case of You"].map((title, index) => ({
+        id: `track-${index}`,
+        title,
+        releaseId: "blue",
+        artistName: "Joni Mitchell",
+        artistID: "joni",
+        discNumber: 1,
+        position: index + 1,
+        recordingId: `recording-${index}`,
+      })),
+    }));
+  });
+
+  it("should classify favorite track positions", () => {
+    const stats = calculateListenStats(
+      [
+        { ...entry("2025-01-01", "blue", 8), favorite_track: "All I Want", favorite_track_ref: ref("a", 1) },
+        { ...entry("2025-01-02", "blue", 8), favorite_track: "A Case of You", favorite_track_ref: ref("c", 10) },
+        { ...entry("2025-01-03", "blue", 8), favorite_track: "My Old Man", favorite_track_ref: ref("b", 5) },
+        { ...entry("2025-01-04", "blue", 8), favorite_track: "A Case of You", favorite_track_ref: ref("c", 10) },
+        { ...entry("2025-01-05", "blue", 8), favorite_track: "free text only" },
+      ],
+      albums
+    );
+
+    expect(stats.favoriteTrackPositions).toEqual({ opener: 1, middle: 1, closer: 2 });
+    expect(stats.topFavoriteTracks[0]).toEqual({ recording_mbid: "c", title: "A Case of You", album_mbid: "blue", count: 2 });
+    expect(stats.topFavoriteTracks).toHaveLength(3);
+  });
+
+  it("should resolve a recording against the album's cached tracklist", async () => {
+    expect(await ListenEventEntries.resolveFavoriteTrack("blue", "recording-2")).toEqual({
+      reference: { recording_mbid: "recording-2", position: 3, track_count: 3 },
+      title: "A Case of You",
+    });
+    expect(await ListenEventEntries.resolveFavoriteTrack("blue", "elsewhere")).toBeNull();
+    expect(await ListenEventEntries.resolveFavoriteTrack("uncached", "recording-2")).toBeNull();
+  });
+
+  it("should store the reference alongside the display text", async () => {
+    await ListenEventEntries.addOrUpdateListenEventEntry("testuser", "2025-01-01", "blue", 9, "A Case of You", "", ref("recording-2", 3, 3));
+
+    const stored = await ListenEventEntries.getListenEventEntry("testuser", "2025-01-01");
+    expect(stored?.favorite_track).toBe("A Case of You");
+    expect(stored?.favorite_track_ref).toEqual(ref("recording-2", 3, 3));
+
+    const updated = await ListenEventEntries.updateListenEventEntry("testuser", "2025-01-01", { favorite_track: "Retyped" });
+    expect(updated?.favorite_track_ref).toBeUndefined();
+    expect((await ListenEventEntries.getListenEventEntry("testuser", "2025-01-01"))?.favorite_track_ref).toBeUndefined();
+  });
+
+  it("should keep global counters in step with edits and deletes", async () => {
+    await ListenEventEntries.addOrUpdateListenEventEntry("alice", "2025-01-01", "blue", 9, "A Case of You", "", ref("recording-2", 3, 3));
+    await ListenEventEntries.addOrUpdateListenEventEntry("bob", "2025-01-01", "blue", 9, "A Case of You", "", ref("recording-2", 3, 3));
+    await ListenEventEntries.addOrUpdateListenEventEntry("bob", "2025-01-02", "blue", 9, "All I Want", "", ref("recording-0", 1, 3));
+
+    expect(await ListenEventEntries.getGlobalFavoriteTracks()).toEqual([
+      { recording_mbid: "recording-2", title: "A Case of You", album_mbid: "blue", count: 2 },
+      { recording_mbid: "recording-0", title: "All I Want", album_mbid: "blue", count: 1 },
+    ]);
+    expect(await ListenEventEntries.getGlobalFavoriteTrackPositions()).toEqual({ opener: 1, middle: 0, closer: 2 });
+
+    await ListenEventEntries.updateListenEventEntry("alice", "2025-01-01", { favorite_track_ref: ref("recording-0", 1, 3), favorite_track: "All I Want" });
+    await ListenEventEntries.deleteListenEventEntry("bob", "2025-01-01");
+
+    expect(await ListenEventEntries.getGlobalFavoriteTracks()).toEqual([
+      { recording_mbid: "recording-0", title: "All I Want", album_mbid: "blue", count: 2 },
+    ]);
+    expect(await ListenEventEntries.getGlobalFavoriteTrackPositions()).toEqual({ opener: 2, middle: 0, closer: 0 });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "bun:test";
+import { validateDate, validateRating } from "../src/app/lib/listen-validation";
+
+describe("listen validation", () => {
+  it("should accept ratings from 0 to 10 including half steps", () => {
+    expect(validateRating(0)).toBe(true);
+    expect(validateRating(7.5)).toBe(true);
+    expect(validateRating(10)).toBe(true);
+  });
+
+  it("should reject ratings outside 0 to 10", () => {
+    expect(validateRating(-0.5)).toBe(false);
+    expect(validateRating(10.5)).toBe(false);
+    expect(validateRating(NaN)).toBe(false);
+  });
+
+  it("should only accept real YYYY-MM-DD dates", () => {
+    expect(validateDate("2025-03-10")).toBe(true);
+    expect(validateDate("2024-02-29")).toBe(true);
+    expect(validateDate("2025-02-29")).toBe(false);
+    expect(validateDate("2025-3-10")).toBe(false);
+    expect(validateDate("")).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import { NextRequest } from "next/server";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+mock.module("../src/app/lib/auth-middleware", () => ({
+  authenticateRequest: async () => ({
+    user: { id: "user-1", username: "alice", createdAt: "2024-01-01T00:00:00.000Z", timezone: "UTC", graceDaysPerMonth: 0 },
+  }),
+}));
+
+const { MusicStorage } = await import("../src/app/lib/music-storage");
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+const { POST } = await import("../src/app/api/listening/route");
+
+const KIND_OF_BLUE = "c347ac01-9d1d-5863-aa0e-5a42f3d4d65b";
+const KIND_OF_BLUE_GROUP = "2436e22f-213a-5739-8672-f2a5ac6ace12";
+const FREDDIE_FREELOADER = "d0650de4-91d1-5724-bb65-04da3239560e";
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+function logListen(body: Record<string, unknown>): Promise<Response> {
+  return POST(new NextRequest("http://localhost:3000/api/listening", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ date: "2024-03-01", album_mbid: KIND_OF_BLUE, ...body }),
+  }));
+}
+
+beforeAll(() => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+  process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+});
+
+afterAll(() => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+beforeEach(() => {
+  clearMockRedis();
+  stub.requests.length = 0;
+});
+
+describe("POST /api/listening with a favorite track", () => {
+  it("should fetch the tracklist of an album only cached from search results", async () => {
+    await MusicStorage.cacheAlbum({ id: KIND_OF_BLUE, title: "Kind of Blue", artistName: "Miles Davis", artistId: "561d854a-6a28-4aa7-8c99-323e6ce46c2a" });
+
+    const response = await logListen({ favorite_track_mbid: FREDDIE_FREELOADER });
+
+    expect(response.status).toBe(200);
+    const { entry } = await response.json();
+    expect(entry.favorite_track).toBe("Freddie Freeloader");
+    expect(entry.favorite_track_ref).toEqual({ recording_mbid: FREDDIE_FREELOADER, position: 2, track_count: 5 });
+    expect((await MusicStorage.getCachedAlbum(KIND_OF_BLUE))?.tracks).toHaveLength(5);
+  });
+
+  it("should regroup listens logged before the tracklist was fetched", async () => {
+    await logListen({ date: "2024-02-29", release_group_mbid: "made-up-group" });
+    expect((await ListenEventEntries.getReleaseGroupListenCounts(["made-up-group"])).get("made-up-group")).toBe(0);
+
+    await logListen({ favorite_track_mbid: FREDDIE_FREELOADER });
+
+    expect((await ListenEventEntries.getListenEventEntry("alice", "2024-02-29"))?.release_group_mbid).toBe(KIND_OF_BLUE_GROUP);
+    expect((await ListenEventEntries.getReleaseGroupListenCounts([KIND_OF_BLUE_GROUP])).get(KIND_OF_BLUE_GROUP)).toBe(2);
+  });
+
+  it("should still reject tracks that aren't on the album", async () => {
+    const response = await logListen({ favorite_track_mbid: "00000000-0000-0000-0000-000000000000" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).field).toBe("favorite_track");
+  });
+
+  it("should answer 503 when the tracklist can't be fetched", async () => {
+    stub.failNext(4, 503, "0");
+
+    const response = await logListen({ favorite_track_mbid: FREDDIE_FREELOADER });
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { MockRedisClient, clearMockRedis, mockRedisData } from "./setup";
+import type { Album, Suggestion } from "../src/app/lib/music-storage";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicStorage } = await import("../src/app/lib/music-storage");
+
+const album = (id: string, title: string, artistName: string): Album => ({ id, title, artistName, artistId: artistName });
+
+beforeEach(() => {
+  clearMockRedis();
+});
+
+describe("search suggestions", () => {
+  it("should complete titles and artists of cached albums", async () => {
+    await MusicStorage.cacheAlbum(album("blue", "Blue", "Joni Mitchell"));
+    await MusicStorage.cacheAlbum(album("blue-train", "Blue Train", "John Coltrane"));
+    await MusicStorage.cacheArtist({ id: "blur", name: "Blur" });
+
+    const suggestions = await MusicStorage.getSuggestions("bl");
+
+    expect(suggestions).toHaveLength(3);
+    expect(suggestions).toContainEqual({ text: "Blue", kind: "title" });
+    expect(suggestions).toContainEqual({ text: "Blue Train", kind: "title" });
+    expect(suggestions).toContainEqual({ text: "Blur", kind: "artist" });
+    expect(await MusicStorage.getSuggestions("jo")).toEqual([
+      { text: "John Coltrane", kind: "artist" },
+      { text: "Joni Mitchell", kind: "artist" },
+    ]);
+  });
+
+  it("should return at most the requested number of completions", async () => {
+    for (let i = 0; i < 10; i++) {
+      await MusicStorage.cacheAlbum(album(`a${i}`, `Album ${i}`, `Artist ${i}`));
+    }
+
+    expect(await MusicStorage.getSuggestions("a")).toHaveLength(8);
+    expect(await MusicStorage.getSuggestions("a", 3)).toHaveLength(3);
+  });
+
+  it("should rank what is logged more often first, however often it is cached", async () => {
+    await MusicStorage.cacheAlbum(album("blue", "Blue", "Joni Mitchell"));
+    await MusicStorage.cacheAlbum(album("blue-train", "Blue Train", "John Coltrane"));
+    await MusicStorage.recordLoggedAlbum("blue-train");
+    const ranked: Suggestion[] = [
+      { text: "Blue Train", kind: "title" },
+      { text: "Blue", kind: "title" },
+    ];
+    expect(await MusicStorage.getSuggestions("blue")).toEqual(ranked);
+
+    // Refreshing the cache doesn't rank an album higher
+    await MusicStorage.cacheAlbum(album("blue", "Blue", "Joni Mitchell"));
+    await MusicStorage.cacheAlbum(album("blue", "Blue", "Joni Mitchell"));
+    expect(await MusicStorage.getSuggestions("blue")).toEqual(ranked);
+
+    await MusicStorage.rebuildSuggestions();
+    expect(await MusicStorage.getSuggestions("blue")).toEqual(ranked);
+  });
+
+  it("should rebuild suggestions from cached albums and artists", async () => {
+    mockRedisData.set("album:blue", JSON.stringify(album("blue", "Blue", "Joni Mitchell")));
+    mockRedisData.set("album:mbid:blue", JSON.stringify(album("blue", "Blue", "Joni Mitchell")));
+    mockRedisData.set("artist:blur", JSON.stringify({ id: "blur", name: "Blur" }));
+    await MusicStorage.cacheArtist({ id: "gone", name: "Bluetones" });
+    mockRedisData.delete("artist:gone");
+
+    expect(await MusicStorage.rebuildSuggestions()).toBe(2);
+    expect((await MusicStorage.getSuggestions("b")).map(suggestion => suggestion.text).sort()).toEqual(["Blue", "Blur"]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis, mockRedisData } from "./setup";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicStorage, MUSICBRAINZ_CACHE_POLICIES } = await import("../src/app/lib/music-storage");
+const { MusicBrainzClient } = await import("../src/app/lib/musicbrainz-client");
+
+const RADIOHEAD = "a74b1b7f-71a5-4011-9441-d0b5e4122711";
+const KIND_OF_BLUE = "c347ac01-9d1d-5863-aa0e-5a42f3d4d65b";
+const MISSING = "00000000-0000-0000-0000-000000000000";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+beforeAll(() => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+  process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+});
+
+afterAll(() => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+beforeEach(() => {
+  clearMockRedis();
+  stub.requests.length = 0;
+});
+
+describe("MusicStorage.getOrFetch", () => {
+  const counter = <T>(value: T | null) => mock(async () => value);
+
+  it("should serve fresh entries without calling upstream again", async () => {
+    const fetcher = counter({ id: "a" });
+
+    expect(await MusicStorage.getOrFetch("artist", "a", fetcher)).toEqual({ id: "a" });
+    expect(await MusicStorage.getOrFetch("artist", "a", fetcher)).toEqual({ id: "a" });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should remember entities that don't exist", async () => {
+    const fetcher = counter(null);
+
+    expect(await MusicStorage.getOrFetch("release", "gone", fetcher)).toBeNull();
+    expect(await MusicStorage.getOrFetch("release", "gone", fetcher)).toBeNull();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache failures", async () => {
+    const failing = mock(async () => {
+      throw new Error("MusicBrainz API error: 503 Service Unavailable");
+    });
+
+    await expect(MusicStorage.getOrFetch("release", "flaky", failing)).rejects.toThrow("503");
+    expect(await MusicStorage.getOrFetch("release", "flaky", counter({ id: "flaky" }))).toEqual({ id: "flaky" });
+  });
+
+  it("should return stale entries and refresh them in the background", async () => {
+    const fetchedAt = Date.now() - (MUSICBRAINZ_CACHE_POLICIES.artist.freshFor * 1000 + DAY_MS);
+    mockRedisData.set("musicbrainz:artist:a", JSON.stringify({ value: { id: "a", name: "Old" }, fetchedAt }));
+    const fetcher = counter({ id: "a", name: "New" });
+
+    expect(await MusicStorage.getOrFetch("artist", "a", fetcher)).toEqual({ id: "a", name: "Old" });
+
+    await Bun.sleep(10);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(await MusicStorage.getOrFetch("artist", "a", fetcher)).toEqual({ id: "a", name: "New" });
+  });
+
+  it("should refresh a stale entry only once at a time", async () => {
+    const fetchedAt = Date.now() - (MUSICBRAINZ_CACHE_POLICIES.artist.freshFor * 1000 + DAY_MS);
+    mockRedisData.set("musicbrainz:artist:a", JSON.stringify({ value: { id: "a" }, fetchedAt }));
+    const fetcher = mock(async () => {
+      await Bun.sleep(20);
+      return { id: "a" };
+    });
+
+    await Promise.all([
+      MusicStorage.getOrFetch("artist", "a", fetcher),
+      MusicStorage.getOrFetch("artist", "a", fetcher),
+    ]);
+    await Bun.sleep(40);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("MusicBrainzClient lookups", () => {
+  it("should fetch a release once", async () => {
+    await MusicBrainzClient.getRelease(KIND_OF_BLUE);
+    const album = await MusicBrainzClient.getRelease(KIND_OF_BLUE);
+
+    expect(album?.title).toBe("Kind of Blue");
+    expect(album?.releaseGroupId).toBe("2436e22f-213a-5739-8672-f2a5ac6ace12");
+    expect(album?.tracks).toHaveLength(5);
+    expect(stub.requests.filter(request => request.startsWith(`/ws/2/release/${KIND_OF_BLUE}`))).toEqual([
+      `/ws/2/release/${KIND_OF_BLUE}?inc=artist-credits+recordings+release-groups&fmt=json`,
+    ]);
+  });
+
+  it("should not ask again about IDs that 404", async () => {
+    expect(await MusicBrainzClient.getRelease(MISSING)).toBeNull();
+    expect(await MusicBrainzClient.getArtist(MISSING)).toBeNull();
+    expect(await MusicBrainzClient.getReleaseGroup(MISSING)).toBeNull();
+    expect(await MusicBrainzClient.getRelease(MISSING)).toBeNull();
+    expect(await MusicBrainzClient.getArtist(MISSING)).toBeNull();
+    expect(await MusicBrainzClient.getReleaseGroup(MISSING)).toBeNull();
+
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it("should try again after MusicBrainz was unavailable", async () => {
+    stub.failNext(4, 503, "0");
+    expect(await MusicBrainzClient.getArtist(RADIOHEAD)).toBeNull();
+
+    expect((await MusicBrainzClient.getArtist(RADIOHEAD))?.name).toBe("Radiohead");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from "bun:test";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient } from "./setup";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicBrainzClient, getMusicBrainzApiBase, getCoverArtArchiveBase } = await import("../src/app/lib/musicbrainz-client");
+
+const RADIOHEAD = "a74b1b7f-71a5-4011-9441-d0b5e4122711";
+const OK_COMPUTER_GROUP = "b1392450-e666-3926-a536-22c65f834433";
+const OK_COMPUTER_UK = "b44e63a0-1894-5b13-8dd6-704807266087";
+const ABBEY_ROAD = "a3361212-28b6-5a0f-8a79-969ba23e034e";
+
+describe("MusicBrainzClient against the fixture stand-in", () => {
+  let stub: MusicBrainzStub;
+  const originalEnv = {
+    MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+    COVER_ART_ARCHIVE_URL: process.env.COVER_ART_ARCHIVE_URL,
+    MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+  };
+
+  beforeAll(() => {
+    stub = startMusicBrainzStub();
+    process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+    process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+    process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100";
+  });
+
+  afterAll(() => {
+    stub.stop();
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it("should read base URLs from the environment", () => {
+    process.env.COVER_ART_ARCHIVE_URL = `${stub.coverArtArchiveUrl}/`;
+
+    expect(getMusicBrainzApiBase()).toBe(stub.musicBrainzApiUrl);
+    expect(getCoverArtArchiveBase()).toBe(stub.coverArtArchiveUrl);
+
+    process.env.COVER_ART_ARCHIVE_URL = stub.coverArtArchiveUrl;
+  });
+
+  it("should search recorded releases", async () => {
+    const results = await MusicBrainzClient.searchBasic('release:"ok computer" AND artist:radiohead', 10);
+
+    expect(results.albums.map((album: { id: string }) => album.id).sort()).toEqual(
+      ["731b8cb8-ff68-5601-a14d-62e6cf26cb12", OK_COMPUTER_UK].sort()
+    );
+    expect(results.albums[0].artistId).toBe(RADIOHEAD);
+  });
+
+  it("should load a release with its full tracklist", async () => {
+    const album = await MusicBrainzClient.getRelease(ABBEY_ROAD);
+
+    expect(album?.title).toBe("Abbey Road");
+    expect(album?.releaseGroupId).toBe("9162580e-5df4-32de-80cc-f45a8d8a9b1d");
+    expect(album?.tracks).toHaveLength(17);
+    expect(album?.tracks?.[0].title).toBe("Come Together");
+    expect(album?.coverArtUrl?.startsWith(stub.coverArtArchiveUrl)).toBe(true);
+  });
+
+  it("should load artists and release groups", async () => {
+    expect(await MusicBrainzClient.getArtist(RADIOHEAD)).toMatchObject({ id: RADIOHEAD, name: "Radiohead" });
+    expect(await MusicBrainzClient.getReleaseGroup(OK_COMPUTER_GROUP)).toMatchObject({
+      title: "OK Computer",
+      artistId: RADIOHEAD,
+      type: "Album",
+      firstReleaseDate: "1997-05-21",
+    });
+
+    const releases = await MusicBrainzClient.getReleaseGroupReleases(OK_COMPUTER_GROUP, 5);
+    expect(releases.map(release => release.id)[0]).toBe(OK_COMPUTER_UK);
+  });
+
+  it("should prefer the earliest official edition with cover art", async () => {
+    const edition = await MusicBrainzClient.getPreferredEdition(OK_COMPUTER_GROUP);
+
+    expect(edition).toMatchObject({ id: OK_COMPUTER_UK, releaseGroupId: OK_COMPUTER_GROUP, artistName: "Radiohead", status: "Official" });
+    expect(edition?.coverArtUrl?.startsWith(stub.coverArtArchiveUrl)).toBe(true);
+  });
+
+  it("should browse an artist's releases", async () => {
+    const releases = await MusicBrainzClient.getArtistReleases(RADIOHEAD);
+
+    expect(releases).toHaveLength(2);
+    expect(releases.every(release => release.artistName === "Radiohead")).toBe(true);
+  });
+
+  it("should return null for releases that were not recorded", async () => {
+    expect(await MusicBrainzClient.getRelease("00000000-0000-0000-0000-000000000000")).toBeNull();
+  });
+
+  it("should reject lookups with an inc the fixtures weren't recorded with", async () => {
+    const lookup = (query: string) => fetch(`${stub.musicBrainzApiUrl}release/${ABBEY_ROAD}?${query}`);
+
+    expect((await lookup("inc=artist-credits,recordings,release-groups&fmt=json")).status).toBe(400);
+    expect((await lookup("inc=artist-credits+recordings&fmt=json")).status).toBe(400);
+    expect((await lookup("fmt=json")).status).toBe(400);
+    expect((await lookup("inc=artist-credits+recordings+release-groups&fmt=json")).status).toBe(200);
+  });
+
+  it("should serve cover art listings and image bytes", async () => {
+    const listing = await (await fetch(`${stub.coverArtArchiveUrl}/release/${ABBEY_ROAD}`)).json();
+    const front = listing.images.find((image: { front: boolean }) => image.front);
+    expect(front.thumbnails["500"].startsWith(stub.coverArtArchiveUrl)).toBe(true);
+
+    const image = await fetch(front.thumbnails["500"]);
+    expect(image.headers.get("content-type")).toBe("image/jpeg");
+    expect(new Uint8Array(await image.arrayBuffer()).slice(0, 2)).toEqual(new Uint8Array([0xff, 0xd8]));
+
+    expect((await fetch(`${stub.coverArtArchiveUrl}/release/731b8cb8-ff68-5601-a14d-62e6cf26cb12`)).status).toBe(404);
+  });
+});
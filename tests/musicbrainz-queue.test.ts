@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from "bun:test";
+import { type MusicBrainzStub, startMusicBrainzStub } from "./musicbrainz-stub/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicBrainzQueue } = await import("../src/app/lib/musicbrainz-queue");
+const { MusicBrainzClient } = await import("../src/app/lib/musicbrainz-client");
+
+const RADIOHEAD = "a74b1b7f-71a5-4011-9441-d0b5e4122711";
+
+const originalEnv = {
+  MUSICBRAINZ_API_URL: process.env.MUSICBRAINZ_API_URL,
+  MUSICBRAINZ_REQUESTS_PER_SECOND: process.env.MUSICBRAINZ_REQUESTS_PER_SECOND,
+};
+
+let stub: MusicBrainzStub;
+
+beforeAll(() => {
+  stub = startMusicBrainzStub();
+  process.env.MUSICBRAINZ_API_URL = stub.musicBrainzApiUrl;
+});
+
+afterAll(() => {
+  stub.stop();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+beforeEach(() => {
+  clearMockRedis();
+  process.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "20";
+});
+
+describe("MusicBrainzQueue", () => {
+  it("should space requests to the configured rate across callers", async () => {
+    const start = Date.now();
+    await Promise.all([MusicBrainzQueue.acquire(), MusicBrainzQueue.acquire(), MusicBrainzQueue.acquire()]);
+
+    // 50ms slots: the third caller waits for the slot after next, at least one full slot away
+    expect(Date.now() - start).toBeGreaterThanOrEqual(50);
+  });
+
+  it("should record queue depth and wait times", async () => {
+    await Promise.all([MusicBrainzQueue.acquire(), MusicBrainzQueue.acquire()]);
+
+    const metrics = await MusicBrainzQueue.getMetrics();
+    expect(metrics.queueDepth).toBe(0);
+    expect(metrics.requests).toBe(2);
+    expect(Object.values(metrics.waitHistogram).reduce((sum, count) => sum + count, 0)).toBe(2);
+    expect(metrics.averageWaitMs).toBe(Math.round(metrics.totalWaitMs / 2));
+    expect(metrics.pausedUntil).toBeNull();
+  });
+
+  it("should hold every caller back while paused", async () => {
+    await MusicBrainzQueue.backOff(503, 150);
+
+    const start = Date.now();
+    await MusicBrainzQueue.acquire();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+    expect(await MusicBrainzQueue.getMetrics()).toMatchObject({ retries: 1, unavailable: 1, rateLimited: 0 });
+  });
+});
+
+describe("MusicBrainzClient retries", () => {
+  const response = (retryAfter?: string) =>
+    new Response(null, { status: 503, headers: retryAfter ? { "Retry-After": retryAfter } : {} });
+
+  it("should back off exponentially without Retry-After", () => {
+    expect(MusicBrainzClient.getRetryDelay(response(), 0)).toBe(1000);
+    expect(MusicBrainzClient.getRetryDelay(response(), 2)).toBe(4000);
+    expect(MusicBrainzClient.getRetryDelay(response(), 10)).toBe(60000);
+  });
+
+  it("should honor Retry-After in seconds or as a date", () => {
+    expect(MusicBrainzClient.getRetryDelay(response("3"), 0)).toBe(3000);
+
+    const delay = MusicBrainzClient.getRetryDelay(response(new Date(Date.now() + 10000).toUTCString()), 0);
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+
+  it("should retry 429 and 503 responses until one succeeds", async () => {
+    stub.failNext(1, 503, "0");
+    stub.failNext(1, 429, "0");
+
+    const artist = await MusicBrainzClient.getArtist(RADIOHEAD);
+
+    expect(artist?.name).toBe("Radiohead");
+    expect(await MusicBrainzQueue.getMetrics()).toMatchObject({ requests: 3, retries: 2, rateLimited: 1, unavailable: 1 });
+  });
+
+  it("should give up after the last attempt", async () => {
+    stub.failNext(4, 429, "0");
+
+    expect(await MusicBrainzClient.getArtist(RADIOHEAD)).toBeNull();
+    expect((await MusicBrainzQueue.getMetrics()).retries).toBe(3);
+  });
+});
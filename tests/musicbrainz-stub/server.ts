@@ -0,0 +1,231 @@
+// Local stand-in for the MusicBrainz web service and the Cover Art Archive,
+// serving the fixtures in tests/fixtures/musicbrainz. Point the app at it with
+// MUSICBRAINZ_API_URL and COVER_ART_ARCHIVE_URL (tests/run-tests.ts does this).
+
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import type { MusicBrainzArtist, MusicBrainzRelease, MusicBrainzReleaseGroup } from "../../src/app/lib/musicbrainz-client";
+import { MUSICBRAINZ_LOOKUP_INCLUDES, type MusicBrainzLookupEntity } from "../../src/app/lib/musicbrainz-lookups";
+
+const FIXTURES_DIR = path.join(import.meta.dir, "..", "fixtures", "musicbrainz");
+const COVER_ART_ARCHIVE_ORIGIN = /https?:\/\/coverartarchive\.org/g;
+
+export interface MusicBrainzStub {
+  url: string;
+  musicBrainzApiUrl: string; // value for MUSICBRAINZ_API_URL
+  coverArtArchiveUrl: string; // value for COVER_ART_ARCHIVE_URL
+  requests: string[]; // paths with query strings, in order received
+  failNext(count: number, status: 429 | 503, retryAfter?: string): void; // fail the next MusicBrainz requests
+  stop(): void;
+}
+
+// Fixtures are recorded responses, so they carry a few fields the app's own types leave out
+type ReleaseFixture = MusicBrainzRelease & {
+  country?: string;
+  "release-group": Pick<MusicBrainzReleaseGroup, "id" | "title" | "primary-type" | "secondary-types">;
+};
+type ArtistFixture = MusicBrainzArtist & { "sort-name"?: string };
+
+async function readFixture(kind: string, mbid: string): Promise<unknown> {
+  const file = Bun.file(path.join(FIXTURES_DIR, kind, `${path.basename(mbid)}.json`));
+  return (await file.exists()) ? file.json() : null;
+}
+
+async function readAllFixtures<T>(kind: string): Promise<T[]> {
+  const files = readdirSync(path.join(FIXTURES_DIR, kind)).filter(file => file.endsWith(".json")).sort();
+  return Promise.all(files.map(file => Bun.file(path.join(FIXTURES_DIR, kind, file)).json()));
+}
+
+/**
+ * Reduce a Lucene query to lowercase terms, ignoring field names, quotes and operators
+ */
+function queryTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .replace(/\b[a-z]+:/g, " ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter(term => term && !["and", "or", "not"].includes(term));
+}
+
+function matchesQuery(terms: string[], ...fields: (string | undefined)[]): boolean {
+  const haystack = ` ${queryTerms(fields.filter(Boolean).join(" ")).join(" ")} `;
+  return terms.every(term => haystack.includes(` ${term} `));
+}
+
+function notFound(): Response {
+  return Response.json({ error: "Not Found", help: "For usage, please see: https://musicbrainz.org/development/mmd" }, { status: 404 });
+}
+
+/**
+ * Fixtures were recorded with the app's own lookups, so any other `inc` is an
+ * error, as a misspelled one is for MusicBrainz. `rawInc` is as sent, since
+ * URLSearchParams would turn "+" into spaces.
+ */
+function checkIncludes(entity: string, mbid: string | undefined, rawInc: string | undefined): Response | null {
+  const expected = mbid ? MUSICBRAINZ_LOOKUP_INCLUDES[entity as MusicBrainzLookupEntity] : [];
+  const received = rawInc ? decodeURIComponent(rawInc).split("+") : [];
+  if (received.length === expected.length && received.every(include => expected.includes(include))) {
+    return null;
+  }
+
+  return Response.json(
+    { error: `${rawInc ?? "(none)"} is not the inc the fixtures for ${entity} were recorded with (${expected.join("+") || "none"})` },
+    { status: 400 }
+  );
+}
+
+function toSearchRelease(release: ReleaseFixture) {
+  return {
+    id: release.id,
+    score: 100,
+    title: release.title,
+    status: release.status,
+    date: release.date,
+    country: release.country,
+    "artist-credit": release["artist-credit"],
+    "release-group": {
+      id: release["release-group"].id,
+      "primary-type": release["release-group"]["primary-type"],
+      "secondary-types": release["release-group"]["secondary-types"],
+      title: release["release-group"].title,
+    },
+    "track-count": release["track-count"],
+    media: (release.media ?? []).map(medium => ({ format: medium.format, "track-count": medium["track-count"] })),
+  };
+}
+
+function artistIds(entity: Pick<MusicBrainzRelease, "artist-credit">): string[] {
+  return (entity["artist-credit"] ?? []).map(credit => credit.artist.id);
+}
+
+function pageOffset(params: URLSearchParams): number {
+  return parseInt(params.get("offset") || "0", 10);
+}
+
+function paginate<T>(items: T[], params: URLSearchParams): T[] {
+  const offset = pageOffset(params);
+  const limit = parseInt(params.get("limit") || "25", 10);
+  return items.slice(offset, offset + limit);
+}
+
+async function handleMusicBrainz(entity: string, mbid: string | undefined, params: URLSearchParams): Promise<Response> {
+  if (mbid) {
+    const fixture = await readFixture(entity, mbid);
+    return fixture ? Response.json(fixture) : notFound();
+  }
+
+  const query = params.get("query");
+  const artist = params.get("artist");
+  const created = new Date().toISOString();
+
+  if (entity === "release") {
+    const releases = await readAllFixtures<ReleaseFixture>("release");
+    const matches = query
+      ? releases.filter(release => matchesQuery(queryTerms(query), release.title, release["artist-credit"]?.[0]?.name))
+      : releases.filter(release => artist && artistIds(release).includes(artist));
+
+    return Response.json(query
+      ? { created, count: matches.length, offset: 0, releases: paginate(matches, params).map(toSearchRelease) }
+      : { "release-count": matches.length, "release-offset": pageOffset(params), releases: paginate(matches, params).map(toSearchRelease) });
+  }
+
+  if (entity === "release-group") {
+    const groups = await readAllFixtures<MusicBrainzReleaseGroup>("release-group");
+    const matches = query
+      ? groups.filter(group => matchesQuery(queryTerms(query), group.title, group["artist-credit"]?.[0]?.name))
+      : groups.filter(group => artist && artistIds(group).includes(artist));
+    const withoutReleases = paginate(matches, params).map(({ releases, ...group }) => group);
+
+    return Response.json(query
+      ? { created, count: matches.length, offset: 0, "release-groups": withoutReleases }
+      : { "release-group-count": matches.length, "release-group-offset": pageOffset(params), "release-groups": withoutReleases });
+  }
+
+  if (entity === "artist" && query) {
+    const artists = (await readAllFixtures<ArtistFixture>("artist")).filter(a => matchesQuery(queryTerms(query), a.name, a["sort-name"]));
+    return Response.json({ created, count: artists.length, offset: 0, artists: paginate(artists, params) });
+  }
+
+  return notFound();
+}
+
+async function handleCoverArt(mbid: string, file: string | undefined, baseUrl: string): Promise<Response> {
+  // /release/{mbid} is the JSON listing; anything below it (front, front-250, {id}-500.jpg, ...) is the image
+  if (!file) {
+    const fixture = await readFixture("cover-art", mbid);
+    if (!fixture) {
+      return new Response("No cover art found for release", { status: 404 });
+    }
+    return new Response(JSON.stringify(fixture).replace(COVER_ART_ARCHIVE_ORIGIN, baseUrl), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const image = Bun.file(path.join(FIXTURES_DIR, "images", `${path.basename(mbid)}.jpg`));
+  if (!(await image.exists())) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return new Response(image, { headers: { "Content-Type": "image/jpeg" } });
+}
+
+/**
+ * Start the stand-in on a free port (or the given one)
+ */
+export function startMusicBrainzStub(options: { port?: number } = {}): MusicBrainzStub {
+  const requests: string[] = [];
+  const failures: { status: number; retryAfter?: string }[] = [];
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      requests.push(`${url.pathname}${url.search}`);
+
+      const musicBrainz = url.pathname.match(/^\/ws\/2\/(release|release-group|artist)\/?([0-9a-f-]{36})?\/?$/);
+      if (musicBrainz) {
+        const failure = failures.shift();
+        if (failure) {
+          return new Response("Your requests are exceeding the allowable rate limit.", {
+            status: failure.status,
+            headers: failure.retryAfter ? { "Retry-After": failure.retryAfter } : {},
+          });
+        }
+        const rawInc = url.search.match(/[?&]inc=([^&]*)/)?.[1];
+        return checkIncludes(musicBrainz[1], musicBrainz[2], rawInc)
+          ?? handleMusicBrainz(musicBrainz[1], musicBrainz[2], url.searchParams);
+      }
+
+      const coverArt = url.pathname.match(/^\/caa\/release\/([0-9a-f-]{36})(?:\/([^/]+))?\/?$/);
+      if (coverArt) {
+        return handleCoverArt(coverArt[1], coverArt[2], `${url.origin}/caa`);
+      }
+
+      return notFound();
+    },
+  });
+
+  const url = `http://localhost:${server.port}`;
+
+  return {
+    url,
+    musicBrainzApiUrl: `${url}/ws/2/`,
+    coverArtArchiveUrl: `${url}/caa`,
+    requests,
+    failNext: (count, status, retryAfter) => {
+      for (let i = 0; i < count; i++) {
+        failures.push({ status, retryAfter });
+      }
+    },
+    stop: () => server.stop(true),
+  };
+}
+
+// Run standalone with `bun tests/musicbrainz-stub/server.ts [--port=5555]` to develop against fixtures
+if (import.meta.main) {
+  const port = parseInt(process.argv.find(arg => arg.startsWith("--port="))?.split("=")[1] || "5555", 10);
+  const stub = startMusicBrainzStub({ port });
+  console.log(`MusicBrainz stand-in listening on ${stub.url}`);
+  console.log(`  MUSICBRAINZ_API_URL=${stub.musicBrainzApiUrl}`);
+  console.log(`  COVER_ART_ARCHIVE_URL=${stub.coverArtArchiveUrl}`);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, mock } from "bun:test";
+import { MockRedisClient } from "./setup";
+import type { MusicBrainzRelease } from "../src/app/lib/musicbrainz-client";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicBrainzClient } = await import("../src/app/lib/musicbrainz-client");
+
+const artistCredit = [{ name: "The Beatles", artist: { id: "beatles", name: "The Beatles" } }];
+
+const track = (id: string, position: number, title: string, length: number | null) => ({
+  id,
+  number: position.toString(),
+  title,
+  position,
+  length,
+  recording: { id: `recording-${id}`, title, length },
+});
+
+const release: MusicBrainzRelease = {
+  id: "white-album",
+  title: "The Beatles",
+  "artist-credit": artistCredit,
+  "track-count": 4,
+  "release-group": { id: "white-album-group" },
+  media: [
+    {
+      position: 2,
+      "track-count": 2,
+      tracks: [track("d2t2", 2, "Revolution 1", 255000), track("d2t1", 1, "Birthday", 162000)],
+    },
+    {
+      position: 1,
+      "track-count": 2,
+      tracks: [track("d1t1", 1, "Back in the U.S.S.R.", 163000), track("d1t2", 2, "Dear Prudence", null)],
+    },
+  ],
+};
+
+describe("MusicBrainzClient.parseTracks", () => {
+  it("should flatten media into tracks ordered by disc and position", () => {
+    const tracks = MusicBrainzClient.parseTracks(release);
+
+    expect(tracks.map(t => [t.discNumber, t.position, t.title])).toEqual([
+      [1, 1, "Back in the U.S.S.R."],
+      [1, 2, "Dear Prudence"],
+      [2, 1, "Birthday"],
+      [2, 2, "Revolution 1"],
+    ]);
+  });
+
+  it("should keep track and recording MBIDs, length and credits", () => {
+    const [opener, second] = MusicBrainzClient.parseTracks(release);
+
+    expect(opener).toEqual({
+      id: "d1t1",
+      title: "Back in the U.S.S.R.",
+      releaseId: "white-album",
+      artistName: "The Beatles",
+      artistID: "beatles",
+      discNumber: 1,
+      position: 1,
+      length: 163000,
+      recordingId: "recording-d1t1",
+    });
+    expect(second.length).toBeUndefined();
+  });
+
+  it("should return no tracks for releases fetched without media", () => {
+    expect(MusicBrainzClient.parseTracks({ ...release, media: undefined })).toEqual([]);
+  });
+});
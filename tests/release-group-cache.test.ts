@@ -57,19 +57,6 @@ describe("Release Group Cache", () => {
     expect(cached?.musicBrainzId).toBe(testReleaseGroup.musicBrainzId);
   });
 
-  it("should cache and retrieve releases for a release group", async () => {
-    // Cache releases for the release group
-    await MusicStorage.cacheReleaseGroupReleases(testReleaseGroup.musicBrainzId!, [testAlbum]);
-    
-    // Retrieve the cached releases
-    const cachedReleases = await MusicStorage.getCachedReleaseGroupReleases(testReleaseGroup.musicBrainzId!);
-    
-    expect(cachedReleases).not.toBeNull();
-    expect(cachedReleases!.length).toBe(1);
-    expect(cachedReleases![0].id).toBe(testAlbum.id);
-    expect(cachedReleases![0].releaseGroupId).toBe(testAlbum.releaseGroupId);
-  });
-
 
 
   it("should include release groups in cache statistics", async () => {
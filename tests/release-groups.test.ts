@@ -0,0 +1,51 @@
+import { describe, it, expect } from "bun:test";
+import { compareEditions, pickPreferredEdition, getReleaseGroupKey } from "../src/app/lib/release-groups";
+import type { Album } from "../src/app/lib/music-storage";
+
+const edition = (id: string, fields: Partial<Album> = {}): Album => ({
+  id,
+  title: "OK Computer",
+  artistName: "Radiohead",
+  artistId: "radiohead",
+  releaseGroupId: "ok-computer",
+  ...fields,
+});
+
+describe("compareEditions", () => {
+  it("should order official releases first, then by date with undated last", () => {
+    const editions = [
+      edition("undated", { status: "Official" }),
+      edition("bootleg", { status: "Bootleg", releaseDate: "1990-01-01" }),
+      edition("us", { status: "Official", releaseDate: "1997-07-01" }),
+      edition("uk", { status: "Official", releaseDate: "1997-05-21" }),
+    ];
+
+    expect(editions.sort(compareEditions).map(album => album.id)).toEqual(["uk", "us", "undated", "bootleg"]);
+  });
+});
+
+describe("pickPreferredEdition", () => {
+  it("should pick the earliest official edition that has cover art", () => {
+    const preferred = pickPreferredEdition([
+      edition("uk", { status: "Official", releaseDate: "1997-05-21" }),
+      edition("us", { status: "Official", releaseDate: "1997-07-01", coverArtUrl: "https://example.com/us.jpg" }),
+    ]);
+
+    expect(preferred?.id).toBe("us");
+  });
+
+  it("should fall back to the earliest edition when none have art", () => {
+    expect(pickPreferredEdition([edition("us", { releaseDate: "1997-07-01" }), edition("uk", { releaseDate: "1997-05-21" })])?.id).toBe("uk");
+    expect(pickPreferredEdition([])).toBeNull();
+  });
+});
+
+describe("getReleaseGroupKey", () => {
+  const albums = new Map([["uk", edition("uk")]]);
+
+  it("should use the stored release group, then the cached release's group, then the release", () => {
+    expect(getReleaseGroupKey({ album_mbid: "uk", release_group_mbid: "stored" }, albums)).toBe("stored");
+    expect(getReleaseGroupKey({ album_mbid: "uk" }, albums)).toBe("ok-computer");
+    expect(getReleaseGroupKey({ album_mbid: "unknown" }, albums)).toBe("unknown");
+  });
+});
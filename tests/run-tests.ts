@@ -1,6 +1,7 @@
 #!/usr/bin/env bun
 
 import { spawn } from "bun";
+import { startMusicBrainzStub } from "./musicbrainz-stub/server";
 
 // Test configuration
 const testConfig = {
@@ -43,9 +44,16 @@ testCommand.push("--timeout", testConfig.timeout.toString());
 Bun.env.NODE_ENV = "test";
 Bun.env.REDIS_URL = "redis://localhost:6379"; // Mock will handle this
 
+// Serve MusicBrainz and Cover Art Archive requests from recorded fixtures
+const musicBrainzStub = startMusicBrainzStub();
+Bun.env.MUSICBRAINZ_API_URL = musicBrainzStub.musicBrainzApiUrl;
+Bun.env.COVER_ART_ARCHIVE_URL = musicBrainzStub.coverArtArchiveUrl;
+Bun.env.MUSICBRAINZ_REQUESTS_PER_SECOND = "100"; // no need to be polite to a local stand-in
+
 console.log("🧪 Running authentication route tests...");
 console.log(`📁 Test pattern: ${specificTest || testConfig.pattern}`);
 console.log(`⚙️  Environment: ${process.env.NODE_ENV}`);
+console.log(`🎵 MusicBrainz stand-in: ${musicBrainzStub.url}`);
 console.log("");
 
 // Run the tests
@@ -53,9 +61,11 @@ const testProcess = spawn({
   cmd: testCommand,
   stdout: "inherit",
   stderr: "inherit",
+  env: Bun.env,
 });
 
 const exitCode = await testProcess.exited;
+musicBrainzStub.stop();
 
 if (exitCode === 0) {
   console.log("");
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import {
+  parseSearchQuery,
+  SearchQueryError,
+  toMusicBrainzQuery,
+  toRediSearchQuery,
+} from "../src/app/lib/search-query";
+
+describe("parseSearchQuery", () => {
+  it("should separate fields from free text", () => {
+    expect(parseSearchQuery('blue artist:"Joni Mitchell" year:1970..1979 type:ALBUM')).toEqual({
+      text: "blue",
+      artist: "Joni Mitchell",
+      year: { from: 1970, to: 1979 },
+      type: "Album",
+    });
+  });
+
+  it("should accept single years and open ranges", () => {
+    expect(parseSearchQuery("year:1971").year).toEqual({ from: 1971, to: 1971 });
+    expect(parseSearchQuery("year:..1969").year).toEqual({ from: undefined, to: 1969 });
+    expect(parseSearchQuery("year:2000..").year).toEqual({ from: 2000, to: undefined });
+  });
+
+  it("should keep unknown fields as free text", () => {
+    expect(parseSearchQuery('release:"ok computer" label:parlophone')).toEqual({
+      text: 'release:"ok computer" label:parlophone',
+    });
+  });
+
+  it("should reject malformed fields", () => {
+    expect(() => parseSearchQuery("year:seventies")).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery("year:1979..1970")).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery("type:mixtape")).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery("artist:")).toThrow(SearchQueryError);
+  });
+});
+
+describe("query translation", () => {
+  const query = parseSearchQuery('blue artist:"Joni Mitchell" year:1970..1979 type:ep');
+
+  it("should build a RediSearch query over the album index", () => {
+    expect(toRediSearchQuery(query)).toBe(
+      "@title:%blue% @artistName:(Joni Mitchell) @releaseYear:[1970 1979] @type:{EP}"
+    );
+    expect(toRediSearchQuery(parseSearchQuery("year:..1969"))).toBe("@releaseYear:[-inf 1969]");
+  });
+
+  it("should build a MusicBrainz Lucene query", () => {
+    expect(toMusicBrainzQuery(query)).toBe(
+      '(blue) AND artist:"Joni Mitchell" AND date:[1970 TO 1979] AND primarytype:ep'
+    );
+    expect(toMusicBrainzQuery(parseSearchQuery("ok computer"))).toBe("ok computer");
+  });
+});
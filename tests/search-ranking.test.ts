@@ -0,0 +1,70 @@
+import { describe, it, expect, mock } from "bun:test";
+import { MockRedisClient } from "./setup";
+import type { SearchCandidate } from "../src/app/lib/music-storage";
+import { parseSearchQuery } from "../src/app/lib/search-query";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { rankAlbums } = await import("../src/app/lib/search-ranking");
+
+const candidate = (id: string, fields: Partial<SearchCandidate> = {}): SearchCandidate => ({
+  id,
+  title: "Blue",
+  artistName: "Joni Mitchell",
+  artistId: "joni",
+  releaseGroupId: "blue",
+  status: "Official",
+  type: "Album",
+  ...fields,
+});
+
+describe("rankAlbums", () => {
+  it("should return one edition per release group with a count of the others", () => {
+    const ranked = rankAlbums(
+      [
+        candidate("blue-reissue", { releaseDate: "1990-01-01", coverArtUrl: "https://example.com/reissue.jpg" }),
+        candidate("blue-original", { releaseDate: "1971-06-22" }),
+        candidate("blue-promo", { status: "Promotion", releaseDate: "1971-05-01" }),
+      ],
+      parseSearchQuery("blue")
+    );
+
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0]).toMatchObject({ id: "blue-reissue", otherEditions: 2 });
+  });
+
+  it("should put exact title and artist matches first", () => {
+    const ranked = rankAlbums(
+      [
+        candidate("blue-weezer", { artistName: "Weezer", releaseGroupId: "weezer-blue", title: "Weezer (Blue Album)" }),
+        candidate("blue-joni"),
+      ],
+      parseSearchQuery("Joni Mitchell – Blue")
+    );
+
+    expect(ranked.map(album => album.id)).toEqual(["blue-joni", "blue-weezer"]);
+    expect(rankAlbums(ranked.reverse(), parseSearchQuery('title:blue artist:"joni mitchell"'))[0].id).toBe("blue-joni");
+  });
+
+  it("should prefer official albums over EPs and bootlegs", () => {
+    const ranked = rankAlbums(
+      [
+        candidate("bootleg", { releaseGroupId: "bootleg", status: "Bootleg" }),
+        candidate("ep", { releaseGroupId: "ep", type: "EP" }),
+        candidate("album", { releaseGroupId: "album" }),
+      ],
+      parseSearchQuery("something else")
+    );
+
+    expect(ranked.map(album => album.id)).toEqual(["album", "ep", "bootleg"]);
+  });
+
+  it("should weigh in site listens and the MusicBrainz score", () => {
+    const albums = [candidate("a", { releaseGroupId: "a", score: 80 }), candidate("b", { releaseGroupId: "b", score: 100 })];
+
+    expect(rankAlbums(albums, parseSearchQuery(""))[0].id).toBe("b");
+    expect(rankAlbums(albums, parseSearchQuery(""), new Map([["a", 3]]))[0].id).toBe("a");
+  });
+});
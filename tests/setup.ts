@@ -3,22 +3,127 @@ import { beforeEach, afterEach } from "bun:test";
 // Mock Redis client for testing
 const mockRedisData = new Map<string, string>();
 const mockRedisHash = new Map<string, Record<string, string>>();
+const mockRedisSortedSet = new Map<string, Map<string, number>>();
+const mockRedisExpiry = new Map<string, number>(); // string key -> expiry time in ms
+const mockRedisSuggestions = new Map<string, Map<string, number>>(); // FT.SUGADD dictionaries
+const mockRedisList = new Map<string, string[]>(); // head (LPUSH end) first
+const mockRedisSet = new Map<string, Set<string>>();
+
+// Parse a sorted set score bound ("-inf", "+inf", "(5" for exclusive)
+function parseScoreBound(bound: string | number): { value: number; exclusive: boolean } {
+  const text = String(bound);
+  const exclusive = text.startsWith("(");
+  const raw = exclusive ? text.slice(1) : text;
+  const value = raw === "-inf" ? -Infinity : raw === "+inf" || raw === "inf" ? Infinity : Number(raw);
+  return { value, exclusive };
+}
+
+function sortedMembers(key: string): [string, number][] {
+  const set = mockRedisSortedSet.get(key);
+  if (!set) return [];
+  return [...set.entries()].sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]));
+}
+
+function membersByScore(key: string, min: string | number, max: string | number, options: (string | number)[]): string[] {
+  const lower = parseScoreBound(min);
+  const upper = parseScoreBound(max);
+  let members = sortedMembers(key)
+    .filter(([, score]) => (lower.exclusive ? score > lower.value : score >= lower.value))
+    .filter(([, score]) => (upper.exclusive ? score < upper.value : score <= upper.value))
+    .map(([member]) => member);
+
+  const limitIndex = options.findIndex(option => String(option).toUpperCase() === "LIMIT");
+  if (limitIndex !== -1) {
+    const offset = Number(options[limitIndex + 1]);
+    const count = Number(options[limitIndex + 2]);
+    members = members.slice(offset, count < 0 ? undefined : offset + count);
+  }
+
+  return members;
+}
+
+function sliceByRank<T>(items: T[], start: number, stop: number): T[] {
+  const from = start < 0 ? Math.max(items.length + start, 0) : start;
+  const to = stop < 0 ? items.length + stop : stop;
+  return items.slice(from, to + 1);
+}
+
+// String value of a key, dropping it once its PX/EX expiry has passed
+function liveValue(key: string): string | null {
+  const expiresAt = mockRedisExpiry.get(key);
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    mockRedisData.delete(key);
+    mockRedisExpiry.delete(key);
+  }
+  return mockRedisData.get(key) || null;
+}
 
 // Mock RedisClient class
 class MockRedisClient {
   async get(key: string): Promise<string | null> {
-    return mockRedisData.get(key) || null;
+    return liveValue(key);
   }
 
-  async set(key: string, value: string): Promise<string> {
+  // Supports the NX, PX and EX options
+  async set(key: string, value: string, ...options: (string | number)[]): Promise<string | null> {
+    const flags = options.map(option => String(option).toUpperCase());
+    // Checked synchronously so concurrent SET NX calls behave atomically, as in Redis
+    if (flags.includes("NX") && liveValue(key) !== null) {
+      return null;
+    }
+
     mockRedisData.set(key, value);
+    mockRedisExpiry.delete(key);
+
+    const px = flags.indexOf("PX");
+    const ex = flags.indexOf("EX");
+    if (px !== -1) mockRedisExpiry.set(key, Date.now() + Number(options[px + 1]));
+    if (ex !== -1) mockRedisExpiry.set(key, Date.now() + Number(options[ex + 1]) * 1000);
     return "OK";
   }
 
-  async del(key: string): Promise<number> {
-    const existed = mockRedisData.has(key);
-    mockRedisData.delete(key);
-    return existed ? 1 : 0;
+  async del(...keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      const existed = mockRedisData.has(key) || mockRedisHash.has(key) || mockRedisSortedSet.has(key) || mockRedisList.has(key) || mockRedisSet.has(key) || mockRedisSuggestions.has(key);
+      mockRedisData.delete(key);
+      mockRedisSuggestions.delete(key);
+      mockRedisHash.delete(key);
+      mockRedisSortedSet.delete(key);
+      mockRedisList.delete(key);
+      mockRedisSet.delete(key);
+      if (existed) deleted++;
+    }
+    return deleted;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return liveValue(key) !== null || mockRedisHash.has(key) || mockRedisSortedSet.has(key) || mockRedisList.has(key) || mockRedisSet.has(key);
+  }
+
+  async incr(key: string): Promise<number> {
+    const value = parseInt(liveValue(key) ?? "0", 10) + 1;
+    mockRedisData.set(key, String(value));
+    return value;
+  }
+
+  async rename(key: string, newKey: string): Promise<"OK"> {
+    const stores: Map<string, unknown>[] = [mockRedisData, mockRedisHash, mockRedisSortedSet, mockRedisList, mockRedisSet, mockRedisSuggestions];
+    const store = stores.find(candidate => candidate.has(key));
+    if (!store) {
+      throw new Error("ERR no such key");
+    }
+    const value = store.get(key);
+    await this.del(newKey);
+    store.delete(key);
+    store.set(newKey, value);
+    return "OK";
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    const regex = new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+    return [...mockRedisData.keys(), ...mockRedisHash.keys(), ...mockRedisSortedSet.keys()].filter(key => regex.test(key));
   }
 
   async hget(hash: string, field: string): Promise<string | null> {
@@ -26,6 +131,23 @@ class MockRedisClient {
     return hashData?.[field] || null;
   }
 
+  async hgetall(hash: string): Promise<Record<string, string>> {
+    return { ...(mockRedisHash.get(hash) || {}) };
+  }
+
+  async hdel(hash: string, ...fields: string[]): Promise<number> {
+    const hashData = mockRedisHash.get(hash);
+    if (!hashData) return 0;
+    let deleted = 0;
+    for (const field of fields) {
+      if (field in hashData) {
+        delete hashData[field];
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   async hset(hash: string, data: Record<string, string>): Promise<number> {
     const existingData = mockRedisHash.get(hash) || {};
     const newData = { ...existingData, ...data };
@@ -33,6 +155,203 @@ class MockRedisClient {
     return Object.keys(data).length;
   }
 
+  async hmget(hash: string, ...fields: string[]): Promise<(string | null)[]> {
+    const hashData = mockRedisHash.get(hash) || {};
+    return fields.flat().map(field => hashData[field] ?? null);
+  }
+
+  async hincrby(hash: string, field: string, increment: number): Promise<number> {
+    const hashData = mockRedisHash.get(hash) || {};
+    const value = parseInt(hashData[field] || "0") + Number(increment);
+    mockRedisHash.set(hash, { ...hashData, [field]: value.toString() });
+    return value;
+  }
+
+  async zadd(key: string, ...args: (string | number)[]): Promise<number> {
+    const set = mockRedisSortedSet.get(key) || new Map<string, number>();
+    let added = 0;
+    for (let i = 0; i < args.length; i += 2) {
+      const member = String(args[i + 1]);
+      if (!set.has(member)) added++;
+      set.set(member, Number(args[i]));
+    }
+    mockRedisSortedSet.set(key, set);
+    return added;
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    const set = mockRedisSortedSet.get(key);
+    if (!set) return 0;
+    let removed = 0;
+    for (const member of members) {
+      if (set.delete(member)) removed++;
+    }
+    if (set.size === 0) mockRedisSortedSet.delete(key);
+    return removed;
+  }
+
+  async zincrby(key: string, increment: number, member: string): Promise<number> {
+    const set = mockRedisSortedSet.get(key) || new Map<string, number>();
+    const score = (set.get(member) ?? 0) + Number(increment);
+    set.set(member, score);
+    mockRedisSortedSet.set(key, set);
+    return score;
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    return mockRedisSortedSet.get(key)?.get(member) ?? null;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return mockRedisSortedSet.get(key)?.size || 0;
+  }
+
+  async zcount(key: string, min: string | number, max: string | number): Promise<number> {
+    return membersByScore(key, min, max, []).length;
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    return sliceByRank(sortedMembers(key), start, stop).map(([member]) => member);
+  }
+
+  async zrevrange(key: string, start: number, stop: number): Promise<string[]> {
+    return sliceByRank(sortedMembers(key).reverse(), start, stop).map(([member]) => member);
+  }
+
+  async zrangebyscore(key: string, min: string | number, max: string | number, ...options: (string | number)[]): Promise<string[]> {
+    return membersByScore(key, min, max, options);
+  }
+
+  async zrevrangebyscore(key: string, max: string | number, min: string | number, ...options: (string | number)[]): Promise<string[]> {
+    const members = membersByScore(key, min, max, []).reverse();
+    const limitIndex = options.findIndex(option => String(option).toUpperCase() === "LIMIT");
+    if (limitIndex === -1) return members;
+    const offset = Number(options[limitIndex + 1]);
+    const count = Number(options[limitIndex + 2]);
+    return members.slice(offset, count < 0 ? undefined : offset + count);
+  }
+
+  async lpush(key: string, ...values: string[]): Promise<number> {
+    const list = mockRedisList.get(key) || [];
+    list.unshift(...values.reverse());
+    mockRedisList.set(key, list);
+    return list.length;
+  }
+
+  async rpush(key: string, ...values: string[]): Promise<number> {
+    const list = mockRedisList.get(key) || [];
+    list.push(...values);
+    mockRedisList.set(key, list);
+    return list.length;
+  }
+
+  async rpoplpush(source: string, destination: string): Promise<string | null> {
+    const value = mockRedisList.get(source)?.pop();
+    if (value === undefined) return null;
+    await this.lpush(destination, value);
+    return value;
+  }
+
+  // Never blocks: an empty list answers like an expired timeout
+  async brpoplpush(source: string, destination: string, _timeout: number): Promise<string | null> {
+    return this.rpoplpush(source, destination);
+  }
+
+  async llen(key: string): Promise<number> {
+    return mockRedisList.get(key)?.length ?? 0;
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return sliceByRank(mockRedisList.get(key) || [], start, stop);
+  }
+
+  // Removes the first `count` matches from the head (all of them when count is 0)
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    const list = mockRedisList.get(key) || [];
+    let removed = 0;
+    const kept = list.filter(item => {
+      if (item === value && (count === 0 || removed < count)) {
+        removed++;
+        return false;
+      }
+      return true;
+    });
+    mockRedisList.set(key, kept);
+    return removed;
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<string> {
+    mockRedisList.set(key, sliceByRank(mockRedisList.get(key) || [], start, stop));
+    return "OK";
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    const set = mockRedisSet.get(key) || new Set<string>();
+    const before = set.size;
+    for (const member of members) set.add(member);
+    mockRedisSet.set(key, set);
+    return set.size - before;
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    const set = mockRedisSet.get(key);
+    if (!set) return 0;
+    return members.filter(member => set.delete(member)).length;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return [...(mockRedisSet.get(key) || [])];
+  }
+
+  async sismember(key: string, member: string): Promise<boolean> {
+    return mockRedisSet.get(key)?.has(member) ?? false;
+  }
+
+  // Raw commands: HSET, EXPIRE, SCAN (in one batch) and the FT.SUG* suggestion commands; anything else
+  // (e.g. FT.SEARCH) is rejected like an unknown command
+  async send(command: string, args: string[]): Promise<unknown> {
+    switch (command.toUpperCase()) {
+      case "HSET": {
+        const [hash, ...pairs] = args;
+        const data: Record<string, string> = {};
+        for (let i = 0; i < pairs.length; i += 2) {
+          data[pairs[i]] = pairs[i + 1];
+        }
+        return this.hset(hash, data);
+      }
+      case "EXPIRE":
+        if (!mockRedisData.has(args[0])) return 0;
+        mockRedisExpiry.set(args[0], Date.now() + Number(args[1]) * 1000);
+        return 1;
+      case "SCAN": {
+        const matchIndex = args.findIndex(arg => arg.toUpperCase() === "MATCH");
+        return ["0", await this.keys(matchIndex === -1 ? "*" : args[matchIndex + 1])];
+      }
+      case "FT.SUGADD": {
+        const [key, text, score, ...options] = args;
+        const dictionary = mockRedisSuggestions.get(key) || new Map<string, number>();
+        const increment = options.some(option => option.toUpperCase() === "INCR");
+        dictionary.set(text, (increment ? dictionary.get(text) ?? 0 : 0) + Number(score));
+        mockRedisSuggestions.set(key, dictionary);
+        return dictionary.size;
+      }
+      case "FT.SUGGET": {
+        const [key, prefix, ...options] = args;
+        const maxIndex = options.findIndex(option => option.toUpperCase() === "MAX");
+        const max = maxIndex === -1 ? 5 : Number(options[maxIndex + 1]);
+        const matches = [...(mockRedisSuggestions.get(key) || new Map<string, number>())]
+          .filter(([text]) => text.toLowerCase().startsWith(prefix.toLowerCase()))
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, max);
+        return options.some(option => option.toUpperCase() === "WITHSCORES")
+          ? matches.flatMap(([text, score]) => [text, score.toString()])
+          : matches.map(([text]) => text);
+      }
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
   async expire(key: string, seconds: number): Promise<number> {
     // For testing, we'll just return 1 to indicate success
     return 1;
@@ -49,11 +368,21 @@ const originalModule = await import("../src/app/lib/redis-client");
 // Create mock functions
 const mockGetRedisClient = () => new MockRedisClient();
 
+// Clear all mock data
+function clearMockRedis() {
+  mockRedisData.clear();
+  mockRedisHash.clear();
+  mockRedisSortedSet.clear();
+  mockRedisExpiry.clear();
+  mockRedisSuggestions.clear();
+  mockRedisList.clear();
+  mockRedisSet.clear();
+}
+
 // Setup and teardown
 beforeEach(() => {
   // Clear all mock data before each test
-  mockRedisData.clear();
-  mockRedisHash.clear();
+  clearMockRedis();
   
   // Mock the getRedisClient function
   globalThis.mockGetRedisClient = mockGetRedisClient;
@@ -61,12 +390,11 @@ beforeEach(() => {
 
 afterEach(() => {
   // Clean up after each test
-  mockRedisData.clear();
-  mockRedisHash.clear();
+  clearMockRedis();
 });
 
 // Export utilities for tests
-export { mockRedisData, mockRedisHash, MockRedisClient };
+export { mockRedisData, mockRedisHash, mockRedisSortedSet, mockRedisList, MockRedisClient, clearMockRedis };
 
 // Extend global type for our mock
 declare global {
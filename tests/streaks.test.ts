@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import { calculateStreaks } from "../src/app/lib/streaks";
+
+describe("calculateStreaks", () => {
+  it("should return empty streaks for no listens", () => {
+    const summary = calculateStreaks([], "2025-03-10");
+
+    expect(summary.currentStreak).toBe(0);
+    expect(summary.longestStreak).toBe(0);
+    expect(summary.longestStreakStart).toBeNull();
+    expect(summary.runs).toHaveLength(0);
+  });
+
+  it("should not mutate or depend on the order of the input dates", () => {
+    const dates = ["2025-03-10", "2025-03-08", "2025-03-09"];
+    const summary = calculateStreaks(dates, "2025-03-10");
+
+    expect(dates).toEqual(["2025-03-10", "2025-03-08", "2025-03-09"]);
+    expect(summary.currentStreak).toBe(3);
+    expect(summary.currentStreakStart).toBe("2025-03-08");
+  });
+
+  it("should count a current streak that ended yesterday", () => {
+    const summary = calculateStreaks(["2025-03-08", "2025-03-09"], "2025-03-10");
+
+    expect(summary.currentStreak).toBe(2);
+  });
+
+  it("should count a current streak that is not the final run in an unsorted list", () => {
+    // The old engine only counted a current streak on the last loop iteration
+    const summary = calculateStreaks(["2025-03-09", "2025-01-01", "2025-03-10"], "2025-03-10");
+
+    expect(summary.currentStreak).toBe(2);
+    expect(summary.runs).toHaveLength(2);
+  });
+
+  it("should drop the current streak after a missed day", () => {
+    const summary = calculateStreaks(["2025-03-07", "2025-03-08"], "2025-03-10");
+
+    expect(summary.currentStreak).toBe(0);
+    expect(summary.currentStreakStart).toBeNull();
+    expect(summary.longestStreak).toBe(2);
+  });
+
+  it("should report the longest streak with its start and end dates and every run", () => {
+    const summary = calculateStreaks(
+      ["2025-01-01", "2025-01-02", "2025-01-05", "2025-01-06", "2025-01-07", "2025-01-09"],
+      "2025-03-10"
+    );
+
+    expect(summary.longestStreak).toBe(3);
+    expect(summary.longestStreakStart).toBe("2025-01-05");
+    expect(summary.longestStreakEnd).toBe("2025-01-07");
+    expect(summary.runs.map(run => [run.start, run.end, run.length])).toEqual([
+      ["2025-01-01", "2025-01-02", 2],
+      ["2025-01-05", "2025-01-07", 3],
+      ["2025-01-09", "2025-01-09", 1],
+    ]);
+  });
+
+  it("should bridge missed days with grace days", () => {
+    const summary = calculateStreaks(
+      ["2025-01-01", "2025-01-02", "2025-01-04", "2025-01-05"],
+      "2025-01-05",
+      { graceDaysPerMonth: 1 }
+    );
+
+    expect(summary.currentStreak).toBe(4);
+    expect(summary.runs).toHaveLength(1);
+    expect(summary.runs[0].graceDays).toEqual(["2025-01-03"]);
+  });
+
+  it("should break the streak once a month's grace days run out", () => {
+    const summary = calculateStreaks(
+      ["2025-01-01", "2025-01-03", "2025-01-05"],
+      "2025-01-05",
+      { graceDaysPerMonth: 1 }
+    );
+
+    expect(summary.currentStreak).toBe(1);
+    expect(summary.longestStreak).toBe(2);
+    expect(summary.runs[0].graceDays).toEqual(["2025-01-02"]);
+  });
+
+  it("should reset grace days each month", () => {
+    const summary = calculateStreaks(
+      ["2025-01-30", "2025-02-01", "2025-02-03"],
+      "2025-02-03",
+      { graceDaysPerMonth: 1 }
+    );
+
+    expect(summary.currentStreak).toBe(3);
+    expect(summary.runs[0].graceDays).toEqual(["2025-01-31", "2025-02-02"]);
+  });
+
+  it("should keep a streak current through missed days covered by grace", () => {
+    const summary = calculateStreaks(["2025-03-06", "2025-03-07"], "2025-03-10", { graceDaysPerMonth: 2 });
+
+    expect(summary.currentStreak).toBe(2);
+  });
+
+  it("should not bridge gaps longer than grace can ever cover", () => {
+    const summary = calculateStreaks(["2024-01-01", "2025-01-01"], "2025-01-01", { graceDaysPerMonth: 7 });
+
+    expect(summary.runs).toHaveLength(2);
+    expect(summary.currentStreak).toBe(1);
+  });
+});
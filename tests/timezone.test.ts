@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, mock, setSystemTime, afterEach } from "bun:test";
+import { MockRedisClient, clearMockRedis } from "./setup";
+import { getMonthBounds, getTodayInTimezone, isValidTimezone } from "../src/app/lib/timezone";
+
+const mockClient = new MockRedisClient();
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => mockClient,
+}));
+
+const { ListenEventEntries } = await import("../src/app/lib/listen-event-entries");
+
+// 2025-03-10 05:30 UTC: still the 9th in Los Angeles, already the 10th in Tokyo
+const instant = new Date("2025-03-10T05:30:00Z");
+// 2025-03-10 20:00 UTC: still the 10th in Los Angeles, already the 11th in Auckland
+const evening = new Date("2025-03-10T20:00:00Z");
+
+describe("timezone helpers", () => {
+  it("should validate IANA timezones", () => {
+    expect(isValidTimezone("America/Los_Angeles")).toBe(true);
+    expect(isValidTimezone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimezone("UTC")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimezone("")).toBe(false);
+  });
+
+  it("should compute today for users west of UTC", () => {
+    expect(getTodayInTimezone("America/Los_Angeles", instant)).toBe("2025-03-09");
+    expect(getTodayInTimezone("America/Los_Angeles", evening)).toBe("2025-03-10");
+  });
+
+  it("should compute today for users east of UTC", () => {
+    expect(getTodayInTimezone("Asia/Tokyo", instant)).toBe("2025-03-10");
+    expect(getTodayInTimezone("Pacific/Auckland", evening)).toBe("2025-03-11");
+  });
+
+  it("should fall back to UTC for unknown timezones", () => {
+    expect(getTodayInTimezone("Not/AZone", instant)).toBe("2025-03-10");
+  });
+
+  it("should compute month boundaries without shifting days", () => {
+    expect(getMonthBounds(2025, 1)).toEqual({ start: "2025-01-01", end: "2025-01-31" });
+    expect(getMonthBounds(2024, 2)).toEqual({ start: "2024-02-01", end: "2024-02-29" });
+    expect(getMonthBounds(2025, 12)).toEqual({ start: "2025-12-01", end: "2025-12-31" });
+  });
+});
+
+describe("ListenEventEntries.isDateInFuture", () => {
+  it("should reject tomorrow for a user west of UTC even when it is already tomorrow in UTC", () => {
+    expect(ListenEventEntries.isDateInFuture("2025-03-10", "America/Los_Angeles", instant)).toBe(true);
+    expect(ListenEventEntries.isDateInFuture("2025-03-09", "America/Los_Angeles", instant)).toBe(false);
+  });
+
+  it("should allow today for a user east of UTC even when it is still yesterday in UTC", () => {
+    expect(ListenEventEntries.isDateInFuture("2025-03-11", "Pacific/Auckland", evening)).toBe(false);
+    expect(ListenEventEntries.isDateInFuture("2025-03-11", "UTC", evening)).toBe(true);
+  });
+});
+
+describe("ListenEventEntries.getUserStats streaks", () => {
+  beforeEach(async () => {
+    clearMockRedis();
+    setSystemTime(instant);
+    for (const date of ["2025-03-07", "2025-03-08"]) {
+      await ListenEventEntries.addOrUpdateListenEventEntry("testuser", date, "album", 8, "", "");
+    }
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it("should keep a streak current when the last listen was yesterday in the user's timezone", async () => {
+    const stats = await ListenEventEntries.getUserStats("testuser", "America/Los_Angeles");
+
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(2);
+  });
+
+  it("should break the streak when the user's today is two days after the last listen", async () => {
+    const stats = await ListenEventEntries.getUserStats("testuser", "Asia/Tokyo");
+
+    expect(stats.currentStreak).toBe(0);
+    expect(stats.longestStreak).toBe(2);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterAll, mock, spyOn } from "bun:test";
+import { MockRedisClient, clearMockRedis } from "./setup";
+import type { Album } from "../src/app/lib/music-storage";
+import { parseSearchQuery } from "../src/app/lib/search-query";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+const { MusicStorage } = await import("../src/app/lib/music-storage");
+const { MusicBrainzClient, MusicBrainzApiError } = await import("../src/app/lib/musicbrainz-client");
+const { UnifiedSearch, getLocalThreshold } = await import("../src/app/lib/unified-search");
+
+const album = (id: string, releaseGroupId: string = id): Album => ({
+  id,
+  title: "Blue",
+  artistName: "Joni Mitchell",
+  artistId: "joni",
+  releaseGroupId,
+  status: "Official",
+  type: "Album",
+});
+
+const searchLocal = spyOn(MusicStorage, "searchAlbums");
+const searchMusicBrainz = spyOn(MusicBrainzClient, "search");
+const searchLocalArtists = spyOn(MusicStorage, "searchArtists");
+const searchMusicBrainzArtists = spyOn(MusicBrainzClient, "searchArtists");
+const originalThreshold = process.env.MUSIC_SEARCH_LOCAL_THRESHOLD;
+
+beforeEach(() => {
+  clearMockRedis();
+  searchLocal.mockReset();
+  searchMusicBrainz.mockReset();
+  searchLocalArtists.mockReset();
+  searchLocalArtists.mockResolvedValue([]);
+  searchMusicBrainzArtists.mockReset();
+  searchMusicBrainzArtists.mockResolvedValue([]);
+});
+
+afterAll(() => {
+  searchLocal.mockRestore();
+  searchMusicBrainz.mockRestore();
+  searchLocalArtists.mockRestore();
+  searchMusicBrainzArtists.mockRestore();
+  if (originalThreshold === undefined) {
+    delete process.env.MUSIC_SEARCH_LOCAL_THRESHOLD;
+  } else {
+    process.env.MUSIC_SEARCH_LOCAL_THRESHOLD = originalThreshold;
+  }
+});
+
+describe("UnifiedSearch", () => {
+  const query = parseSearchQuery("blue");
+
+  it("should answer from the local index when it has enough albums", async () => {
+    searchLocal.mockResolvedValue([album("a"), album("b")]);
+
+    const { results } = await UnifiedSearch.search(query, 50, 2);
+
+    expect(searchMusicBrainz).not.toHaveBeenCalled();
+    expect(results.sources).toEqual({ local: 2, musicbrainz: 0 });
+  });
+
+  it("should merge and dedupe MusicBrainz results below the threshold", async () => {
+    searchLocal.mockResolvedValue([album("a")]);
+    searchMusicBrainz.mockResolvedValue({ albums: [album("a"), album("b"), album("b-reissue", "b")], artists: [], total: 3 });
+
+    const { results } = await UnifiedSearch.search(query, 50, 5);
+
+    expect(results.albums.map(result => [result.id, result.source, result.otherEditions])).toEqual([
+      ["a", "local", 0],
+      ["b", "musicbrainz", 1],
+    ]);
+    expect(results.sources).toEqual({ local: 1, musicbrainz: 1 });
+  });
+
+  it("should only ask MusicBrainz for artists the site doesn't know", async () => {
+    const joni = { id: "joni", name: "Joni Mitchell" };
+    searchLocal.mockResolvedValue([]);
+    searchMusicBrainz.mockResolvedValue({ albums: [], artists: [], total: 0 });
+    searchMusicBrainzArtists.mockResolvedValue([joni]);
+
+    const { results } = await UnifiedSearch.search(parseSearchQuery('artist:"joni mitchell"'), 50, 5);
+
+    expect(searchLocalArtists).toHaveBeenCalledWith("joni mitchell", 5);
+    expect(results.artists).toEqual([{ ...joni, source: "musicbrainz" }]);
+
+    searchLocalArtists.mockResolvedValue([joni]);
+    const { results: local } = await UnifiedSearch.search(parseSearchQuery("joni"), 50, 5);
+
+    expect(searchMusicBrainzArtists).toHaveBeenCalledTimes(1);
+    expect(local.artists).toEqual([{ ...joni, source: "local" }]);
+  });
+
+  it("should cache merged results", async () => {
+    searchLocal.mockResolvedValue([]);
+    searchMusicBrainz.mockResolvedValue({ albums: [album("b")], artists: [], total: 1 });
+
+    expect((await UnifiedSearch.search(query, 50, 5)).cached).toBe(false);
+    const { results, cached } = await UnifiedSearch.search(query, 50, 5);
+
+    expect(cached).toBe(true);
+    expect(results.albums.map(result => result.id)).toEqual(["b"]);
+    expect(searchMusicBrainz).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back to local results when MusicBrainz fails, without caching them", async () => {
+    searchLocal.mockResolvedValue([album("a")]);
+    searchMusicBrainz.mockRejectedValue(new MusicBrainzApiError(503, "Service Unavailable"));
+
+    expect((await UnifiedSearch.search(query, 50, 5)).results.albums.map(result => result.id)).toEqual(["a"]);
+    expect((await UnifiedSearch.search(query, 50, 5)).cached).toBe(false);
+
+    searchLocal.mockResolvedValue([]);
+    await expect(UnifiedSearch.search(parseSearchQuery("unknown"), 50, 5)).rejects.toThrow("503");
+  });
+
+  it("should read the threshold from the environment", () => {
+    delete process.env.MUSIC_SEARCH_LOCAL_THRESHOLD;
+    expect(getLocalThreshold()).toBe(5);
+
+    process.env.MUSIC_SEARCH_LOCAL_THRESHOLD = "0";
+    expect(getLocalThreshold()).toBe(0);
+  });
+});
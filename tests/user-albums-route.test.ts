@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { NextRequest } from "next/server";
+import { MockRedisClient, clearMockRedis } from "./setup";
+
+mock.module("../src/app/lib/redis-client", () => ({
+  getRedisClient: () => new MockRedisClient(),
+}));
+
+mock.module("../src/app/lib/auth-middleware", () => ({
+  authenticateRequest: async () => ({
+    user: { id: "user-1", username: "alice", createdAt: "2024-01-01T00:00:00.000Z", timezone: "UTC", graceDaysPerMonth: 0 },
+  }),
+}));
+
+const { GET } = await import("../src/app/api/user/albums/route");
+
+function getCalendar(startDate: string, endDate: string): Promise<Response> {
+  const params = new URLSearchParams({ startDate, endDate });
+  return GET(new NextRequest(`http://localhost:3000/api/user/albums?${params}`));
+}
+
+beforeEach(() => {
+  clearMockRedis();
+});
+
+describe("GET /api/user/albums with a date range", () => {
+  it("should return one entry per day", async () => {
+    const response = await getCalendar("2024-02-27", "2024-03-01");
+
+    expect(response.status).toBe(200);
+    const { calendar } = await response.json();
+    expect(calendar.map((day: { date: string }) => day.date)).toEqual(["2024-02-27", "2024-02-28", "2024-02-29", "2024-03-01"]);
+  });
+
+  it("should reject dates that aren't YYYY-MM-DD", async () => {
+    expect((await getCalendar("2024-02-30", "2024-03-01")).status).toBe(400);
+    expect((await getCalendar("2024-01-01", "tomorrow")).status).toBe(400);
+  });
+
+  it("should reject ranges that end before they start", async () => {
+    expect((await getCalendar("2024-03-01", "2024-02-01")).status).toBe(400);
+  });
+
+  it("should allow a leap year but nothing longer", async () => {
+    expect((await getCalendar("2024-01-01", "2024-12-31")).status).toBe(200);
+    expect((await getCalendar("2024-01-01", "2025-01-01")).status).toBe(400);
+    expect((await getCalendar("0001-01-01", "9999-12-31")).status).toBe(400);
+  });
+});
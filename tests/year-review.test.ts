@@ -0,0 +1,81 @@
+import { describe, it, expect } from "bun:test";
+import { buildYearReview } from "../src/app/lib/year-review";
+import type { CalendarListenEventEntry } from "../src/app/lib/listen-event-entries";
+import type { Album } from "../src/app/lib/music-storage";
+
+const blue: Album = { id: "blue", title: "Blue", artistName: "Joni Mitchell", artistId: "joni", localArtPath: "/album-art/blue.jpg" };
+const hejira: Album = { id: "hejira", title: "Hejira", artistName: "Joni Mitchell", artistId: "joni" };
+const kindOfBlue: Album = { id: "kind-of-blue", title: "Kind of Blue", artistName: "Miles Davis", artistId: "miles" };
+
+const entry = (date: string, album: Album | null, album_mbid: string, rating: number): CalendarListenEventEntry => ({
+  date,
+  album_mbid,
+  album,
+  rating,
+  favorite_track: "",
+  notes: "",
+});
+
+describe("buildYearReview", () => {
+  it("should summarize an empty year", () => {
+    const review = buildYearReview("testuser", 2025, []);
+
+    expect(review.totalAlbums).toBe(0);
+    expect(review.bestRated).toBeNull();
+    expect(review.longestStreak).toBeNull();
+    expect(review.favoriteArtist).toBeNull();
+    expect(review.firstListen).toBeNull();
+    expect(review.months).toHaveLength(12);
+    expect(review.covers).toHaveLength(365);
+    expect(review.covers.every(cover => cover.coverUrl === null)).toBe(true);
+  });
+
+  it("should have a cover slot for every day of a leap year", () => {
+    const review = buildYearReview("testuser", 2024, []);
+
+    expect(review.covers).toHaveLength(366);
+    expect(review.covers[59].date).toBe("2024-02-29");
+  });
+
+  it("should summarize the year's listens", () => {
+    const review = buildYearReview("testuser", 2025, [
+      entry("2025-01-01", blue, "blue", 9),
+      entry("2025-01-02", kindOfBlue, "kind-of-blue", 10),
+      entry("2025-01-03", hejira, "hejira", 8),
+      entry("2025-03-15", null, "uncached", 10),
+      entry("2025-12-31", blue, "blue", 7),
+    ]);
+
+    expect(review.totalAlbums).toBe(5);
+    expect(review.averageRating).toBe(8.8);
+    expect(review.bestRated?.date).toBe("2025-01-02");
+    expect(review.longestStreak).toEqual({ length: 3, start: "2025-01-01", end: "2025-01-03" });
+    expect(review.favoriteArtist).toMatchObject({ artistId: "joni", count: 3 });
+    expect(review.firstListen?.date).toBe("2025-01-01");
+    expect(review.lastListen?.date).toBe("2025-12-31");
+  });
+
+  it("should pick the top album of each month", () => {
+    const review = buildYearReview("testuser", 2025, [
+      entry("2025-01-01", blue, "blue", 9),
+      entry("2025-01-02", kindOfBlue, "kind-of-blue", 9),
+      entry("2025-02-10", hejira, "hejira", 6),
+    ]);
+
+    expect(review.months[0]).toMatchObject({ month: "2025-01", listens: 2 });
+    expect(review.months[0].topAlbum?.album_mbid).toBe("blue");
+    expect(review.months[1].topAlbum?.album_mbid).toBe("hejira");
+    expect(review.months[2]).toEqual({ month: "2025-03", listens: 0, topAlbum: null });
+  });
+
+  it("should prefer locally cached artwork for covers", () => {
+    const review = buildYearReview("testuser", 2025, [
+      entry("2025-01-01", blue, "blue", 9),
+      entry("2025-01-02", kindOfBlue, "kind-of-blue", 9),
+    ]);
+
+    expect(review.covers[0]).toMatchObject({ title: "Blue", coverUrl: "/album-art/blue.jpg" });
+    expect(review.covers[1].coverUrl).toBe("/api/music/artwork?mbid=kind-of-blue");
+    expect(review.covers[2]).toMatchObject({ date: "2025-01-03", coverUrl: null, rating: null });
+  });
+});